@@ -4,17 +4,22 @@ import OptimizerPage from './components/OptimizerPage';
 import HistoricalSimulationEnginePage from './components/HistoricalSimulationEnginePage';
 import PostSlateAnalysisPage from './components/PostSlateAnalysisPage';
 import ErrorBoundary from './components/ErrorBoundary';
-import { StatWeights, Player, OptimizerSettings, TunedModel, BacktestReport } from './types';
+import { ModelSet, Player, OptimizerSettings, TunedModel, BacktestReport, ContestRuleset, RosterRules } from './types';
 import { INITIAL_WEIGHTS } from './services/historicalSimulationService';
 import BacktestPage from './components/BacktestPage';
 import { modelStore } from './services/modelStore';
+import { DEFAULT_CONTEST_RULESET } from './services/contestRulesets';
+import { DEFAULT_ROSTER_RULES } from './services/lineupValidator';
 
 export type AppTab = 'optimizer' | 'lab' | 'post-slate' | 'backtest';
 
 function App() {
   const [activeTab, setActiveTab] = useState<AppTab>('optimizer');
-  const [statWeights, setStatWeights] = useState<StatWeights>(INITIAL_WEIGHTS);
+  const [modelSet, setModelSet] = useState<ModelSet>({ weights: INITIAL_WEIGHTS });
   const [players, setPlayers] = useState<Player[]>([]);
+  // The slate's site and roster rules are shared so post-slate imports are checked against the same contest.
+  const [contestRuleset, setContestRuleset] = useState<ContestRuleset>(DEFAULT_CONTEST_RULESET);
+  const [rosterRules, setRosterRules] = useState<RosterRules>(DEFAULT_ROSTER_RULES);
   const [backtestSettings, setBacktestSettings] = useState<OptimizerSettings | null>(null);
   const [savedModels, setSavedModels] = useState<TunedModel[]>([]);
   const [activeModelId, setActiveModelId] = useState<string | null>(null);
@@ -27,16 +32,16 @@ function App() {
       setSavedModels(models);
       // Automatically apply the best model if one isn't already active
       if (!activeModelId && models.length > 0) {
-        const bestModel = models[0]; // Models are pre-sorted by MAE
+        const bestModel = models[0]; // Models are pre-sorted by calibration (CRPS first)
         setActiveModelId(bestModel.id);
-        setStatWeights(bestModel.weights);
+        setModelSet(bestModel);
       }
     });
   }, [activeModelId]);
 
 
   const handleApplyModel = useCallback((model: TunedModel) => {
-    setStatWeights(model.weights);
+    setModelSet(model);
     setActiveModelId(model.id);
     // If applying from the lab, switch to the optimizer to see the effect
     if (activeTab === 'lab') {
@@ -68,8 +73,12 @@ function App() {
           {activeTab === 'optimizer' && 
             <OptimizerPage 
               players={players}
-              statWeights={statWeights} 
+              modelSet={modelSet} 
               onPlayersUpdate={handlePlayersChange} 
+              contestRuleset={contestRuleset}
+              onContestRulesetChange={setContestRuleset}
+              rosterRules={rosterRules}
+              onRosterRulesChange={setRosterRules}
               onRunBacktest={handleRunBacktest}
               savedModels={savedModels}
               activeModelId={activeModelId}
@@ -78,7 +87,7 @@ function App() {
             />
           }
           {activeTab === 'lab' && <HistoricalSimulationEnginePage onApplyModel={handleApplyModel} />}
-          {activeTab === 'post-slate' && <PostSlateAnalysisPage players={players} />}
+          {activeTab === 'post-slate' && <PostSlateAnalysisPage players={players} contestRuleset={contestRuleset} rosterRules={rosterRules} />}
           {activeTab === 'backtest' && <BacktestPage settings={backtestSettings} players={players} onBacktestComplete={handleBacktestComplete} />}
         </ErrorBoundary>
       </main>
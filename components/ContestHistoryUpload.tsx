@@ -2,15 +2,16 @@ import React, { useCallback, useRef, useState } from 'react';
 import UploadIcon from './icons/UploadIcon';
 import SpinnerIcon from './icons/SpinnerIcon';
 import { parseContestHistory } from '../services/contestHistoryParser';
-import { ContestResult } from '../types';
+import { ContestResult, ContestRuleset } from '../types';
 
 
 interface ContestHistoryUploadProps {
   onComplete: (results: ContestResult[]) => void;
   onError: (message: string) => void;
+  contestRuleset: ContestRuleset;
 }
 
-const ContestHistoryUpload: React.FC<ContestHistoryUploadProps> = ({ onComplete, onError }) => {
+const ContestHistoryUpload: React.FC<ContestHistoryUploadProps> = ({ onComplete, onError, contestRuleset }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [isLoading, setIsLoading] = useState(false);
 
@@ -20,7 +21,7 @@ const ContestHistoryUpload: React.FC<ContestHistoryUploadProps> = ({ onComplete,
     onError("");
 
     try {
-        const results = await parseContestHistory(file);
+        const results = await parseContestHistory(file, contestRuleset);
         onComplete(results);
     } catch (error) {
         onError(error instanceof Error ? error.message : "Failed to process contest history file.");
@@ -30,7 +31,7 @@ const ContestHistoryUpload: React.FC<ContestHistoryUploadProps> = ({ onComplete,
             fileInputRef.current.value = "";
         }
     }
-  }, [onComplete, onError]);
+  }, [onComplete, onError, contestRuleset]);
   
   const handleFileChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
       const file = event.target.files?.[0];
@@ -62,7 +63,7 @@ const ContestHistoryUpload: React.FC<ContestHistoryUploadProps> = ({ onComplete,
             {isLoading ? 'Parsing Results...' : 'Upload Contest History CSV'}
         </button>
          <p className="text-xs text-center mt-2 text-gray-500">
-            Download the CSV from your FanDuel "History" page for the specific contest.
+            Download the CSV from your {contestRuleset.site} "History" page for the specific contest.
         </p>
     </div>
   );
@@ -2,13 +2,16 @@ import React, { useCallback, useRef, useState } from 'react';
 import UploadIcon from './icons/UploadIcon';
 import SpinnerIcon from './icons/SpinnerIcon';
 import { UploadData, handleFileUpload } from '../services/dataManager';
+import { ContestRuleset } from '../types';
+import { DEFAULT_CONTEST_RULESET } from '../services/contestRulesets';
 
 interface FileUploadProps {
   onComplete: (data: UploadData) => void;
   onError: (message: string) => void;
+  contestRuleset?: ContestRuleset;
 }
 
-const FileUpload: React.FC<FileUploadProps> = ({ onComplete, onError }) => {
+const FileUpload: React.FC<FileUploadProps> = ({ onComplete, onError, contestRuleset = DEFAULT_CONTEST_RULESET }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [isLoading, setIsLoading] = useState<false | string>(false);
 
@@ -18,7 +21,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ onComplete, onError }) => {
     onError("");
 
     try {
-        const data = await handleFileUpload(file, (status) => setIsLoading(status));
+        const data = await handleFileUpload(file, (status) => setIsLoading(status), contestRuleset);
         onComplete(data);
     } catch (error) {
         onError(error instanceof Error ? error.message : "Failed to process file.");
@@ -28,7 +31,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ onComplete, onError }) => {
             fileInputRef.current.value = "";
         }
     }
-  }, [onComplete, onError]);
+  }, [onComplete, onError, contestRuleset]);
   
   const handleFileChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
       const file = event.target.files?.[0];
@@ -57,10 +60,10 @@ const FileUpload: React.FC<FileUploadProps> = ({ onComplete, onError }) => {
             className="w-full flex items-center justify-center gap-2 bg-gray-700 hover:bg-gray-600 text-white font-bold py-3 px-4 rounded-lg transition duration-300 disabled:bg-gray-800 disabled:cursor-not-allowed"
         >
             {isLoading ? <SpinnerIcon /> : <UploadIcon />}
-            {isLoading || 'Upload FanDuel Player CSV'}
+            {isLoading || `Upload ${contestRuleset.site} Player CSV`}
         </button>
          <p className="text-xs text-center mt-2 text-gray-500">
-            Upload the CSV you downloaded directly from the FanDuel contest page.
+            Upload the CSV you downloaded directly from the {contestRuleset.site} contest page.
         </p>
     </div>
   );
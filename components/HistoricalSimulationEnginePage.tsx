@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { TunedModel, ValidationReport, SimulationParams, CalibrationReport } from '../types';
+import { TunedModel, ValidationReport, ValidationFold, SimulationParams, CalibrationReport, SegmentModel } from '../types';
 import { runFullSimulation } from '../services/historicalSimulationService';
+import { compareCalibrationReports } from '../services/calibrationService';
 import { modelStore } from '../services/modelStore';
 import SpinnerIcon from './icons/SpinnerIcon';
 import LightbulbIcon from './icons/LightbulbIcon';
@@ -16,6 +17,7 @@ interface HistoricalSimulationEnginePageProps {
 
 const getModelSourceCode = (name: string): string => {
     if (name.includes('Ensemble')) return 'Ensemble';
+    if (name.includes('Model Set')) return 'SegSet';
     if (name.includes('Correlation-Infused')) return 'CorrQuant';
     if (name.includes('Master Quant')) return 'QuantReg';
     if (name.includes('Sabermetric')) return 'Saber';
@@ -34,7 +36,8 @@ const ValidationReportDisplay: React.FC<{
     <div className="border-t border-gray-700 pt-6 animate-fade-in">
         <h2 className="text-2xl font-bold mb-4 text-white">Validation Report</h2>
         <div className="bg-gray-900 p-4 rounded-lg border border-gray-700">
-           <p className="text-sm text-gray-400 mb-4">The following models were discovered using a <span className="font-bold text-white">{report.trainingSetSize}-game training set</span> and then tested on a blind <span className="font-bold text-white">{report.validationSetSize}-game validation set</span>. A lower MAE (Mean Absolute Error) indicates a more accurate model.</p>
+           <p className="text-sm text-gray-400 mb-4">Models were validated walk-forward over <span className="font-bold text-white">{report.folds.length} folds</span> and <span className="font-bold text-white">{report.validationSetSize} later games</span>, each fold training only on weeks at least <span className="font-bold text-white">{report.embargoWeeks} week(s)</span> before the games it is scored on. The models below were fit on the final fold's <span className="font-bold text-white">{report.trainingSetSize}-game training window</span>. Models are ranked by CRPS, which scores the whole predictive distribution; a calibrated model covers 10/50/90% of outcomes at its P10/P50/P90 and has a flat PIT histogram.</p>
+           <FoldTable folds={report.folds} />
            <div className="space-y-3">
                {report.models.map((model, index) => (
                    <div key={model.id} className={`p-4 rounded-lg border ${index === 0 ? 'bg-green-900/50 border-green-500' : 'bg-gray-800 border-gray-700'}`}>
@@ -43,13 +46,18 @@ const ValidationReportDisplay: React.FC<{
                                 <h3 className="text-lg font-bold text-white">{index + 1}. {model.name}</h3>
                                 <p className="text-xs text-gray-500">{model.sourceDescription}</p>
                            </div>
-                           <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-center mt-2 sm:mt-0">
-                               <Metric title="MAE" value={model.performance.calibration?.mae.toFixed(4) || 'N/A'} isPrimary={true} />
-                               <Metric title="CRPS" value={model.performance.calibration?.crps.toFixed(4) || 'N/A'} />
+                           <div className="grid grid-cols-3 sm:grid-cols-7 gap-2 text-center mt-2 sm:mt-0">
+                               <Metric title="CRPS" value={model.performance.calibration?.crps.toFixed(4) || 'N/A'} isPrimary={true} />
+                               <Metric title="MAE" value={model.performance.calibration?.mae.toFixed(4) || 'N/A'} />
                                <Metric title="PIT p-val" value={model.performance.calibration?.pitKsPValue.toFixed(3) || 'N/A'} />
-                               <Metric title="P50 Cov." value={`${(model.performance.calibration?.p50Coverage || 0).toFixed(1)}%`} />
+                               <Metric title="ECE" value={model.performance.calibration?.ece?.toFixed(3) || 'N/A'} />
+                               <Metric title="P10 Cov." value={formatCoverage(model.performance.calibration?.p10Coverage)} />
+                               <Metric title="P50 Cov." value={formatCoverage(model.performance.calibration?.p50Coverage)} />
+                               <Metric title="P90 Cov." value={formatCoverage(model.performance.calibration?.p90Coverage)} />
                            </div>
                        </div>
+                       {model.performance.calibration?.pitHistogram && <PitHistogram histogram={model.performance.calibration.pitHistogram} />}
+                       {model.segments && <SegmentSummary segments={model.segments} />}
                        <div className="mt-3 flex gap-2">
                            <button onClick={() => onSave(model)} className="text-xs bg-cyan-600 hover:bg-cyan-500 text-white font-bold py-1 px-3 rounded">
                                Promote to Library
@@ -65,6 +73,70 @@ const ValidationReportDisplay: React.FC<{
     </div>
 );
 
+// Validation CRPS of each segment in a model set; players in no segment were scored by the global fallback.
+const SegmentSummary: React.FC<{ segments: SegmentModel[] }> = ({ segments }) => (
+    <div className="mt-3 flex flex-wrap gap-2 text-xs">
+        {segments.length === 0 && <span className="text-gray-500">No segment had enough training players; every player used the global fallback.</span>}
+        {segments.map(segment => (
+            <span key={segment.key} className="bg-gray-900 border border-gray-700 rounded px-2 py-1 font-mono" title={`Validation CRPS · ${segment.trainingRows} training players`}>
+                <span className="text-gray-400">{segment.archetype ? `${segment.positionGroup} · ${segment.archetype}` : segment.positionGroup}</span>{' '}
+                <span className="text-white">{segment.calibration ? segment.calibration.crps.toFixed(3) : 'N/A'}</span>
+            </span>
+        ))}
+    </div>
+);
+
+const formatCoverage = (coverage: number | undefined) => coverage != null ? `${coverage.toFixed(1)}%` : 'N/A';
+
+// Share of outcomes in each tenth of their predictive distribution; flat bars mean a calibrated model.
+const PitHistogram: React.FC<{ histogram: number[] }> = ({ histogram }) => {
+    const max = Math.max(...histogram, 0.1);
+    return (
+        <div className="mt-3 relative flex items-end gap-0.5 h-10" title="PIT histogram: a calibrated model fills every bar to the dashed line">
+            {histogram.map((share, i) => (
+                <div key={i} className="flex-1 bg-cyan-600/60" style={{ height: `${(share / max) * 100}%` }} />
+            ))}
+            <div className="absolute left-0 right-0 border-t border-dashed border-gray-400" style={{ bottom: `${(0.1 / max) * 100}%` }} />
+        </div>
+    );
+};
+
+// MAE and calibration per model in each fold, so a model that only does well in one era stands out.
+const FoldTable: React.FC<{ folds: ValidationFold[] }> = ({ folds }) => {
+    const modelNames = [...new Set(folds.flatMap(fold => fold.models.map(m => m.name)))];
+    return (
+        <div className="overflow-x-auto mb-4">
+            <table className="w-full text-xs text-left">
+                <thead className="text-gray-500 uppercase">
+                    <tr>
+                        <th className="py-1 pr-2">Fold</th>
+                        <th className="py-1 pr-2">Train</th>
+                        <th className="py-1 pr-2">Validate</th>
+                        {modelNames.map(name => <th key={name} className="py-1 pr-2 text-right truncate max-w-[8rem]" title={name}>{name}</th>)}
+                    </tr>
+                </thead>
+                <tbody className="text-gray-300">
+                    {folds.map(fold => (
+                        <tr key={fold.index} className="border-t border-gray-800">
+                            <td className="py-1 pr-2 font-bold text-white">{fold.index}</td>
+                            <td className="py-1 pr-2 whitespace-nowrap">{fold.trainingWeeks[0]} – {fold.trainingWeeks[1]} ({fold.trainingSetSize})</td>
+                            <td className="py-1 pr-2 whitespace-nowrap">{fold.validationWeeks[0]} – {fold.validationWeeks[1]} ({fold.validationSetSize})</td>
+                            {modelNames.map(name => {
+                                const calibration = fold.models.find(m => m.name === name)?.calibration;
+                                return (
+                                    <td key={name} className="py-1 pr-2 text-right font-mono" title={calibration ? `CRPS ${calibration.crps.toFixed(4)} · PIT p ${calibration.pitKsPValue.toFixed(3)} · ECE ${calibration.ece?.toFixed(3) ?? 'N/A'} · P10/P50/P90 cov. ${formatCoverage(calibration.p10Coverage)} / ${formatCoverage(calibration.p50Coverage)} / ${formatCoverage(calibration.p90Coverage)}` : undefined}>
+                                        {calibration ? calibration.mae.toFixed(3) : '–'}
+                                    </td>
+                                );
+                            })}
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
 const Metric: React.FC<{title: string, value: string, isPrimary?: boolean}> = ({ title, value, isPrimary }) => (
     <div className={isPrimary ? "sm:text-right" : ""}>
         <p className={`text-xs ${isPrimary ? 'text-gray-400' : 'text-gray-500'}`}>{title}</p>
@@ -86,6 +158,8 @@ const HistoricalSimulationEnginePage: React.FC<HistoricalSimulationEnginePagePro
     const [simulationParams, setSimulationParams] = useState<SimulationParams>({
         trainValidateSplit: 75,
         topKEnsemble: 3,
+        folds: 4,
+        embargoWeeks: 1,
     });
     
     const isRunningRef = useRef(false);
@@ -130,19 +204,22 @@ const HistoricalSimulationEnginePage: React.FC<HistoricalSimulationEnginePagePro
                 const bestNewModel = report.models[0];
                 const currentModels = await refreshSavedModels();
                 const bestSavedModel = currentModels[0];
-                const newMae = bestNewModel.performance.calibration?.mae ?? Infinity;
-                const bestSavedMae = bestSavedModel?.performance.calibration?.mae ?? Infinity;
+                const newCalibration = bestNewModel.performance.calibration;
+                const bestSavedCalibration = bestSavedModel?.performance.calibration;
+                const newCrps = newCalibration?.crps ?? Infinity;
+                const bestSavedCrps = bestSavedCalibration?.crps ?? Infinity;
 
-                if (newMae < bestSavedMae) {
+                // Same ordering the library uses, so a promoted model becomes the library's best.
+                if (compareCalibrationReports(newCalibration, bestSavedCalibration) < 0) {
                     noImprovementCounterRef.current = 0;
-                    const modelName = `Chimera-Evo-MAE-${newMae.toFixed(4)}-${getModelSourceCode(bestNewModel.name)}-${Date.now()}`;
-                    addLogEntry(`[PROMOTION] New best model! MAE: ${newMae.toFixed(4)} < ${bestSavedMae.toFixed(4)}. Saving as "${modelName}".`);
+                    const modelName = `Chimera-Evo-CRPS-${newCrps.toFixed(4)}-${getModelSourceCode(bestNewModel.name)}-${Date.now()}`;
+                    addLogEntry(`[PROMOTION] New best model! CRPS: ${newCrps.toFixed(4)} vs ${bestSavedCrps.toFixed(4)}. Saving as "${modelName}".`);
                     const modelToSave = { ...bestNewModel, name: modelName };
-                    await modelStore.saveModel(modelToSave.weights, modelToSave.performance, modelToSave.name, modelToSave.sourceDescription, modelToSave.gameScript);
+                    await modelStore.saveModel(modelToSave.weights, modelToSave.performance, modelToSave.name, modelToSave.sourceDescription, modelToSave.gameScript, modelToSave.intercept, modelToSave.segments);
                     await refreshSavedModels();
                 } else {
                     noImprovementCounterRef.current++;
-                    addLogEntry(`[PERFORMANCE] No improvement found. Best MAE remains ${bestSavedMae.toFixed(4)}.`);
+                    addLogEntry(`[PERFORMANCE] No improvement found. Best CRPS remains ${bestSavedCrps.toFixed(4)}.`);
                     if (noImprovementCounterRef.current >= 3) {
                         addLogEntry(`[AUDITOR] Performance plateau detected after ${noImprovementCounterRef.current} cycles.`);
                     }
@@ -183,7 +260,7 @@ const HistoricalSimulationEnginePage: React.FC<HistoricalSimulationEnginePagePro
         const name = prompt("Enter a name for this model:", model.name);
         if (!name || !name.trim()) return;
         const modelToSave = { ...model, name };
-        await modelStore.saveModel(modelToSave.weights, modelToSave.performance, modelToSave.name, modelToSave.sourceDescription, modelToSave.gameScript);
+        await modelStore.saveModel(modelToSave.weights, modelToSave.performance, modelToSave.name, modelToSave.sourceDescription, modelToSave.gameScript, modelToSave.intercept, modelToSave.segments);
         await refreshSavedModels();
         addLogEntry(`Promoted model "${name}" to library. Validation MAE: ${model.performance.calibration?.mae.toFixed(4)}`);
     };
@@ -201,7 +278,7 @@ const HistoricalSimulationEnginePage: React.FC<HistoricalSimulationEnginePagePro
             <div className="bg-black border border-gray-700 p-6 rounded-lg shadow-lg space-y-8">
                 <div>
                     <h1 className="text-3xl font-bold text-white mb-2">Quantitative Model Validation & Tuning Lab</h1>
-                    <p className="text-gray-400">This lab uses a rigorous train/validate methodology against the Chronos Data Vault to discover, test, and promote new projection models.</p>
+                    <p className="text-gray-400">This lab uses forward-only, walk-forward validation against the Chronos Data Vault to discover, test, and promote new projection models.</p>
                      <p className="text-sm text-cyan-400 mt-2">
                         The engine learns from a vault of <span className="font-bold">{VAULT_SIZE}</span> historical games. Cached games: <span className="font-bold">{cachedGameCount}</span>/{VAULT_SIZE}.
                     </p>
@@ -243,7 +320,8 @@ const HistoricalSimulationEnginePage: React.FC<HistoricalSimulationEnginePagePro
                                 <div>
                                     <p className="font-bold text-white">{model.name}</p>
                                     <p className="text-xs text-gray-400">
-                                        Validation MAE: <span className="font-bold text-green-400">{model.performance.calibration?.mae?.toFixed(4) || 'N/A'}</span> | 
+                                        Validation CRPS: <span className="font-bold text-green-400">{model.performance.calibration?.crps?.toFixed(4) || 'N/A'}</span> | 
+                                        MAE: {model.performance.calibration?.mae?.toFixed(4) || 'N/A'} | 
                                         Saved: {new Date(model.createdAt).toLocaleString()}
                                     </p>
                                 </div>
@@ -1,5 +1,5 @@
 import React from 'react';
-import { TunedModel, StatWeights } from '../types';
+import { TunedModel, StatWeights, RegularizationReport, SegmentModel } from '../types';
 import XIcon from './icons/XIcon';
 
 interface ModelDetailModalProps {
@@ -29,6 +29,79 @@ const WeightDisplay: React.FC<{ weights: StatWeights, title: string, keys: (keyo
     );
 };
 
+// The penalty the inner cross-validation picked, and how steady each surviving feature was across its folds.
+const RegularizationDisplay: React.FC<{ report: RegularizationReport, intercept?: number }> = ({ report, intercept }) => {
+    const selected = report.stability
+        .filter(s => report.nonZeroFeatures.includes(s.feature))
+        .sort((a, b) => Math.abs(b.standardizedCoefficient) - Math.abs(a.standardizedCoefficient));
+    return (
+        <div className="bg-gray-800 p-4 rounded-lg">
+            <h3 className="font-bold text-lg mb-2 text-white">{report.method === 'ridge' ? 'Ridge' : 'Lasso'} Regularization</h3>
+            <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm mb-3">
+                <div className="flex justify-between"><span className="text-gray-400">Lambda:</span><span className="font-mono text-cyan-400">{report.lambda.toPrecision(3)}</span></div>
+                <div className="flex justify-between"><span className="text-gray-400">Inner CV MAE ({report.innerFolds} walk-forward folds):</span><span className="font-mono text-white">{report.cvMae.toFixed(3)}</span></div>
+                <div className="flex justify-between"><span className="text-gray-400">Intercept:</span><span className="font-mono text-white">{(intercept ?? 0).toFixed(3)}</span></div>
+                <div className="flex justify-between"><span className="text-gray-400">Non-zero features:</span><span className="font-mono text-white">{report.nonZeroFeatures.length} / {report.stability.length}</span></div>
+            </div>
+            <table className="w-full text-xs">
+                <thead className="text-gray-500 uppercase">
+                    <tr>
+                        <th className="text-left py-1">Feature</th>
+                        <th className="text-right py-1" title="Per standard deviation of the feature">Std. Coef.</th>
+                        <th className="text-right py-1" title="Spread of the coefficient across the inner folds">Fold SD</th>
+                        <th className="text-right py-1" title="Share of inner folds that kept the feature">Selected</th>
+                        <th className="text-right py-1" title="Share of inner folds agreeing with the final sign">Sign</th>
+                    </tr>
+                </thead>
+                <tbody className="font-mono text-white">
+                    {selected.map(s => (
+                        <tr key={s.feature}>
+                            <td className="text-left py-0.5 font-sans text-gray-400">{s.feature}</td>
+                            <td className="text-right py-0.5 text-cyan-400">{s.standardizedCoefficient.toFixed(3)}</td>
+                            <td className="text-right py-0.5">{s.foldSd.toFixed(3)}</td>
+                            <td className="text-right py-0.5">{(s.selectionFrequency * 100).toFixed(0)}%</td>
+                            <td className={`text-right py-0.5 ${s.signConsistency < 1 ? 'text-yellow-300' : ''}`}>{(s.signConsistency * 100).toFixed(0)}%</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+// The segments of a model set. Players outside every listed segment are projected with the global weights below.
+const SegmentTable: React.FC<{ segments: SegmentModel[] }> = ({ segments }) => (
+    <div className="bg-gray-800 p-4 rounded-lg">
+        <h3 className="font-bold text-lg mb-2 text-white">Model Set Segments</h3>
+        {segments.length === 0
+            ? <p className="text-sm text-gray-400">No segment had enough training players, so every player uses the global fallback.</p>
+            : (
+                <table className="w-full text-xs">
+                    <thead>
+                        <tr className="text-gray-400 border-b border-gray-700">
+                            <th className="text-left py-1">Segment</th>
+                            <th className="text-right py-1">Players</th>
+                            <th className="text-right py-1">Intercept</th>
+                            <th className="text-right py-1">Val. CRPS</th>
+                            <th className="text-right py-1">Val. MAE</th>
+                        </tr>
+                    </thead>
+                    <tbody className="font-mono text-white">
+                        {segments.map(segment => (
+                            <tr key={segment.key}>
+                                <td className="py-0.5 font-sans">{segment.archetype ? `${segment.positionGroup} · ${segment.archetype}` : segment.positionGroup}</td>
+                                <td className="text-right py-0.5">{segment.trainingRows}</td>
+                                <td className="text-right py-0.5">{segment.intercept.toFixed(3)}</td>
+                                <td className="text-right py-0.5 text-cyan-400">{segment.calibration?.crps.toFixed(4) ?? 'N/A'}</td>
+                                <td className="text-right py-0.5">{segment.calibration?.mae.toFixed(4) ?? 'N/A'}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+    </div>
+);
+
 const ModelDetailModal: React.FC<ModelDetailModalProps> = ({ model, onClose }) => {
     if (!model) return null;
 
@@ -60,6 +133,8 @@ const ModelDetailModal: React.FC<ModelDetailModalProps> = ({ model, onClose }) =
                     </div>
                 </div>
                 <div className="p-6 space-y-4 overflow-y-auto">
+                    {model.segments && <SegmentTable segments={model.segments} />}
+                    {model.performance.regularization && <RegularizationDisplay report={model.performance.regularization} intercept={model.intercept} />}
                     <WeightDisplay weights={model.weights} title="Raw Stat Weights" keys={rawStatKeys} />
                     <WeightDisplay weights={model.weights} title="Sabermetric & Efficiency Weights" keys={sabermetricKeys} />
                     <WeightDisplay weights={model.weights} title="Correlation-Based Weights" keys={correlationKeys} />
@@ -1,5 +1,6 @@
 import React from 'react';
 import { OptimizationTarget } from '../services/optimizer';
+import { QUANTILE_LEVELS } from '../services/quantileService';
 
 interface OptimizationTargetSelectorProps {
     selected: OptimizationTarget;
@@ -35,6 +36,17 @@ const OptimizationTargetSelector: React.FC<OptimizationTargetSelectorProps> = ({
                     Ceiling (GPP)
                 </button>
             </div>
+            <select
+                value={selected === 'mean' || selected === 'ceiling' ? '' : selected}
+                onChange={(e) => e.target.value && onSelect(e.target.value as OptimizationTarget)}
+                className="mt-2 w-full bg-gray-800 border border-gray-600 rounded-md px-3 py-2 text-sm text-white focus:ring-2 focus:ring-gray-500 focus:outline-none"
+                title="Optimize for a specific quantile of each player's projected distribution."
+            >
+                <option value="">Quantile target…</option>
+                {QUANTILE_LEVELS.map(({ level }) => (
+                    <option key={level} value={level}>{level.toUpperCase()}</option>
+                ))}
+            </select>
         </div>
     );
 };
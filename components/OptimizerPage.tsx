@@ -1,5 +1,5 @@
-import React, { useState, useCallback, useMemo } from 'react';
-import { Player, Lineup, PlayerStatus, StackingRules, StatWeights, OptimizerSettings, TunedModel, BacktestReport } from '../types';
+import React, { useState, useCallback, useMemo, useEffect } from 'react';
+import { Player, Lineup, PlayerStatus, StackingRules, ModelSet, OptimizerSettings, TunedModel, BacktestReport, PlayerExposureTarget, UniquenessRules, RosterRules, ContestRuleset, ContestRulesetId, CorrelationObjective, RandomnessSettings, SolverBackendId, InfeasibilityReport, PortfolioSettings, PortfolioObjective, PayoutStyle, QuantileModel, ProjectionSource, ProjectionOverride, OverrideField } from '../types';
 import { OptimizationTarget } from '../services/optimizer';
 import FileUpload from './FileUpload';
 import PlayerTable from './PlayerTable';
@@ -9,18 +9,32 @@ import PlayerDetailModal from './PlayerDetailModal';
 import AIAnalysis from './AIAnalysis';
 import StackingRulesEditor from './StackingRulesEditor';
 import { strategyPresets } from '../services/strategyPresets';
+import { CONTEST_RULESETS, getContestRuleset } from '../services/contestRulesets';
+import { DEFAULT_CORRELATION_OBJECTIVE, DEFAULT_UNIQUENESS_RULES } from '../services/solverService';
+import { generateSeed } from '../services/random';
+import { SOLVER_BACKENDS } from '../services/lineupSolver';
 import { UploadData, getPlayerDnaReport } from '../services/dataManager';
 import { generateContent } from '../services/aiModelService';
 import ShowdownCommandCenter from './ShowdownCommandCenter';
 import OptimizationTargetSelector from './OptimizationTargetSelector';
 import SlateStructureAnalysis from './SlateStructureAnalysis';
-import { projectPlayerStats } from '../services/projectionService';
+import { projectPlayerFpts } from '../services/projectionService';
+import { resolveSegmentModel } from '../services/modelSetService';
+import { applyQuantiles, fitQuantileModel } from '../services/quantileService';
+import { modelStore } from '../services/modelStore';
 import ModelSelector from './ModelSelector';
-import { generateLineupsInWorker } from '../services/workerClient';
+import ProjectionSourcesPanel from './ProjectionSourcesPanel';
+import PayoutTableInput from './PayoutTableInput';
+import { generateLineupsInWorker, generatePortfolioInWorker } from '../services/workerClient';
+import { DEFAULT_PORTFOLIO_SETTINGS } from '../services/portfolioOptimizer';
+import { DEFAULT_CONTEST_STRUCTURE, createContestStructure, parsePayoutTable } from '../services/payoutService';
+import { getRulesetScoringSystem } from '../services/scoringSystems';
+import { blendProjections } from '../services/projectionSourceService';
+import { reconcileWithVegas } from '../services/vegasReconciliationService';
+import { applyOverrides, createOverride, getSlateKey, loadOverrides, revertOverride, saveOverrides } from '../services/overrideService';
 import { generateRunManifest } from '../services/runArtifactService';
 import { logger } from '../services/loggingService';
 
-const SALARY_CAP = 60000;
 const INITIAL_STACKING_RULES: StackingRules = {
   stackQbWithReceiver: false,
   forceOpponentBringBack: false,
@@ -32,8 +46,12 @@ const INITIAL_STACKING_RULES: StackingRules = {
 
 interface OptimizerPageProps {
   players: Player[];
-  statWeights: StatWeights;
+  modelSet: ModelSet;
   onPlayersUpdate: (players: Player[]) => void;
+  contestRuleset: ContestRuleset;
+  onContestRulesetChange: (ruleset: ContestRuleset) => void;
+  rosterRules: RosterRules;
+  onRosterRulesChange: (rules: RosterRules) => void;
   onRunBacktest: (settings: OptimizerSettings) => void;
   savedModels: TunedModel[];
   activeModelId: string | null;
@@ -41,12 +59,13 @@ interface OptimizerPageProps {
   backtestReport: BacktestReport | null;
 }
 
-function OptimizerPage({ players, statWeights, onPlayersUpdate, onRunBacktest, savedModels, activeModelId, onApplyModel, backtestReport }: OptimizerPageProps) {
+function OptimizerPage({ players, modelSet, onPlayersUpdate, contestRuleset, onContestRulesetChange, rosterRules, onRosterRulesChange, onRunBacktest, savedModels, activeModelId, onApplyModel, backtestReport }: OptimizerPageProps) {
   const [playerStatuses, setPlayerStatuses] = useState<Record<string, PlayerStatus>>({});
   const [optimalLineups, setOptimalLineups] = useState<Lineup[] | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
-  const [salaryCap, setSalaryCap] = useState<number>(SALARY_CAP);
+  const [infeasibility, setInfeasibility] = useState<InfeasibilityReport | null>(null);
+  const [salaryCap, setSalaryCap] = useState<number>(contestRuleset.salaryCap);
   const [numberOfLineups, setNumberOfLineups] = useState<number>(20);
   const [selectedPlayer, setSelectedPlayer] = useState<Player | null>(null);
   const [aiAnalysis, setAiAnalysis] = useState<string | null>(null);
@@ -57,24 +76,70 @@ function OptimizerPage({ players, statWeights, onPlayersUpdate, onRunBacktest, s
   const [optimizationTarget, setOptimizationTarget] = useState<OptimizationTarget>('mean');
   const [slateNotes, setSlateNotes] = useState<string | null>(null);
   const [recommendedModelId, setRecommendedModelId] = useState<string | null>(null);
+  const [exposureTargets, setExposureTargets] = useState<Record<string, PlayerExposureTarget>>({});
+  const [uniquenessRules, setUniquenessRules] = useState<UniquenessRules>(DEFAULT_UNIQUENESS_RULES);
+  const [correlationObjective, setCorrelationObjective] = useState<CorrelationObjective>(DEFAULT_CORRELATION_OBJECTIVE);
+  const [randomness, setRandomness] = useState<RandomnessSettings>(() => ({ level: 0, seed: generateSeed() }));
+  const [solverBackend, setSolverBackend] = useState<SolverBackendId>('GLPK');
+  const [portfolio, setPortfolio] = useState<PortfolioSettings>(() => ({ ...DEFAULT_PORTFOLIO_SETTINGS, seed: generateSeed() }));
+  const [contestInputs, setContestInputs] = useState<{ style: PayoutStyle, entryFee: number, fieldSize: number, maxEntries: number }>({
+    style: 'GPP',
+    entryFee: DEFAULT_CONTEST_STRUCTURE.entryFee,
+    fieldSize: DEFAULT_CONTEST_STRUCTURE.fieldSize,
+    maxEntries: DEFAULT_CONTEST_STRUCTURE.maxEntries,
+  });
+  const [payoutTableText, setPayoutTableText] = useState<string>('');
+  const [quantileModel, setQuantileModel] = useState<QuantileModel | null>(null);
+  const [projectionSources, setProjectionSources] = useState<ProjectionSource[]>([]);
+  const [modelBlendWeight, setModelBlendWeight] = useState<number>(1);
+  const [overrideHistory, setOverrideHistory] = useState<ProjectionOverride[]>([]);
+
+  // Quantile spreads are refit from the vault's residuals whenever the page mounts.
+  useEffect(() => {
+    let cancelled = false;
+    modelStore.getHistoricalGames().then(games => {
+      if (!cancelled) setQuantileModel(fitQuantileModel(games));
+    });
+    return () => { cancelled = true; };
+  }, []);
+
+  // Overrides are stored per slate, so re-uploading the same slate restores them.
+  const slateKey = useMemo(() => getSlateKey(players), [players]);
+  useEffect(() => {
+    setOverrideHistory(players.length > 0 ? loadOverrides(slateKey) : []);
+  }, [slateKey]);
+
+  // An entered payout table wins; a blank or unreadable one falls back to the curve estimated from the style.
+  const payoutTable = useMemo(() => {
+    if (!payoutTableText.trim()) return { payouts: undefined, error: null };
+    try {
+      return { payouts: parsePayoutTable(payoutTableText), error: null };
+    } catch (e) {
+      return { payouts: undefined, error: e instanceof Error ? e.message : 'Could not read the payout table.' };
+    }
+  }, [payoutTableText]);
 
+  const contestStructure = useMemo(
+    () => createContestStructure(contestInputs.style, contestInputs.entryFee, contestInputs.fieldSize, contestInputs.maxEntries, payoutTable.payouts),
+    [contestInputs, payoutTable]
+  );
+
+  // Kickers and defenses are projected from stat lines, so they score on the contest's site rules.
+  const scoringSystem = getRulesetScoringSystem(contestRuleset);
 
-  const projectedPlayers = useMemo(() => {
+
+  const { players: projectedPlayers, applied: appliedOverrides } = useMemo(() => {
     if (!players || players.length === 0) {
-      return [];
+      return { players: [], applied: [] };
     }
-    return players.map(p => {
-        const { meanFpts, ceilingFpts } = projectPlayerStats(p.advancedStats, statWeights);
-        return {
-          ...p,
-          fpts: meanFpts,
-          scenarioFpts: {
-            ...p.scenarioFpts,
-            ceiling: ceilingFpts,
-          }
-        };
-    });
-  }, [players, statWeights]);
+    // A model set routes each player to their position/archetype segment, falling back to its global weights.
+    const modelPlayers = reconcileWithVegas(players.map(p => {
+        const { weights, intercept, segment } = resolveSegmentModel(modelSet, p.position, p.archetype);
+        return applyQuantiles({ ...p, fpts: projectPlayerFpts(p, weights, scoringSystem, intercept), modelSegment: segment?.key }, quantileModel);
+    }), scoringSystem);
+    // Manual overrides go last, so they win over the model and every blended source.
+    return applyOverrides(blendProjections(modelPlayers, projectionSources, modelBlendWeight), overrideHistory);
+  }, [players, modelSet, scoringSystem, quantileModel, projectionSources, modelBlendWeight, overrideHistory]);
 
 
   const playerRanks = useMemo(() => {
@@ -106,8 +171,22 @@ function OptimizerPage({ players, statWeights, onPlayersUpdate, onRunBacktest, s
     setAiAnalysis(null);
     setRecommendedStrategy(null);
     setRecommendedModelId(null);
+    setExposureTargets({});
+    setProjectionSources([]);
   }, [onPlayersUpdate]);
 
+  // Player IDs and salaries are site-specific, so switching sites also clears the loaded slate.
+  const handleContestRulesetChange = useCallback((id: ContestRulesetId) => {
+    const ruleset = getContestRuleset(id);
+    onContestRulesetChange(ruleset);
+    setSalaryCap(ruleset.salaryCap);
+    onPlayersUpdate([]);
+    setPlayerStatuses({});
+    setOptimalLineups(null);
+    setExposureTargets({});
+    setProjectionSources([]);
+  }, [onPlayersUpdate, onContestRulesetChange]);
+
   const handleStatusChange = useCallback((playerId: string, newStatus: PlayerStatus) => {
     setPlayerStatuses(prev => ({
       ...prev,
@@ -115,10 +194,34 @@ function OptimizerPage({ players, statWeights, onPlayersUpdate, onRunBacktest, s
     }));
   }, []);
   
+  const handleExposureTargetChange = useCallback((playerId: string, target: PlayerExposureTarget | null) => {
+    setExposureTargets(prev => {
+      const next = { ...prev };
+      if (target) {
+        next[playerId] = target;
+      } else {
+        delete next[playerId];
+      }
+      return next;
+    });
+  }, []);
+
   const handlePlayerSelect = useCallback((player: Player) => {
     setSelectedPlayer(player);
   }, []);
 
+  const handleOverride = useCallback((player: Player, field: OverrideField, value: number | string) => {
+    const next = createOverride(overrideHistory, player, field, value);
+    setOverrideHistory(next);
+    saveOverrides(slateKey, next);
+  }, [overrideHistory, slateKey]);
+
+  const handleRevertOverride = useCallback((overrideId: string) => {
+    const next = revertOverride(overrideHistory, overrideId);
+    setOverrideHistory(next);
+    saveOverrides(slateKey, next);
+  }, [overrideHistory, slateKey]);
+
   const handleCloseModal = useCallback(() => {
     setSelectedPlayer(null);
   }, []);
@@ -248,6 +351,7 @@ function OptimizerPage({ players, statWeights, onPlayersUpdate, onRunBacktest, s
     setIsLoading(true);
     setOptimalLineups(null);
     setError(null);
+    setInfeasibility(null);
     
     try {
       const { lockedPlayers, excludedIds, lockedPlayerIds, excludedPlayerIds } = Object.entries(playerStatuses).reduce(
@@ -267,28 +371,48 @@ function OptimizerPage({ players, statWeights, onPlayersUpdate, onRunBacktest, s
         { lockedPlayers: [] as Player[], excludedIds: new Set<string>(), lockedPlayerIds: [] as string[], excludedPlayerIds: [] as string[] }
       );
       
-      const settings: OptimizerSettings = { lockedPlayerIds, excludedPlayerIds, numberOfLineups, salaryCap, stackingRules, optimizationTarget };
-      const manifest = await generateRunManifest(settings, activeModelId, players);
+      const settings: OptimizerSettings = { lockedPlayerIds, excludedPlayerIds, numberOfLineups, salaryCap, stackingRules, optimizationTarget, exposureTargets, uniquenessRules, rosterRules, contestRuleset, correlationObjective, randomness, solverBackend, portfolio, contestStructure };
+      const manifest = await generateRunManifest(settings, activeModelId, players, appliedOverrides);
       logger.info('Run Manifest Generated', { manifest });
 
-      const lineups = await generateLineupsInWorker(
-        projectedPlayers, 
-        lockedPlayers, 
-        // FIX: Pass the Set directly instead of converting to an array, as required by the function signature.
-        excludedIds,
-        numberOfLineups,
-        salaryCap,
-        stackingRules,
-        optimizationTarget
-      );
+      const { lineups, infeasibility: report } = portfolio.enabled
+        ? {
+            lineups: await generatePortfolioInWorker(
+              projectedPlayers,
+              lockedPlayers,
+              excludedIds,
+              numberOfLineups,
+              salaryCap,
+              stackingRules,
+              optimizationTarget,
+              portfolio,
+              contestStructure,
+              { exposureTargets, uniquenessRules, rosterRules, contestRuleset, correlationObjective, randomness, solverBackend }
+            ),
+            infeasibility: null,
+          }
+        : await generateLineupsInWorker(
+            projectedPlayers, 
+            lockedPlayers, 
+            // FIX: Pass the Set directly instead of converting to an array, as required by the function signature.
+            excludedIds,
+            numberOfLineups,
+            salaryCap,
+            stackingRules,
+            optimizationTarget,
+            { exposureTargets, uniquenessRules, rosterRules, contestRuleset, correlationObjective, randomness, solverBackend, contestStructure, simulationSeed: portfolio.seed }
+          );
       
+      setInfeasibility(report);
       if (lineups && lineups.length > 0) {
         setOptimalLineups(lineups);
         if (lineups.length < numberOfLineups) {
-          setError(`Warning: Only able to generate ${lineups.length} of ${numberOfLineups} requested lineups. Try relaxing constraints.`);
+          setError(`Warning: Only able to generate ${lineups.length} of ${numberOfLineups} requested lineups.${report ? '' : ' Try relaxing constraints.'}`);
         }
       } else {
-        setError("Could not generate any valid lineups. Try adjusting locked/excluded players, stacking rules, or salary cap.");
+        setError(report
+          ? "Could not generate any valid lineups."
+          : "Could not generate any valid lineups. Try adjusting locked/excluded players, stacking rules, or salary cap.");
       }
     } catch (e) {
       setError(e instanceof Error ? e.message : "An unknown error occurred during optimization.");
@@ -296,7 +420,7 @@ function OptimizerPage({ players, statWeights, onPlayersUpdate, onRunBacktest, s
     } finally {
       setIsLoading(false);
     }
-  }, [projectedPlayers, playerStatuses, salaryCap, numberOfLineups, stackingRules, optimizationTarget, activeModelId, players]);
+  }, [projectedPlayers, playerStatuses, salaryCap, numberOfLineups, stackingRules, optimizationTarget, exposureTargets, uniquenessRules, rosterRules, contestRuleset, correlationObjective, randomness, solverBackend, portfolio, contestStructure, activeModelId, players, appliedOverrides]);
 
   const handleRunBacktestClick = useCallback(() => {
     const lockedPlayerIds = Object.entries(playerStatuses)
@@ -314,9 +438,18 @@ function OptimizerPage({ players, statWeights, onPlayersUpdate, onRunBacktest, s
         salaryCap,
         stackingRules,
         optimizationTarget,
+        exposureTargets,
+        uniquenessRules,
+        rosterRules,
+        contestRuleset,
+        correlationObjective,
+        randomness,
+        solverBackend,
+        portfolio,
+        contestStructure,
     };
     onRunBacktest(settings);
-  }, [playerStatuses, numberOfLineups, salaryCap, stackingRules, optimizationTarget, onRunBacktest]);
+  }, [playerStatuses, numberOfLineups, salaryCap, stackingRules, optimizationTarget, exposureTargets, uniquenessRules, rosterRules, contestRuleset, correlationObjective, randomness, solverBackend, portfolio, contestStructure, onRunBacktest]);
   
   const hasPlayers = projectedPlayers.length > 0;
 
@@ -325,7 +458,22 @@ function OptimizerPage({ players, statWeights, onPlayersUpdate, onRunBacktest, s
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
         <div className="lg:col-span-2 bg-black border border-gray-700 p-6 rounded-lg shadow-lg">
           <h2 className="text-2xl font-bold mb-4 text-white">1. Load Players & Slate Data</h2>
-          <FileUpload onComplete={onComplete} onError={setError} />
+          <div className="mb-4">
+              <label htmlFor="contest-ruleset" className="block text-sm font-medium text-gray-400 mb-2">Contest Type</label>
+              <select
+                  id="contest-ruleset"
+                  value={contestRuleset.id}
+                  onChange={(e) => handleContestRulesetChange(e.target.value as ContestRulesetId)}
+                  className="w-full bg-gray-800 border border-gray-600 rounded-md px-3 py-2 text-white focus:ring-2 focus:ring-gray-500 focus:outline-none"
+              >
+                  {CONTEST_RULESETS.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                  ${contestRuleset.salaryCap.toLocaleString()} cap, {contestRuleset.rosterSize} roster spots, {contestRuleset.mvpLabel} scores {contestRuleset.mvpMultiplier}x
+                  {contestRuleset.mvpSalaryMultiplier !== 1 && ` and costs ${contestRuleset.mvpSalaryMultiplier}x salary`}.
+              </p>
+          </div>
+          <FileUpload onComplete={onComplete} onError={setError} contestRuleset={contestRuleset} />
           
           {aiValidationReport && (
               <div className="mt-4 p-3 bg-blue-500/10 text-blue-300 border border-blue-500 rounded">
@@ -347,6 +495,17 @@ function OptimizerPage({ players, statWeights, onPlayersUpdate, onRunBacktest, s
              />
            }
 
+           {hasPlayers &&
+             <ProjectionSourcesPanel
+                players={players}
+                sources={projectionSources}
+                modelWeight={modelBlendWeight}
+                onSourcesChange={setProjectionSources}
+                onModelWeightChange={setModelBlendWeight}
+                onError={setError}
+             />
+           }
+
           <AIAnalysis 
               hasPlayers={hasPlayers}
               analysis={aiAnalysis}
@@ -354,7 +513,19 @@ function OptimizerPage({ players, statWeights, onPlayersUpdate, onRunBacktest, s
               onAnalyze={handleAnalyzeSlate}
           />
 
-          {error && <div className="mt-4 p-3 bg-red-500/20 text-red-300 border border-red-500 rounded">{error}</div>}
+          {error && (
+            <div className="mt-4 p-3 bg-red-500/20 text-red-300 border border-red-500 rounded">
+              {error}
+              {infeasibility && (
+                <div className="mt-2 text-sm">
+                  <p className="font-semibold">Lineup #{infeasibility.lineupIndex + 1} is infeasible because these constraints conflict:</p>
+                  <ul className="list-disc list-inside mt-1 space-y-1">
+                    {infeasibility.reasons.map(reason => <li key={reason.constraint}>{reason.message}</li>)}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
           
           {hasPlayers && (
             <div className="mt-6">
@@ -376,6 +547,34 @@ function OptimizerPage({ players, statWeights, onPlayersUpdate, onRunBacktest, s
               selected={optimizationTarget}
               onSelect={setOptimizationTarget}
           />
+          <div className="mt-4 space-y-2">
+              <label className="flex items-center space-x-3 cursor-pointer">
+                  <input
+                      type="checkbox"
+                      checked={correlationObjective.enabled}
+                      onChange={(e) => setCorrelationObjective(prev => ({ ...prev, enabled: e.target.checked }))}
+                      className="h-5 w-5 rounded bg-gray-700 border-gray-600 text-red-600 focus:ring-red-500"
+                  />
+                  <span className="text-sm text-gray-300">Correlation-aware objective</span>
+              </label>
+              <div className={correlationObjective.enabled ? '' : 'opacity-50'}>
+                  <label htmlFor="correlation-weight" className="block text-sm font-medium text-gray-400 mb-2">
+                      Correlation Weight: <span className="font-bold text-white">{correlationObjective.weight.toFixed(2)}</span>
+                  </label>
+                  <input
+                      type="range"
+                      id="correlation-weight"
+                      min="0"
+                      max="1"
+                      step="0.05"
+                      value={correlationObjective.weight}
+                      disabled={!correlationObjective.enabled}
+                      onChange={(e) => setCorrelationObjective(prev => ({ ...prev, weight: Number(e.target.value) }))}
+                      className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:cursor-not-allowed"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">Rewards correlated pairs (QB–pass catcher, MVP–teammate) and penalizes negative ones (RB vs. opposing DEF).</p>
+              </div>
+          </div>
            <div className="my-4">
               <label htmlFor="salary-cap" className="block text-sm font-medium text-gray-400 mb-2">Salary Cap</label>
               <input
@@ -391,16 +590,206 @@ function OptimizerPage({ players, statWeights, onPlayersUpdate, onRunBacktest, s
               <input
                   type="number"
                   id="num-lineups"
+                  max={contestStructure.maxEntries}
                   value={numberOfLineups}
-                  onChange={(e) => setNumberOfLineups(Math.max(1, Number(e.target.value)))}
+                  onChange={(e) => setNumberOfLineups(Math.max(1, Math.min(contestStructure.maxEntries, Number(e.target.value))))}
+                  className="w-full bg-gray-800 border border-gray-600 rounded-md px-3 py-2 text-white focus:ring-2 focus:ring-gray-500 focus:outline-none"
+              />
+          </div>
+          <div className="mb-6 p-3 border border-gray-700 rounded-md space-y-2">
+              <label htmlFor="payout-style" className="block text-sm font-medium text-gray-400">Contest</label>
+              <select
+                  id="payout-style"
+                  value={contestInputs.style}
+                  onChange={(e) => setContestInputs(prev => ({ ...prev, style: e.target.value as PayoutStyle }))}
+                  className="w-full bg-gray-800 border border-gray-600 rounded-md px-3 py-2 text-sm text-white focus:ring-2 focus:ring-gray-500 focus:outline-none"
+              >
+                  <option value="GPP">GPP (top-heavy, top 20% paid)</option>
+                  <option value="DOUBLE_UP">Double Up</option>
+              </select>
+              <div className="grid grid-cols-3 gap-2">
+                  <label className="text-xs text-gray-400">
+                      Entry Fee
+                      <input
+                          type="number"
+                          min="0.25"
+                          step="0.25"
+                          value={contestInputs.entryFee}
+                          onChange={(e) => setContestInputs(prev => ({ ...prev, entryFee: Math.max(0.25, Number(e.target.value)) }))}
+                          className="mt-1 w-full bg-gray-800 border border-gray-600 rounded-md px-2 py-1 text-white focus:ring-2 focus:ring-gray-500 focus:outline-none"
+                      />
+                  </label>
+                  <label className="text-xs text-gray-400">
+                      Field Size
+                      <input
+                          type="number"
+                          min="2"
+                          step="100"
+                          value={contestInputs.fieldSize}
+                          onChange={(e) => setContestInputs(prev => ({ ...prev, fieldSize: Math.max(2, Math.floor(Number(e.target.value))) }))}
+                          className="mt-1 w-full bg-gray-800 border border-gray-600 rounded-md px-2 py-1 text-white focus:ring-2 focus:ring-gray-500 focus:outline-none"
+                      />
+                  </label>
+                  <label className="text-xs text-gray-400">
+                      Max Entries
+                      <input
+                          type="number"
+                          min="1"
+                          value={contestInputs.maxEntries}
+                          onChange={(e) => {
+                              const maxEntries = Math.max(1, Math.floor(Number(e.target.value)));
+                              setContestInputs(prev => ({ ...prev, maxEntries }));
+                              setNumberOfLineups(prev => Math.min(prev, maxEntries));
+                          }}
+                          className="mt-1 w-full bg-gray-800 border border-gray-600 rounded-md px-2 py-1 text-white focus:ring-2 focus:ring-gray-500 focus:outline-none"
+                      />
+                  </label>
+              </div>
+              <PayoutTableInput text={payoutTableText} error={payoutTable.error} structure={contestStructure} onTextChange={setPayoutTableText} />
+          </div>
+          <div className="mb-6">
+              <label htmlFor="randomness" className="block text-sm font-medium text-gray-400 mb-2">
+                  Randomness: <span className="font-bold text-white">{Math.round(randomness.level * 100)}%</span>
+              </label>
+              <input
+                  type="range"
+                  id="randomness"
+                  min="0"
+                  max="1"
+                  step="0.05"
+                  value={randomness.level}
+                  onChange={(e) => setRandomness(prev => ({ ...prev, level: Number(e.target.value) }))}
+                  className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+              />
+              <div className={`flex items-center gap-2 mt-2 ${randomness.level > 0 ? '' : 'opacity-50'}`}>
+                  <label htmlFor="random-seed" className="text-xs text-gray-400">Seed</label>
+                  <input
+                      type="number"
+                      id="random-seed"
+                      value={randomness.seed}
+                      disabled={randomness.level === 0}
+                      onChange={(e) => setRandomness(prev => ({ ...prev, seed: Math.floor(Number(e.target.value)) || 0 }))}
+                      className="flex-1 bg-gray-800 border border-gray-600 rounded-md px-2 py-1 text-xs text-white font-mono focus:ring-2 focus:ring-gray-500 focus:outline-none"
+                  />
+                  <button
+                      onClick={() => setRandomness(prev => ({ ...prev, seed: generateSeed() }))}
+                      disabled={randomness.level === 0}
+                      className="text-xs px-2 py-1 rounded-md bg-gray-800 hover:bg-gray-700 border border-gray-600 text-white disabled:cursor-not-allowed"
+                  >
+                      New Seed
+                  </button>
+              </div>
+              <p className="text-xs text-gray-500 mt-1">Each lineup is solved on projections drawn from the floor–ceiling range. Reuse a seed to reproduce a build.</p>
+          </div>
+          <div className="mb-6">
+              <label htmlFor="solver-backend" className="block text-sm font-medium text-gray-400 mb-2">Solver Engine</label>
+              <select
+                  id="solver-backend"
+                  value={solverBackend}
+                  onChange={(e) => setSolverBackend(e.target.value as SolverBackendId)}
+                  className="w-full bg-gray-800 border border-gray-600 rounded-md px-3 py-2 text-white focus:ring-2 focus:ring-gray-500 focus:outline-none"
+              >
+                  {SOLVER_BACKENDS.map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">The native engine searches every legal lineup directly and is usually much faster on Showdown slates; both honour the same rules.</p>
+          </div>
+          <div className="mb-6 space-y-2">
+              <label className="flex items-center space-x-3 cursor-pointer">
+                  <input
+                      type="checkbox"
+                      checked={portfolio.enabled}
+                      onChange={(e) => setPortfolio(prev => ({ ...prev, enabled: e.target.checked }))}
+                      className="h-5 w-5 rounded bg-gray-700 border-gray-600 text-red-600 focus:ring-red-500"
+                  />
+                  <span className="text-sm text-gray-300">Portfolio mode</span>
+              </label>
+              <div className={`space-y-2 ${portfolio.enabled ? '' : 'opacity-50'}`}>
+                  <select
+                      value={portfolio.objective}
+                      disabled={!portfolio.enabled}
+                      onChange={(e) => setPortfolio(prev => ({ ...prev, objective: e.target.value as PortfolioObjective }))}
+                      className="w-full bg-gray-800 border border-gray-600 rounded-md px-3 py-2 text-sm text-white focus:ring-2 focus:ring-gray-500 focus:outline-none disabled:cursor-not-allowed"
+                  >
+                      <option value="EXPECTED_PAYOUT">Maximize expected payout</option>
+                      <option value="TOP_1_PERCENT">Maximize chance of a top-1% finish</option>
+                  </select>
+                  <div className="grid grid-cols-2 gap-2">
+                      <label className="text-xs text-gray-400">
+                          Candidate Pool
+                          <input
+                              type="number"
+                              min="1"
+                              value={portfolio.candidatePoolSize}
+                              disabled={!portfolio.enabled}
+                              onChange={(e) => setPortfolio(prev => ({ ...prev, candidatePoolSize: Math.max(1, Math.floor(Number(e.target.value))) }))}
+                              className="mt-1 w-full bg-gray-800 border border-gray-600 rounded-md px-2 py-1 text-white focus:ring-2 focus:ring-gray-500 focus:outline-none"
+                          />
+                      </label>
+                      <label className="text-xs text-gray-400">
+                          Simulations
+                          <input
+                              type="number"
+                              min="100"
+                              step="100"
+                              value={portfolio.simulations}
+                              disabled={!portfolio.enabled}
+                              onChange={(e) => setPortfolio(prev => ({ ...prev, simulations: Math.max(100, Math.floor(Number(e.target.value))) }))}
+                              className="mt-1 w-full bg-gray-800 border border-gray-600 rounded-md px-2 py-1 text-white focus:ring-2 focus:ring-gray-500 focus:outline-none"
+                          />
+                      </label>
+                  </div>
+              </div>
+              <p className="text-xs text-gray-500">Builds a large candidate pool, simulates correlated game outcomes and an ownership-driven opponent field for the contest below, then picks the set of lineups that performs best together rather than one lineup at a time.</p>
+          </div>
+          <div className="mb-6">
+              <label htmlFor="min-unique" className="block text-sm font-medium text-gray-400 mb-2">Min Unique Players vs. Prior Lineups</label>
+              <input
+                  type="number"
+                  id="min-unique"
+                  min="1"
+                  max={contestRuleset.rosterSize}
+                  value={uniquenessRules.minUniquePlayers}
+                  onChange={(e) => setUniquenessRules(prev => ({ ...prev, minUniquePlayers: Math.max(1, Math.min(contestRuleset.rosterSize, Number(e.target.value))) }))}
                   className="w-full bg-gray-800 border border-gray-600 rounded-md px-3 py-2 text-white focus:ring-2 focus:ring-gray-500 focus:outline-none"
               />
+              <label className="flex items-center space-x-3 cursor-pointer mt-2">
+                  <input
+                      type="checkbox"
+                      checked={uniquenessRules.mvpSwapCountsAsUnique}
+                      onChange={(e) => setUniquenessRules(prev => ({ ...prev, mvpSwapCountsAsUnique: e.target.checked }))}
+                      className="h-5 w-5 rounded bg-gray-700 border-gray-600 text-red-600 focus:ring-red-500"
+                  />
+                  <span className="text-sm text-gray-300">Count an MVP swap as a unique player</span>
+              </label>
+          </div>
+          <div className="mb-6 space-y-2">
+              <h3 className="text-sm font-medium text-gray-400">Roster Positions</h3>
+              <label className="flex items-center space-x-3 cursor-pointer">
+                  <input
+                      type="checkbox"
+                      checked={rosterRules.allowKicker}
+                      onChange={(e) => onRosterRulesChange({ ...rosterRules, allowKicker: e.target.checked })}
+                      className="h-5 w-5 rounded bg-gray-700 border-gray-600 text-red-600 focus:ring-red-500"
+                  />
+                  <span className="text-sm text-gray-300">Allow kickers (K)</span>
+              </label>
+              <label className="flex items-center space-x-3 cursor-pointer">
+                  <input
+                      type="checkbox"
+                      checked={rosterRules.allowDefense}
+                      onChange={(e) => onRosterRulesChange({ ...rosterRules, allowDefense: e.target.checked })}
+                      className="h-5 w-5 rounded bg-gray-700 border-gray-600 text-red-600 focus:ring-red-500"
+                  />
+                  <span className="text-sm text-gray-300">Allow defenses (DEF)</span>
+              </label>
+              <p className="text-xs text-gray-500">Every lineup includes both teams with at most {Math.min(contestRuleset.maxPlayersPerTeam, contestRuleset.rosterSize - 1)} players from one team.</p>
           </div>
 
           <StackingRulesEditor 
               rules={stackingRules} 
               onRulesChange={setStackingRules}
               recommendedStrategy={recommendedStrategy} 
+              players={projectedPlayers}
           />
           
           <div className="mt-auto pt-6 space-y-4">
@@ -427,16 +816,21 @@ function OptimizerPage({ players, statWeights, onPlayersUpdate, onRunBacktest, s
             </button>
           </div>
           <div className="mt-6 flex-grow">
-            <ResultsHub lineups={optimalLineups} players={projectedPlayers} backtestReport={backtestReport} />
+            <ResultsHub lineups={optimalLineups} players={projectedPlayers} backtestReport={backtestReport} exposureTargets={exposureTargets} contestRuleset={contestRuleset} />
           </div>
         </div>
       </div>
       <PlayerDetailModal 
-        player={selectedPlayer}
+        player={selectedPlayer && (projectedPlayers.find(p => p.id === selectedPlayer.id) ?? selectedPlayer)}
         playerRank={selectedPlayer ? playerRanks.get(selectedPlayer.id) : undefined}
         allPlayers={projectedPlayers}
         onClose={handleCloseModal}
         onGenerateDnaReport={handleGenerateDnaReport}
+        exposureTarget={selectedPlayer ? exposureTargets[selectedPlayer.id] : undefined}
+        onExposureTargetChange={handleExposureTargetChange}
+        overrides={selectedPlayer ? overrideHistory.filter(o => o.playerId === selectedPlayer.id) : []}
+        onOverride={handleOverride}
+        onRevertOverride={handleRevertOverride}
       />
     </>
   );
@@ -0,0 +1,58 @@
+import React, { useCallback, useRef } from 'react';
+import UploadIcon from './icons/UploadIcon';
+import { ContestStructure } from '../types';
+
+interface PayoutTableInputProps {
+  text: string;
+  error: string | null;
+  structure: ContestStructure;
+  onTextChange: (text: string) => void;
+}
+
+// The contest's real payout table, pasted or imported from CSV. Left empty, payouts are estimated from the style.
+const PayoutTableInput: React.FC<PayoutTableInputProps> = ({ text, error, structure, onTextChange }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      if (file) onTextChange(await file.text());
+      if (fileInputRef.current) {
+          fileInputRef.current.value = "";
+      }
+  }, [onTextChange]);
+
+  const prizePool = structure.payouts.reduce((sum, prize) => sum + prize, 0);
+
+  return (
+    <div className="space-y-1">
+        <div className="flex justify-between items-center">
+            <label htmlFor="payout-table" className="text-xs text-gray-400">Payout Table</label>
+            <div className="flex gap-2">
+                <input type="file" ref={fileInputRef} onChange={handleFileChange} accept=".csv,.txt" className="hidden" />
+                <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className="flex items-center gap-1 text-xs text-gray-300 hover:text-white"
+                >
+                    <UploadIcon /> Import CSV
+                </button>
+                {text && <button onClick={() => onTextChange('')} className="text-xs text-gray-400 hover:text-white">Clear</button>}
+            </div>
+        </div>
+        <textarea
+            id="payout-table"
+            rows={3}
+            value={text}
+            onChange={(e) => onTextChange(e.target.value)}
+            placeholder={"1, 1000\n2-5, 250\n6-50, 20"}
+            className="w-full bg-gray-800 border border-gray-600 rounded-md px-2 py-1 text-xs font-mono text-white focus:ring-2 focus:ring-gray-500 focus:outline-none"
+        />
+        {error && <p className="text-xs text-red-400">{error} Using the estimated payouts instead.</p>}
+        <p className="text-xs text-gray-500">
+            {structure.payoutSource === 'TABLE' ? 'From the payout table: ' : 'Estimated from the payout style (no table entered): '}
+            {structure.payouts.length.toLocaleString()} places paid, ${structure.payouts[0]?.toLocaleString() ?? 0} to first, ${prizePool.toLocaleString(undefined, { maximumFractionDigits: 2 })} in prizes. Lineup EV is priced in dollars against a simulated field of this size.
+        </p>
+    </div>
+  );
+};
+
+export default PayoutTableInput;
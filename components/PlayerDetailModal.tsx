@@ -1,5 +1,6 @@
 import React, { useMemo, useState } from 'react';
-import { Player } from '../types';
+import { Player, PlayerExposureTarget, ExposureRange, PlayerQuantiles, ProjectionBlend, ProjectionOverride, OverrideField, VegasAdjustment } from '../types';
+import { QUANTILE_LEVELS } from '../services/quantileService';
 import XIcon from './icons/XIcon';
 import DnaIcon from './icons/DnaIcon';
 import SpinnerIcon from './icons/SpinnerIcon';
@@ -10,6 +11,11 @@ interface PlayerDetailModalProps {
   allPlayers: Player[];
   onClose: () => void;
   onGenerateDnaReport: (playerId: string) => Promise<void>;
+  exposureTarget?: PlayerExposureTarget;
+  onExposureTargetChange: (playerId: string, target: PlayerExposureTarget | null) => void;
+  overrides: ProjectionOverride[]; // This player's override history, newest last
+  onOverride: (player: Player, field: OverrideField, value: number | string) => void;
+  onRevertOverride: (overrideId: string) => void;
 }
 
 const StatDisplay: React.FC<{ label: string; value: string | number; color?: string }> = ({ label, value, color = 'text-green-400' }) => (
@@ -26,6 +32,212 @@ const MetricDisplay: React.FC<{ label: string; value: string | number | React.Re
     </div>
 );
 
+// Box-and-whisker strip: P10–P90 whiskers, P25–P75 box, P50 tick, with P99 marked beyond.
+const QuantileStrip: React.FC<{ quantiles: PlayerQuantiles, mean: number }> = ({ quantiles, mean }) => {
+    const max = Math.max(quantiles.p99, mean, 1);
+    const at = (value: number) => `${(value / max) * 100}%`;
+    return (
+        <div className="pt-2">
+            <div className="relative h-6">
+                <div className="absolute top-1/2 h-px bg-gray-500" style={{ left: at(quantiles.p10), width: `calc(${at(quantiles.p90)} - ${at(quantiles.p10)})` }} />
+                <div className="absolute top-1 bottom-1 bg-cyan-700 rounded-sm" style={{ left: at(quantiles.p25), width: `calc(${at(quantiles.p75)} - ${at(quantiles.p25)})` }} />
+                <div className="absolute top-0 bottom-0 w-0.5 bg-white" style={{ left: at(quantiles.p50) }} title="P50" />
+                <div className="absolute top-0 bottom-0 w-0.5 bg-yellow-400" style={{ left: at(mean) }} title="Mean" />
+                <div className="absolute top-1.5 bottom-1.5 w-0.5 bg-cyan-400" style={{ left: at(quantiles.p99) }} title="P99" />
+            </div>
+            <div className="grid grid-cols-6 gap-1 mt-2 text-center">
+                {QUANTILE_LEVELS.map(({ level }) => (
+                    <div key={level}>
+                        <p className="text-xs text-gray-500 uppercase">{level}</p>
+                        <p className="text-sm font-mono text-white">{quantiles[level].toFixed(1)}</p>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+// Each input to a blended projection next to the blended result.
+const ProjectionBlendTable: React.FC<{ blend: ProjectionBlend, player: Player }> = ({ blend, player }) => {
+    const rows = [
+        { name: 'Model', weight: blend.model.weight, mean: blend.model.mean, ceiling: blend.model.ceiling as number | undefined, ownership: undefined as number | undefined },
+        ...blend.sources,
+    ];
+    return (
+        <table className="w-full text-sm">
+            <thead className="text-xs text-gray-500 uppercase">
+                <tr>
+                    <th className="text-left py-1">Source</th>
+                    <th className="text-right py-1">Weight</th>
+                    <th className="text-right py-1">Mean</th>
+                    <th className="text-right py-1">Ceiling</th>
+                    <th className="text-right py-1">Own%</th>
+                </tr>
+            </thead>
+            <tbody className="font-mono text-white">
+                {rows.map(row => (
+                    <tr key={row.name}>
+                        <td className="text-left py-1 font-sans text-gray-300 truncate max-w-[8rem]" title={row.name}>{row.name}</td>
+                        <td className="text-right py-1">{row.weight}</td>
+                        <td className="text-right py-1">{row.mean.toFixed(2)}</td>
+                        <td className="text-right py-1">{row.ceiling != null ? row.ceiling.toFixed(2) : '–'}</td>
+                        <td className="text-right py-1">{row.ownership != null ? row.ownership.toFixed(1) : '–'}</td>
+                    </tr>
+                ))}
+                <tr className="border-t border-gray-700 font-bold">
+                    <td className="text-left py-1 font-sans text-white">Blended</td>
+                    <td />
+                    <td className="text-right py-1">{player.fpts.toFixed(2)}</td>
+                    <td className="text-right py-1 text-cyan-400">{player.scenarioFpts.ceiling.toFixed(2)}</td>
+                    <td className="text-right py-1">{player.flexOwnership.toFixed(1)}</td>
+                </tr>
+            </tbody>
+        </table>
+    );
+};
+
+const formatScale = (scale: number) => `${scale >= 1 ? '+' : ''}${((scale - 1) * 100).toFixed(0)}%`;
+
+// The market reconciliation behind a player's mean: what the team's projections implied and how they were scaled.
+// Blended sources and overrides apply after reconciliation, so the reconciled mean is rebuilt from the adjustment.
+const VegasAdjustmentDisplay: React.FC<{ adjustment: VegasAdjustment }> = ({ adjustment }) => (
+    <>
+        <MetricDisplay label="Implied Team Total" value={adjustment.impliedTeamTotal.toFixed(1)} />
+        <MetricDisplay label="Stat-Implied Team Total" value={adjustment.statImpliedTeamTotal.toFixed(1)} />
+        <MetricDisplay label="Pass / Run Split" value={`${(adjustment.passShare * 100).toFixed(0)}% / ${((1 - adjustment.passShare) * 100).toFixed(0)}%`} />
+        <MetricDisplay label="Pass Yds / TDs" value={`${formatScale(adjustment.passYardsScale)} / ${formatScale(adjustment.passTdScale)}`} />
+        <MetricDisplay label="Rush Yds / TDs" value={`${formatScale(adjustment.rushYardsScale)} / ${formatScale(adjustment.rushTdScale)}`} />
+        <MetricDisplay label="Mean FPTS" value={
+            <span>{adjustment.originalFpts.toFixed(2)} → <span className={adjustment.fptsScale >= 1 ? 'text-green-400' : 'text-red-400'}>{(adjustment.originalFpts * adjustment.fptsScale).toFixed(2)}</span></span>
+        } />
+    </>
+);
+
+const OVERRIDE_FIELDS: { field: OverrideField; label: string }[] = [
+    { field: 'fpts', label: 'Mean' },
+    { field: 'ceiling', label: 'Ceiling' },
+    { field: 'flexOwnership', label: 'FLEX %' },
+    { field: 'mvpOwnership', label: 'MVP %' },
+    { field: 'injuryStatus', label: 'Injury' },
+];
+
+const INJURY_STATUSES = ['Active', 'Questionable', 'Doubtful', 'Out'];
+
+const formatOverrideValue = (value: number | string) => typeof value === 'number' ? value.toFixed(2) : value;
+
+// One input per overridable field, and the player's override history with a revert button on active entries.
+const OverrideEditor: React.FC<{ player: Player; overrides: ProjectionOverride[]; onOverride: PlayerDetailModalProps['onOverride']; onRevert: (overrideId: string) => void }> = ({ player, overrides, onOverride, onRevert }) => {
+    const [drafts, setDrafts] = useState<Partial<Record<OverrideField, string>>>({});
+    const currentValues: Record<OverrideField, number | string> = {
+        fpts: player.fpts,
+        ceiling: player.scenarioFpts.ceiling,
+        flexOwnership: player.flexOwnership,
+        mvpOwnership: player.mvpOwnership,
+        injuryStatus: player.injuryStatus,
+    };
+
+    const submit = (field: OverrideField) => {
+        const draft = drafts[field];
+        if (draft == null || draft === '') return;
+        if (field === 'injuryStatus') {
+            onOverride(player, field, draft);
+        } else {
+            const value = parseFloat(draft);
+            if (isNaN(value) || value < 0) return;
+            onOverride(player, field, value);
+        }
+        setDrafts(prev => ({ ...prev, [field]: undefined }));
+    };
+
+    return (
+        <div>
+            {OVERRIDE_FIELDS.map(({ field, label }) => (
+                <div key={field} className="flex items-center justify-between text-sm py-1">
+                    <span className={player.overriddenFields?.includes(field) ? 'text-yellow-300' : 'text-gray-400'}>{label}:</span>
+                    <div className="flex items-center gap-2">
+                        {field === 'injuryStatus' ? (
+                            <select
+                                aria-label={`${label} override`}
+                                value={drafts[field] ?? String(currentValues[field])}
+                                onChange={(e) => setDrafts(prev => ({ ...prev, [field]: e.target.value }))}
+                                className="w-28 bg-gray-900 border border-gray-600 rounded-md py-1 text-white focus:ring-2 focus:ring-gray-500 focus:outline-none"
+                            >
+                                {[...new Set([...INJURY_STATUSES, player.injuryStatus])].map(s => <option key={s} value={s}>{s}</option>)}
+                            </select>
+                        ) : (
+                            <input
+                                type="number"
+                                aria-label={`${label} override`}
+                                min="0"
+                                step="0.1"
+                                placeholder={formatOverrideValue(currentValues[field])}
+                                value={drafts[field] ?? ''}
+                                onChange={(e) => setDrafts(prev => ({ ...prev, [field]: e.target.value }))}
+                                onKeyDown={(e) => { if (e.key === 'Enter') submit(field); }}
+                                className="w-20 bg-gray-900 border border-gray-600 rounded-md text-center py-1 text-white focus:ring-2 focus:ring-gray-500 focus:outline-none"
+                            />
+                        )}
+                        <button onClick={() => submit(field)} className="text-xs text-gray-400 hover:text-white">Set</button>
+                    </div>
+                </div>
+            ))}
+            {overrides.length > 0 && (
+                <ul className="mt-2 pt-2 border-t border-gray-700 space-y-1 text-xs">
+                    {[...overrides].reverse().map(o => (
+                        <li key={o.id} className={`flex justify-between items-center ${o.revertedAt ? 'text-gray-500' : 'text-white'}`}>
+                            <span title={o.revertedAt ? `Reverted ${new Date(o.revertedAt).toLocaleString()}` : 'Active'}>
+                                {OVERRIDE_FIELDS.find(f => f.field === o.field)?.label} → {formatOverrideValue(o.value)}
+                                <span className="text-gray-500"> · {new Date(o.createdAt).toLocaleString()}</span>
+                            </span>
+                            {!o.revertedAt && (
+                                <button onClick={() => onRevert(o.id)} className="text-gray-400 hover:text-white">Revert</button>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+const DEFAULT_EXPOSURE_RANGE: ExposureRange = { min: 0, max: 100 };
+
+const ExposureRangeInput: React.FC<{ label: string; slot: string; range: ExposureRange; onChange: (range: ExposureRange) => void }> = ({ label, slot, range, onChange }) => {
+    const handleChange = (key: keyof ExposureRange, value: string) => {
+        const numValue = parseFloat(value);
+        onChange({ ...range, [key]: isNaN(numValue) ? 0 : Math.max(0, Math.min(100, numValue)) });
+    };
+    return (
+        <div className="flex items-center justify-between text-sm py-1">
+            <span className="text-gray-400">{label}:</span>
+            <div className="flex items-center gap-2">
+                <input
+                    type="number"
+                    aria-label={`${label} minimum exposure`}
+                    id={`exposure-${slot}-min`}
+                    min="0"
+                    max="100"
+                    value={range.min}
+                    onChange={(e) => handleChange('min', e.target.value)}
+                    className="w-16 bg-gray-900 border border-gray-600 rounded-md text-center py-1 text-white focus:ring-2 focus:ring-gray-500 focus:outline-none"
+                />
+                <span className="text-gray-500">–</span>
+                <input
+                    type="number"
+                    aria-label={`${label} maximum exposure`}
+                    id={`exposure-${slot}-max`}
+                    min="0"
+                    max="100"
+                    value={range.max}
+                    onChange={(e) => handleChange('max', e.target.value)}
+                    className="w-16 bg-gray-900 border border-gray-600 rounded-md text-center py-1 text-white focus:ring-2 focus:ring-gray-500 focus:outline-none"
+                />
+                <span className="text-gray-500">%</span>
+            </div>
+        </div>
+    );
+};
+
 const getCorrelationColor = (value: number): string => {
     if (value > 0.4) return 'bg-green-500/30 text-green-300 border border-green-500'; // Strong positive
     if (value > 0.15) return 'bg-green-500/10 text-green-400 border border-green-500/40'; // Positive
@@ -35,7 +247,7 @@ const getCorrelationColor = (value: number): string => {
 };
 
 
-const PlayerDetailModal: React.FC<PlayerDetailModalProps> = ({ player, playerRank, allPlayers, onClose, onGenerateDnaReport }) => {
+const PlayerDetailModal: React.FC<PlayerDetailModalProps> = ({ player, playerRank, allPlayers, onClose, onGenerateDnaReport, exposureTarget, onExposureTargetChange, overrides, onOverride, onRevertOverride }) => {
   const [isDnaLoading, setIsDnaLoading] = useState(false);
 
   const { sortedCorrelations, hasCorrelations } = useMemo(() => {
@@ -59,6 +271,10 @@ const PlayerDetailModal: React.FC<PlayerDetailModalProps> = ({ player, playerRan
   
   if (!player) return null;
 
+  const handleExposureRangeChange = (slot: keyof PlayerExposureTarget, range: ExposureRange) => {
+    onExposureTargetChange(player.id, { ...exposureTarget, [slot]: range });
+  };
+
   const handleGenerateReportClick = async () => {
     if (!player) return;
     setIsDnaLoading(true);
@@ -100,6 +316,8 @@ const PlayerDetailModal: React.FC<PlayerDetailModalProps> = ({ player, playerRan
                     <h3 className="font-bold text-lg mb-2 text-white">Projections & Usage</h3>
                     <MetricDisplay label="Ceiling Projection" value={<span className="font-bold text-cyan-400">{player.scenarioFpts.ceiling.toFixed(2)}</span>} />
                     <MetricDisplay label="Floor Projection" value={player.scenarioFpts.floor.toFixed(2)} />
+                    <MetricDisplay label="Projection Model" value={player.position === 'K' || player.position === 'D' ? 'Stat line' : player.modelSegment ? `${player.modelSegment.replace('|', ' · ')} segment` : 'Global'} />
+                    {player.quantiles && <QuantileStrip quantiles={player.quantiles} mean={player.fpts} />}
                     <MetricDisplay label="FLEX Ownership" value={`${player.flexOwnership.toFixed(1)}%`} />
                     <MetricDisplay label="MVP Ownership" value={`${player.mvpOwnership.toFixed(1)}%`} />
                     <MetricDisplay label="Leverage Score" value={<span className="font-bold text-orange-400">{player.leverage.toFixed(0)}</span>} />
@@ -108,6 +326,32 @@ const PlayerDetailModal: React.FC<PlayerDetailModalProps> = ({ player, playerRan
                         <p className="text-sm text-gray-400">Sentiment Summary:</p>
                         <p className="text-sm text-white italic">"{player.sentimentSummary}"</p>
                     </div>
+                </div>
+                {player.vegasAdjustment && (
+                    <div className="bg-gray-800 p-4 rounded-lg">
+                        <h3 className="font-bold text-lg mb-2 text-white">Vegas Reconciliation</h3>
+                        <VegasAdjustmentDisplay adjustment={player.vegasAdjustment} />
+                    </div>
+                )}
+                {player.projectionBlend && (
+                    <div className="bg-gray-800 p-4 rounded-lg">
+                        <h3 className="font-bold text-lg mb-2 text-white">Projection Sources</h3>
+                        <ProjectionBlendTable blend={player.projectionBlend} player={player} />
+                    </div>
+                )}
+                <div className="bg-gray-800 p-4 rounded-lg">
+                    <h3 className="font-bold text-lg mb-2 text-white">Manual Overrides</h3>
+                    <OverrideEditor key={player.id} player={player} overrides={overrides} onOverride={onOverride} onRevert={onRevertOverride} />
+                </div>
+                <div className="bg-gray-800 p-4 rounded-lg">
+                    <div className="flex justify-between items-center mb-2">
+                        <h3 className="font-bold text-lg text-white">Exposure Targets</h3>
+                        {exposureTarget && (
+                            <button onClick={() => onExposureTargetChange(player.id, null)} className="text-xs text-gray-400 hover:text-white">Clear</button>
+                        )}
+                    </div>
+                    <ExposureRangeInput label="MVP" slot="mvp" range={exposureTarget?.mvp ?? DEFAULT_EXPOSURE_RANGE} onChange={(range) => handleExposureRangeChange('mvp', range)} />
+                    <ExposureRangeInput label="FLEX" slot="flex" range={exposureTarget?.flex ?? DEFAULT_EXPOSURE_RANGE} onChange={(range) => handleExposureRangeChange('flex', range)} />
                 </div>
                  <div className="bg-gray-800 p-4 rounded-lg">
                     <h3 className="font-bold text-lg mb-2 text-white">Advanced Metrics</h3>
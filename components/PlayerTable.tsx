@@ -1,5 +1,5 @@
 import React, { useState, useMemo, useRef } from 'react';
-import { Player, PlayerStatus } from '../types';
+import { Player, PlayerStatus, ProjectionBlend, OverrideField } from '../types';
 import LockIcon from './icons/LockIcon';
 import UnlockIcon from './icons/UnlockIcon';
 import ExcludeIcon from './icons/ExcludeIcon';
@@ -40,6 +40,17 @@ const Tag: React.FC<{ tag: string }> = ({ tag }) => {
     );
 };
 
+// One line per input to a blended projection, for the Mean column's tooltip.
+const describeBlend = (blend: ProjectionBlend): string => [
+    `Model: ${blend.model.mean.toFixed(2)} (weight ${blend.model.weight})`,
+    ...blend.sources.map(s => `${s.name}: ${s.mean.toFixed(2)} (weight ${s.weight})`),
+].join('\n');
+
+// Manually overridden values are shown in yellow so they are never mistaken for the model's.
+const OverridableValue: React.FC<{ player: Player; field: OverrideField; children: React.ReactNode }> = ({ player, field, children }) =>
+    player.overriddenFields?.includes(field)
+        ? <span className="text-yellow-300" title="Manual override">{children}</span>
+        : <>{children}</>;
 
 const PlayerTable: React.FC<PlayerTableProps> = ({ players, statuses, playerRanks, onStatusChange, onPlayerSelect }) => {
   const [sortConfig, setSortConfig] = useState<SortConfig>({ key: 'fpts', direction: 'descending' });
@@ -137,17 +148,27 @@ const PlayerTable: React.FC<PlayerTableProps> = ({ players, statuses, playerRank
                           </div>
                           <div className="flex items-center gap-1.5 mt-1">
                             <span className="text-gray-400 text-xs">{player.position}</span>
+                            {player.overriddenFields?.includes('injuryStatus') && <span className="text-yellow-300 text-xs" title="Manual override">{player.injuryStatus}</span>}
                             {player.tags && player.tags.split(',').map(tag => tag.trim() && <Tag key={tag} tag={tag.trim()} />)}
                           </div>
                         </div>
                      </div>
                   </td>
                   <td className="px-2 py-2 text-right">{(player.fpts / (player.salary / 1000)).toFixed(2)}</td>
-                  <td className="px-2 py-2 text-right">{player.fpts.toFixed(2)}</td>
-                  <td className="px-2 py-2 text-right font-bold text-cyan-400">{player.scenarioFpts.ceiling.toFixed(2)}</td>
+                  <td className="px-2 py-2 text-right">
+                    <OverridableValue player={player} field="fpts">{player.fpts.toFixed(2)}</OverridableValue>
+                    {player.projectionBlend && (
+                      <div className="text-xs text-gray-500" title={describeBlend(player.projectionBlend)}>
+                        {player.projectionBlend.sources.length + 1} sources
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-2 py-2 text-right font-bold text-cyan-400">
+                    <OverridableValue player={player} field="ceiling">{player.scenarioFpts.ceiling.toFixed(2)}</OverridableValue>
+                  </td>
                   <td className="px-2 py-2 text-right">${player.salary.toLocaleString()}</td>
-                  <td className="px-2 py-2 text-right">{player.flexOwnership.toFixed(1)}%</td>
-                  <td className="px-2 py-2 text-right text-gray-400">{player.mvpOwnership.toFixed(1)}%</td>
+                  <td className="px-2 py-2 text-right"><OverridableValue player={player} field="flexOwnership">{player.flexOwnership.toFixed(1)}%</OverridableValue></td>
+                  <td className="px-2 py-2 text-right text-gray-400"><OverridableValue player={player} field="mvpOwnership">{player.mvpOwnership.toFixed(1)}%</OverridableValue></td>
                   <td className="px-2 py-2 text-right font-bold text-orange-400">{player.volatility.toFixed(0)}</td>
                   <td className="px-4 py-2">
                     <div className="flex justify-center items-center space-x-1">
@@ -1,7 +1,8 @@
-import React, { useState, useCallback } from 'react';
-import { Player, ContestResult, LeakfinderReport } from '../types';
+import React, { useState, useCallback, useMemo } from 'react';
+import { Player, ContestResult, ContestRuleset, LeakfinderReport, RosterRules } from '../types';
 import ContestHistoryUpload from './ContestHistoryUpload';
 import { generateLeakfinderReport } from '../services/postSlateAnalyzer';
+import { validateContestLineup } from '../services/lineupValidator';
 import SpinnerIcon from './icons/SpinnerIcon';
 import LightbulbIcon from './icons/LightbulbIcon';
 import LeakfinderReportDisplay from './LeakfinderReportDisplay';
@@ -9,14 +10,27 @@ import LeakfinderReportDisplay from './LeakfinderReportDisplay';
 
 interface PostSlateAnalysisPageProps {
   players: Player[]; // Players from the optimizer page for context
+  contestRuleset: ContestRuleset; // The site and format chosen on the optimizer page
+  rosterRules: RosterRules;
 }
 
-const PostSlateAnalysisPage: React.FC<PostSlateAnalysisPageProps> = ({ players }) => {
+const PostSlateAnalysisPage: React.FC<PostSlateAnalysisPageProps> = ({ players, contestRuleset, rosterRules }) => {
     const [contestResults, setContestResults] = useState<ContestResult[] | null>(null);
     const [leakfinderReport, setLeakfinderReport] = useState<LeakfinderReport | null>(null);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
 
+    // Every imported entry is checked against the active contest's roster rules. Entries from another
+    // slate or format are listed and left out of the analysis.
+    const { validResults, invalidEntries } = useMemo(() => {
+        if (!contestResults || !players || players.length === 0) return { validResults: [], invalidEntries: [] };
+        const checked = contestResults.map(result => ({ result, violations: validateContestLineup(result, players, rosterRules, contestRuleset) }));
+        return {
+            validResults: checked.filter(entry => entry.violations.length === 0).map(entry => entry.result),
+            invalidEntries: checked.filter(entry => entry.violations.length > 0),
+        };
+    }, [contestResults, players, rosterRules, contestRuleset]);
+
     const handleUploadComplete = useCallback((results: ContestResult[]) => {
         setContestResults(results);
         setLeakfinderReport(null); // Reset report on new upload
@@ -28,10 +42,14 @@ const PostSlateAnalysisPage: React.FC<PostSlateAnalysisPageProps> = ({ players }
             setError("Cannot analyze without both contest results and the original player pool loaded in the Optimizer tab.");
             return;
         }
+        if (validResults.length === 0) {
+            setError(`None of the imported entries are legal ${contestRuleset.name} lineups for this slate.`);
+            return;
+        }
         setIsLoading(true);
         setError(null);
         try {
-            const report = await generateLeakfinderReport(contestResults, players);
+            const report = await generateLeakfinderReport(validResults, players, contestRuleset);
             setLeakfinderReport(report);
         } catch (e) {
             const errorMessage = e instanceof Error ? e.message : "An unknown error occurred during AI analysis.";
@@ -47,25 +65,38 @@ const PostSlateAnalysisPage: React.FC<PostSlateAnalysisPageProps> = ({ players }
             <div>
                 <h1 className="text-3xl font-bold text-white mb-2">Post-Slate Leakfinder Analysis</h1>
                 <p className="text-gray-400">
-                    Upload your FanDuel contest history CSV to get an AI-powered analysis of your performance. Your personal DFS coach will identify your strengths, find your leaks, and help you improve your process.
+                    Upload your {contestRuleset.site} contest history CSV to get an AI-powered analysis of your performance. Your personal DFS coach will identify your strengths, find your leaks, and help you improve your process.
                 </p>
             </div>
             
             {!players || players.length === 0 ? (
                 <div className="p-4 bg-yellow-900/50 border border-yellow-500 text-yellow-300 rounded-lg">
                     <p className="font-bold">Player Pool Required</p>
-                    <p className="text-sm">Please go to the 'Optimizer' tab and upload the FanDuel player CSV for the slate you want to analyze first. This provides the AI with the necessary context (projections, salaries, etc.) to perform its analysis.</p>
+                    <p className="text-sm">Please go to the 'Optimizer' tab and upload the {contestRuleset.site} player CSV for the slate you want to analyze first. This provides the AI with the necessary context (projections, salaries, etc.) to perform its analysis.</p>
                 </div>
             ) : (
                  <div className="grid grid-cols-1 md:grid-cols-2 gap-8 items-start">
                     <div>
                         <h2 className="text-xl font-bold mb-4 text-white">1. Upload Contest History CSV</h2>
-                        <ContestHistoryUpload onComplete={handleUploadComplete} onError={setError} />
+                        <ContestHistoryUpload onComplete={handleUploadComplete} onError={setError} contestRuleset={contestRuleset} />
                         {contestResults && (
                             <div className="mt-4 p-3 bg-green-500/10 text-green-300 border border-green-500 rounded">
                                 <p className="font-bold">Successfully parsed {contestResults.length} contest entries.</p>
                             </div>
                         )}
+                        {invalidEntries.length > 0 && (
+                            <div className="mt-4 p-3 bg-yellow-900/50 border border-yellow-500 text-yellow-300 rounded text-sm">
+                                <p className="font-bold">{invalidEntries.length} imported lineup(s) fail {contestRuleset.name} roster rules for this slate and are left out of the report.</p>
+                                <ul className="list-disc list-inside mt-2 space-y-1">
+                                    {invalidEntries.slice(0, 5).map(({ result, violations }) => (
+                                        <li key={`${result.rank}-${result.lineup.mvp}`}>
+                                            Rank {result.rank}: {violations.map(v => v.message).join(' ')}
+                                        </li>
+                                    ))}
+                                </ul>
+                                {invalidEntries.length > 5 && <p className="mt-1 text-xs">...and {invalidEntries.length - 5} more.</p>}
+                            </div>
+                        )}
                     </div>
                     <div>
                         <h2 className="text-xl font-bold mb-4 text-white">2. Generate Report</h2>
@@ -0,0 +1,115 @@
+import React, { useCallback, useRef, useState } from 'react';
+import UploadIcon from './icons/UploadIcon';
+import SpinnerIcon from './icons/SpinnerIcon';
+import XIcon from './icons/XIcon';
+import { parseProjectionCsv } from '../services/projectionSourceService';
+import { Player, ProjectionSource } from '../types';
+
+interface ProjectionSourcesPanelProps {
+  players: Player[];
+  sources: ProjectionSource[];
+  modelWeight: number;
+  onSourcesChange: (sources: ProjectionSource[]) => void;
+  onModelWeightChange: (weight: number) => void;
+  onError: (message: string) => void;
+}
+
+const WeightInput: React.FC<{ id: string; label: string; value: number; onChange: (value: number) => void }> = ({ id, label, value, onChange }) => (
+    <div className="flex items-center gap-2">
+        <label htmlFor={id} className="text-xs text-gray-400">{label}</label>
+        <input
+            type="number"
+            id={id}
+            min="0"
+            step="0.1"
+            value={value}
+            onChange={(e) => onChange(Math.max(0, Number(e.target.value) || 0))}
+            className="w-16 bg-gray-900 border border-gray-600 rounded-md text-center py-1 text-white focus:ring-2 focus:ring-gray-500 focus:outline-none"
+        />
+    </div>
+);
+
+const ProjectionSourcesPanel: React.FC<ProjectionSourcesPanelProps> = ({ players, sources, modelWeight, onSourcesChange, onModelWeightChange, onError }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Each file becomes its own source; re-uploading a file name replaces that source.
+  const processFiles = useCallback(async (files: File[]) => {
+    setIsLoading(true);
+    onError("");
+    try {
+        const parsed = await Promise.all(files.map(async file => parseProjectionCsv(await file.text(), file.name, players)));
+        const replaced = new Set(parsed.map(s => s.id));
+        onSourcesChange([...sources.filter(s => !replaced.has(s.id)), ...parsed]);
+    } catch (error) {
+        onError(error instanceof Error ? error.message : "Failed to process projection file.");
+    } finally {
+        setIsLoading(false);
+        if (fileInputRef.current) {
+            fileInputRef.current.value = "";
+        }
+    }
+  }, [players, sources, onSourcesChange, onError]);
+
+  const handleFileChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+      const files = Array.from(event.target.files || []);
+      if (files.length > 0) {
+          processFiles(files);
+      }
+  }, [processFiles]);
+
+  const updateWeight = (id: string, weight: number) => onSourcesChange(sources.map(s => s.id === id ? { ...s, weight } : s));
+
+  return (
+    <div className="mt-6 border-t border-gray-700 pt-6">
+        <h3 className="text-lg font-bold mb-2 text-white">Third-Party Projections</h3>
+        <input
+            type="file"
+            ref={fileInputRef}
+            onChange={handleFileChange}
+            accept=".csv"
+            multiple
+            className="hidden"
+            disabled={isLoading}
+        />
+        <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isLoading}
+            className="w-full flex items-center justify-center gap-2 bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-lg transition duration-300 disabled:bg-gray-800 disabled:cursor-not-allowed"
+        >
+            {isLoading ? <SpinnerIcon /> : <UploadIcon />}
+            {isLoading ? 'Matching Players...' : 'Upload Projection CSVs'}
+        </button>
+        <p className="text-xs text-center mt-2 text-gray-500">
+            Columns: name, team, mean, ceiling, ownership. Each player's projection is the weighted average of the model and every source that lists them.
+        </p>
+        {sources.length > 0 && (
+            <div className="mt-3 space-y-2">
+                <div className="p-3 rounded-md flex justify-between items-center bg-gray-800 border border-gray-700">
+                    <p className="font-bold text-white text-sm">Active model</p>
+                    <WeightInput id="blend-weight-model" label="Weight" value={modelWeight} onChange={onModelWeightChange} />
+                </div>
+                {sources.map(source => (
+                    <div key={source.id} className="p-3 rounded-md bg-gray-800 border border-gray-700">
+                        <div className="flex justify-between items-center">
+                            <p className="font-bold text-white text-sm truncate" title={source.name}>{source.name}</p>
+                            <div className="flex items-center gap-2">
+                                <WeightInput id={`blend-weight-${source.id}`} label="Weight" value={source.weight} onChange={(weight) => updateWeight(source.id, weight)} />
+                                <button onClick={() => onSourcesChange(sources.filter(s => s.id !== source.id))} className="text-gray-400 hover:text-white" aria-label={`Remove ${source.name}`}>
+                                    <XIcon />
+                                </button>
+                            </div>
+                        </div>
+                        <p className="text-xs text-gray-400 mt-1" title={source.unmatchedRows.join(', ')}>
+                            {Object.keys(source.projections).length} players matched
+                            {source.unmatchedRows.length > 0 && `, ${source.unmatchedRows.length} rows unmatched`}
+                        </p>
+                    </div>
+                ))}
+            </div>
+        )}
+    </div>
+  );
+};
+
+export default ProjectionSourcesPanel;
@@ -1,5 +1,6 @@
 import React, { useState, useMemo, useEffect } from 'react';
-import { Lineup, Player, BacktestReport } from '../types';
+import { Lineup, Player, BacktestReport, PlayerExposureTarget, ExposureRange, ContestRuleset } from '../types';
+import { DEFAULT_CONTEST_RULESET } from '../services/contestRulesets';
 import BacktestResultsDisplay from './BacktestResultsDisplay';
 import ExportIcon from './icons/ExportIcon';
 
@@ -7,35 +8,45 @@ interface ResultsHubProps {
   lineups: Lineup[] | null;
   players: Player[];
   backtestReport: BacktestReport | null;
+  exposureTargets?: Record<string, PlayerExposureTarget>;
+  contestRuleset?: ContestRuleset;
 }
 
 type Tab = 'lineups' | 'exposures' | 'backtest';
-type SortableKeys = 'expectedValue' | 'duplicationRisk' | 'totalFpts' | 'totalCeilingFpts' | 'totalSalary' | 'correlationScore' | 'leverageScore';
+type SortableKeys = 'expectedPayout' | 'upsideScore' | 'roi' | 'duplicationRisk' | 'totalFpts' | 'totalCeilingFpts' | 'totalSalary' | 'correlationScore' | 'leverageScore';
 
 interface SortConfig {
   key: SortableKeys | null;
   direction: 'ascending' | 'descending';
 }
 
-const ExposureView: React.FC<{ lineups: Lineup[], players: Player[] }> = ({ lineups, players }) => {
+const formatTarget = (range?: ExposureRange) => range ? `${range.min}–${range.max}%` : '—';
+
+const isOffTarget = (percent: number, range?: ExposureRange) => !!range && (percent < range.min || percent > range.max);
+
+const ExposureView: React.FC<{ lineups: Lineup[], players: Player[], exposureTargets: Record<string, PlayerExposureTarget> }> = ({ lineups, players, exposureTargets }) => {
     const exposureCounts = useMemo(() => {
-        const counts: Record<string, number> = {};
-        players.forEach(p => counts[p.id] = 0);
+        const counts: Record<string, { mvp: number; flex: number }> = {};
+        players.forEach(p => counts[p.id] = { mvp: 0, flex: 0 });
         
         lineups.forEach(lineup => {
-            counts[lineup.mvp.id]++;
+            if (counts[lineup.mvp.id]) counts[lineup.mvp.id].mvp++;
             lineup.flex.forEach(player => {
-                counts[player.id]++;
+                if (counts[player.id]) counts[player.id].flex++;
             });
         });
         return counts;
     }, [lineups, players]);
 
+    const getTotal = (id: string) => exposureCounts[id].mvp + exposureCounts[id].flex;
+
     const sortedPlayers = useMemo(() => {
-        return [...players].sort((a, b) => (exposureCounts[b.id] - exposureCounts[a.id]));
+        const total = (id: string) => exposureCounts[id].mvp + exposureCounts[id].flex;
+        return [...players].sort((a, b) => (total(b.id) - total(a.id)));
     }, [players, exposureCounts]);
 
     const totalLineups = lineups.length;
+    const toPercent = (count: number) => totalLineups > 0 ? (count / totalLineups) * 100 : 0;
 
     return (
         <div className="overflow-auto max-h-[400px]">
@@ -43,18 +54,29 @@ const ExposureView: React.FC<{ lineups: Lineup[], players: Player[] }> = ({ line
                 <thead className="text-xs text-gray-400 uppercase bg-gray-800 sticky top-0">
                     <tr>
                         <th className="px-4 py-2">Player</th>
+                        <th className="px-4 py-2 text-center">MVP % (Target)</th>
+                        <th className="px-4 py-2 text-center">FLEX % (Target)</th>
                         <th className="px-4 py-2 text-center">Exposure %</th>
                         <th className="px-4 py-2 text-center">Count</th>
                     </tr>
                 </thead>
                 <tbody className="divide-y divide-gray-700">
                     {sortedPlayers.map(player => {
-                        const count = exposureCounts[player.id];
-                        if (count === 0) return null;
-                        const actualPercent = totalLineups > 0 ? (count / totalLineups) * 100 : 0;
+                        const count = getTotal(player.id);
+                        const target = exposureTargets[player.id];
+                        if (count === 0 && !target) return null;
+                        const mvpPercent = toPercent(exposureCounts[player.id].mvp);
+                        const flexPercent = toPercent(exposureCounts[player.id].flex);
+                        const actualPercent = toPercent(count);
                         return (
                             <tr key={player.id} className="bg-gray-800 hover:bg-gray-900">
                                 <td className="px-4 py-2 font-medium text-white">{player.name}</td>
+                                <td className={`px-4 py-2 text-center ${isOffTarget(mvpPercent, target?.mvp) ? 'text-red-400 font-bold' : ''}`}>
+                                    {mvpPercent.toFixed(1)}% <span className="text-xs text-gray-500">({formatTarget(target?.mvp)})</span>
+                                </td>
+                                <td className={`px-4 py-2 text-center ${isOffTarget(flexPercent, target?.flex) ? 'text-red-400 font-bold' : ''}`}>
+                                    {flexPercent.toFixed(1)}% <span className="text-xs text-gray-500">({formatTarget(target?.flex)})</span>
+                                </td>
                                 <td className="px-4 py-2 text-center">{actualPercent.toFixed(1)}%</td>
                                 <td className="px-4 py-2 text-center">{count}</td>
                             </tr>
@@ -67,21 +89,24 @@ const ExposureView: React.FC<{ lineups: Lineup[], players: Player[] }> = ({ line
 };
 
 const LineupsTable: React.FC<{ lineups: Lineup[] }> = ({ lineups }) => {
-    const [sortConfig, setSortConfig] = useState<SortConfig>({ key: 'expectedValue', direction: 'descending' });
+    // Priced builds sort by dollar EV by default; unpriced ones have none, so they sort by the upside score.
+    const isPriced = lineups.some(l => l.expectedPayout !== undefined);
+    const [chosenSort, setSortConfig] = useState<SortConfig | null>(null);
+    const sortConfig: SortConfig = chosenSort ?? { key: isPriced ? 'expectedPayout' : 'upsideScore', direction: 'descending' };
 
     const sortedLineups = useMemo(() => {
         let sortableItems = [...lineups];
         if (sortConfig.key) {
             sortableItems.sort((a, b) => {
-                const aValue = a[sortConfig.key!];
-                const bValue = b[sortConfig.key!];
+                const aValue = a[sortConfig.key!] ?? -Infinity;
+                const bValue = b[sortConfig.key!] ?? -Infinity;
                 if (aValue < bValue) return sortConfig.direction === 'ascending' ? -1 : 1;
                 if (aValue > bValue) return sortConfig.direction === 'ascending' ? 1 : -1;
                 return 0;
             });
         }
         return sortableItems;
-    }, [lineups, sortConfig]);
+    }, [lineups, sortConfig.key, sortConfig.direction]);
 
     const requestSort = (key: SortableKeys) => {
         let direction: 'ascending' | 'descending' = 'descending';
@@ -100,6 +125,8 @@ const LineupsTable: React.FC<{ lineups: Lineup[] }> = ({ lineups }) => {
       return `px-2 py-2 text-right cursor-pointer transition-colors ${sortConfig.key === key ? 'text-white' : 'text-gray-400 hover:text-white'}`;
     }
 
+    const getRoiColor = (roi: number) => roi > 0 ? 'text-green-400' : 'text-red-400';
+
     const getDupRiskColor = (risk: number) => {
       if (risk > 10) return 'text-red-400 font-bold';
       if (risk > 2) return 'text-yellow-400';
@@ -114,7 +141,9 @@ const LineupsTable: React.FC<{ lineups: Lineup[] }> = ({ lineups }) => {
                     <tr>
                         <th className="px-2 py-2 text-center">#</th>
                         <th className="px-2 py-2">Lineup</th>
-                        <th className={getHeaderClass('expectedValue')} onClick={() => requestSort('expectedValue')}>EV {getSortIndicator('expectedValue')}</th>
+                        <th className={getHeaderClass('expectedPayout')} onClick={() => requestSort('expectedPayout')} title="Average prize against a simulated contest field">EV {getSortIndicator('expectedPayout')}</th>
+                        <th className={getHeaderClass('upsideScore')} onClick={() => requestSort('upsideScore')} title="Ceiling discounted for duplication, in fantasy points">Upside {getSortIndicator('upsideScore')}</th>
+                        <th className={getHeaderClass('roi')} onClick={() => requestSort('roi')}>ROI {getSortIndicator('roi')}</th>
                         <th className={getHeaderClass('duplicationRisk')} onClick={() => requestSort('duplicationRisk')}>Dupes {getSortIndicator('duplicationRisk')}</th>
                         <th className={getHeaderClass('totalFpts')} onClick={() => requestSort('totalFpts')}>Mean {getSortIndicator('totalFpts')}</th>
                         <th className={getHeaderClass('totalCeilingFpts')} onClick={() => requestSort('totalCeilingFpts')}>Ceiling {getSortIndicator('totalCeilingFpts')}</th>
@@ -133,9 +162,23 @@ const LineupsTable: React.FC<{ lineups: Lineup[] }> = ({ lineups }) => {
                                     <span className="font-bold text-gray-500">FLEX:</span> {lineup.flex.map(p => p.name).join(', ')}
                                 </div>
                             </td>
-                            <td className="px-2 py-2 text-right font-bold text-green-400">{lineup.expectedValue.toFixed(2)}</td>
-                            <td className={`px-2 py-2 text-right ${getDupRiskColor(lineup.duplicationRisk)}`}>
+                            <td className={`px-2 py-2 text-right font-bold ${lineup.expectedPayout !== undefined ? 'text-green-400' : 'text-gray-500'}`}>
+                                {lineup.expectedPayout !== undefined ? `$${lineup.expectedPayout.toFixed(2)}` : '—'}
+                            </td>
+                            <td className="px-2 py-2 text-right">{lineup.upsideScore.toFixed(2)}</td>
+                            <td className={`px-2 py-2 text-right ${lineup.roi !== undefined ? getRoiColor(lineup.roi) : 'text-gray-500'}`}>
+                                {lineup.roi !== undefined ? `${lineup.roi.toFixed(1)}%` : '—'}
+                            </td>
+                            <td
+                                className={`px-2 py-2 text-right ${getDupRiskColor(lineup.duplicationRisk)}`}
+                                title={`Ownership proxy: ${lineup.duplicationProxy.toFixed(2)}`}
+                            >
                                 {lineup.duplicationRisk.toFixed(2)}
+                                {lineup.simulatedDuplication && (
+                                    <div className="text-xs text-gray-500 font-normal">
+                                        {lineup.simulatedDuplication.low.toFixed(1)}–{lineup.simulatedDuplication.high.toFixed(1)}
+                                    </div>
+                                )}
                             </td>
                             <td className="px-2 py-2 text-right">{lineup.totalFpts.toFixed(2)}</td>
                             <td className="px-2 py-2 text-right text-cyan-400">{lineup.totalCeilingFpts.toFixed(2)}</td>
@@ -149,7 +192,7 @@ const LineupsTable: React.FC<{ lineups: Lineup[] }> = ({ lineups }) => {
 };
 
 
-const ResultsHub: React.FC<ResultsHubProps> = ({ lineups, players, backtestReport }) => {
+const ResultsHub: React.FC<ResultsHubProps> = ({ lineups, players, backtestReport, exposureTargets = {}, contestRuleset = DEFAULT_CONTEST_RULESET }) => {
   const [activeTab, setActiveTab] = useState<Tab>('lineups');
   
   const hasLineups = lineups !== null;
@@ -166,7 +209,7 @@ const ResultsHub: React.FC<ResultsHubProps> = ({ lineups, players, backtestRepor
   
   const handleExport = () => {
     if (!lineups) return;
-    const header = "MVP,FLEX,FLEX,FLEX,FLEX\n";
+    const header = [contestRuleset.mvpLabel, ...Array(contestRuleset.rosterSize - 1).fill('FLEX')].join(',') + "\n";
     const csv = lineups.map(l => 
         `${l.mvp.name},${l.flex.map(p => p.name).join(',')}`
     ).join('\n');
@@ -175,7 +218,7 @@ const ResultsHub: React.FC<ResultsHubProps> = ({ lineups, players, backtestRepor
     const link = document.createElement("a");
     const url = URL.createObjectURL(blob);
     link.setAttribute("href", url);
-    link.setAttribute("download", `fanduel_lineups_${Date.now()}.csv`);
+    link.setAttribute("download", `${contestRuleset.site.toLowerCase()}_lineups_${Date.now()}.csv`);
     link.style.visibility = 'hidden';
     document.body.appendChild(link);
     link.click();
@@ -231,7 +274,7 @@ const ResultsHub: React.FC<ResultsHubProps> = ({ lineups, players, backtestRepor
                     <p className="text-gray-500 text-center">No lineups could be generated with the current settings.</p>
                 </div>
             )}
-            {activeTab === 'exposures' && hasLineups && (lineups.length > 0 ? <ExposureView lineups={lineups} players={players} /> :
+            {activeTab === 'exposures' && hasLineups && (lineups.length > 0 ? <ExposureView lineups={lineups} players={players} exposureTargets={exposureTargets} /> :
                  <div className="flex items-center justify-center h-full">
                     <p className="text-gray-500 text-center">No lineups to calculate exposures from.</p>
                 </div>
@@ -22,7 +22,7 @@ const SimulationControls: React.FC<SimulationControlsProps> = ({ params, onParam
             <div className={`grid grid-cols-1 md:grid-cols-2 gap-6 ${isDisabled ? 'opacity-50' : ''}`}>
                 <div>
                     <label htmlFor="trainValidateSplit" className="block text-sm font-medium text-gray-400 mb-2">
-                        Train / Validate Split: <span className="font-bold text-white">{params.trainValidateSplit}% / {100 - params.trainValidateSplit}%</span>
+                        Initial Training Window: <span className="font-bold text-white">{params.trainValidateSplit}%</span> of Weeks
                     </label>
                     <input
                         id="trainValidateSplit"
@@ -36,7 +36,7 @@ const SimulationControls: React.FC<SimulationControlsProps> = ({ params, onParam
                         disabled={isDisabled}
                         className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:cursor-not-allowed"
                     />
-                    <p className="text-xs text-gray-500 mt-1">Percentage of historical data used for training vs. blind validation.</p>
+                    <p className="text-xs text-gray-500 mt-1">Earliest share of the timeline used to train the first fold. Later weeks are validated walk-forward.</p>
                 </div>
                  <div>
                     <label htmlFor="topKEnsemble" className="block text-sm font-medium text-gray-400 mb-2">
@@ -56,6 +56,42 @@ const SimulationControls: React.FC<SimulationControlsProps> = ({ params, onParam
                     />
                     <p className="text-xs text-gray-500 mt-1">Number of top candidate models to combine into the final Ensemble Super Model.</p>
                 </div>
+                <div>
+                    <label htmlFor="folds" className="block text-sm font-medium text-gray-400 mb-2">
+                        Walk-Forward Folds: <span className="font-bold text-white">{params.folds}</span>
+                    </label>
+                    <input
+                        id="folds"
+                        name="folds"
+                        type="range"
+                        min="1"
+                        max="10"
+                        step="1"
+                        value={params.folds}
+                        onChange={handleSliderChange}
+                        disabled={isDisabled}
+                        className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:cursor-not-allowed"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">Consecutive validation blocks. Each fold trains on every week before its block.</p>
+                </div>
+                <div>
+                    <label htmlFor="embargoWeeks" className="block text-sm font-medium text-gray-400 mb-2">
+                        Embargo: <span className="font-bold text-white">{params.embargoWeeks}</span> Weeks
+                    </label>
+                    <input
+                        id="embargoWeeks"
+                        name="embargoWeeks"
+                        type="range"
+                        min="0"
+                        max="8"
+                        step="1"
+                        value={params.embargoWeeks}
+                        onChange={handleSliderChange}
+                        disabled={isDisabled}
+                        className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:cursor-not-allowed"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">Weeks purged between each training window and the games it is validated on.</p>
+                </div>
             </div>
         </div>
     );
@@ -1,15 +1,128 @@
-import React from 'react';
-import { StackingRules } from '../types';
+import React, { useState } from 'react';
+import { StackingRules, ConditionalRule, Player, RosterSlot } from '../types';
 import { strategyPresets } from '../services/strategyPresets';
+import { describeConditionalRule } from '../services/conditionalRules';
 import StarIcon from './icons/StarIcon';
+import XIcon from './icons/XIcon';
 
 interface StackingRulesEditorProps {
     rules: StackingRules;
     onRulesChange: (rules: StackingRules) => void;
     recommendedStrategy: string | null;
+    players?: Player[];
 }
 
-const StackingRulesEditor: React.FC<StackingRulesEditorProps> = ({ rules, onRulesChange, recommendedStrategy }) => {
+const POSITIONS = ['QB', 'RB', 'WR', 'TE', 'K', 'D'];
+
+interface RuleDraft {
+    ifSlot: RosterSlot;
+    ifPosition: string;
+    ifPlayerId: string;
+    bound: 'min' | 'max';
+    count: number;
+    thenTeam: '' | 'SAME' | 'OPPONENT';
+    thenPosition: string;
+    thenPlayerId: string;
+}
+
+const INITIAL_DRAFT: RuleDraft = {
+    ifSlot: 'MVP',
+    ifPosition: 'QB',
+    ifPlayerId: '',
+    bound: 'min',
+    count: 1,
+    thenTeam: 'SAME',
+    thenPosition: 'WR',
+    thenPlayerId: '',
+};
+
+const selectClass = "bg-gray-800 border border-gray-600 rounded-md px-2 py-1 text-xs text-white focus:ring-2 focus:ring-gray-500 focus:outline-none";
+
+const buildRuleFromDraft = (draft: RuleDraft): ConditionalRule => ({
+    id: `rule_${Date.now()}`,
+    if: {
+        slot: draft.ifSlot,
+        positions: draft.ifPosition ? [draft.ifPosition] : undefined,
+        playerIds: draft.ifPlayerId ? [draft.ifPlayerId] : undefined,
+    },
+    then: {
+        selector: {
+            positions: draft.thenPosition ? [draft.thenPosition] : undefined,
+            playerIds: draft.thenPlayerId ? [draft.thenPlayerId] : undefined,
+            team: draft.thenTeam || undefined,
+        },
+        [draft.bound]: draft.count,
+    },
+});
+
+const ConditionalRulesEditor: React.FC<{ rules: ConditionalRule[]; players: Player[]; onChange: (rules: ConditionalRule[]) => void }> = ({ rules, players, onChange }) => {
+    const [draft, setDraft] = useState<RuleDraft>(INITIAL_DRAFT);
+    const update = (patch: Partial<RuleDraft>) => setDraft(prev => ({ ...prev, ...patch }));
+    const sortedPlayers = [...players].sort((a, b) => a.name.localeCompare(b.name));
+
+    const playerOptions = (
+        <>
+            <option value="">Any player</option>
+            {sortedPlayers.map(p => <option key={p.id} value={p.id}>{p.name} ({p.position})</option>)}
+        </>
+    );
+    const positionOptions = (
+        <>
+            <option value="">Any pos.</option>
+            {POSITIONS.map(pos => <option key={pos} value={pos}>{pos}</option>)}
+        </>
+    );
+
+    return (
+        <div className="space-y-2">
+            <h4 className="text-sm font-semibold text-gray-300">Conditional (If-Then) Rules:</h4>
+            {rules.length === 0 && <p className="text-xs text-gray-500 italic">No conditional rules.</p>}
+            {rules.map(rule => (
+                <div key={rule.id} className="flex items-center justify-between text-xs bg-gray-800 border border-gray-600 rounded-md px-2 py-1">
+                    <span className="text-gray-300">{describeConditionalRule(rule, players)}</span>
+                    <button onClick={() => onChange(rules.filter(r => r.id !== rule.id))} className="text-gray-400 hover:text-white" aria-label="Remove rule">
+                        <XIcon />
+                    </button>
+                </div>
+            ))}
+            <div className="grid grid-cols-[auto_1fr] gap-x-2 gap-y-1 items-center text-xs text-gray-400 pt-2">
+                <span>If</span>
+                <div className="flex flex-wrap gap-1">
+                    <select aria-label="Trigger slot" value={draft.ifSlot} onChange={e => update({ ifSlot: e.target.value as RosterSlot })} className={selectClass}>
+                        <option value="ANY">In lineup</option>
+                        <option value="MVP">At MVP</option>
+                        <option value="FLEX">At FLEX</option>
+                    </select>
+                    <select aria-label="Trigger position" value={draft.ifPosition} onChange={e => update({ ifPosition: e.target.value })} className={selectClass}>{positionOptions}</select>
+                    <select aria-label="Trigger player" value={draft.ifPlayerId} onChange={e => update({ ifPlayerId: e.target.value })} className={selectClass}>{playerOptions}</select>
+                </div>
+                <span>Then</span>
+                <div className="flex flex-wrap gap-1">
+                    <select aria-label="Bound" value={draft.bound} onChange={e => update({ bound: e.target.value as RuleDraft['bound'] })} className={selectClass}>
+                        <option value="min">At least</option>
+                        <option value="max">At most</option>
+                    </select>
+                    <input aria-label="Count" type="number" min="0" max="4" value={draft.count} onChange={e => update({ count: Math.max(0, Math.min(4, parseInt(e.target.value, 10) || 0)) })} className={`${selectClass} w-12 text-center`} />
+                    <select aria-label="Team relation" value={draft.thenTeam} onChange={e => update({ thenTeam: e.target.value as RuleDraft['thenTeam'] })} className={selectClass}>
+                        <option value="">Any team</option>
+                        <option value="SAME">Same team</option>
+                        <option value="OPPONENT">Opponent</option>
+                    </select>
+                    <select aria-label="Target position" value={draft.thenPosition} onChange={e => update({ thenPosition: e.target.value })} className={selectClass}>{positionOptions}</select>
+                    <select aria-label="Target player" value={draft.thenPlayerId} onChange={e => update({ thenPlayerId: e.target.value })} className={selectClass}>{playerOptions}</select>
+                </div>
+            </div>
+            <button
+                onClick={() => onChange([...rules, buildRuleFromDraft(draft)])}
+                className="w-full text-xs py-1.5 rounded-md bg-gray-800 hover:bg-gray-700 border border-gray-600 text-white transition-colors focus:outline-none focus:ring-2 focus:ring-gray-500"
+            >
+                + Add Rule
+            </button>
+        </div>
+    );
+};
+
+const StackingRulesEditor: React.FC<StackingRulesEditorProps> = ({ rules, onRulesChange, recommendedStrategy, players = [] }) => {
     
     const handleCheckboxChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         onRulesChange({
@@ -95,6 +208,12 @@ const StackingRulesEditor: React.FC<StackingRulesEditorProps> = ({ rules, onRule
                         ))}
                     </div>
                 </div>
+
+                <ConditionalRulesEditor
+                    rules={rules.conditionalRules || []}
+                    players={players}
+                    onChange={(conditionalRules) => onRulesChange({ ...rules, conditionalRules })}
+                />
             </div>
         </div>
     );
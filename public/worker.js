@@ -1,5 +1,7 @@
 import { generateMultipleLineups } from '../services/optimizer.js';
 import { runBacktest } from '../services/backtestService.js';
+import { generatePortfolio } from '../services/portfolioOptimizer.js';
+import { evaluateContestEv } from '../services/evSimulationService.js';
 
 // Worker dispatcher
 self.onmessage = async (event) => {
@@ -7,7 +9,9 @@ self.onmessage = async (event) => {
 
   try {
     if (type === 'GENERATE_LINEUPS') {
-      const { players, lockedPlayers, excludedIds, numberOfLineups, salaryCap, stackingRules, optimizationTarget } = payload;
+      const { players, lockedPlayers, excludedIds, numberOfLineups, salaryCap, stackingRules, optimizationTarget, options } = payload;
+      const { contestStructure, simulationSeed, ...buildOptions } = options;
+      let infeasibility = null;
       // FIX: Re-added 'await' as generateMultipleLineups is an async function. This prevents a broken state.
       const lineups = await generateMultipleLineups(
         players,
@@ -16,7 +20,27 @@ self.onmessage = async (event) => {
         numberOfLineups,
         salaryCap,
         stackingRules,
-        optimizationTarget
+        optimizationTarget,
+        { ...buildOptions, onInfeasible: (report) => { infeasibility = report; } }
+      );
+      // Price the finished build in dollars against the contest's simulated field.
+      const pricedLineups = contestStructure
+        ? evaluateContestEv(lineups, players, contestStructure, optimizationTarget, simulationSeed ?? 0, buildOptions.contestRuleset, salaryCap)
+        : lineups;
+      self.postMessage({ id, type: 'SUCCESS', payload: { lineups: pricedLineups, infeasibility } });
+    } else if (type === 'GENERATE_PORTFOLIO') {
+      const { players, lockedPlayers, excludedIds, numberOfLineups, salaryCap, stackingRules, optimizationTarget, portfolio, contestStructure, options } = payload;
+      const lineups = await generatePortfolio(
+        players,
+        lockedPlayers,
+        new Set(excludedIds),
+        numberOfLineups,
+        salaryCap,
+        stackingRules,
+        optimizationTarget,
+        portfolio,
+        contestStructure,
+        options
       );
       self.postMessage({ id, type: 'SUCCESS', payload: lineups });
     } else if (type === 'RUN_BACKTEST') {
@@ -4,27 +4,62 @@ import {
     BacktestGameResult,
     Player,
     HistoricalGame,
-    Lineup
+    Lineup,
+    PlayerExposureTarget,
+    StackingRules,
+    PlayerSelector,
+    ContestRuleset,
+    ScoringSystem
 } from '../types';
 import { modelStore } from './modelStore';
 import { generateMultipleLineups } from './optimizer';
+import { generatePortfolio } from './portfolioOptimizer';
+import { evaluateContestEv } from './evSimulationService';
+import { DEFAULT_ROSTER_RULES } from './lineupValidator';
+import { DEFAULT_CONTEST_RULESET } from './contestRulesets';
+import { getActualFpts, getRulesetScoringSystem } from './scoringSystems';
 
-const MVP_MULTIPLIER = 1.5;
-
-// Scores a lineup using actual historical FDPs
-function scoreLineupWithActuals(lineup: Lineup, historicalPlayers: HistoricalGame['players'][0][]): number {
-    const playerMap = new Map(historicalPlayers.map(p => [p.name, p.actualFdp]));
+// Scores a lineup using actual historical fantasy points under the backtest's scoring system
+function scoreLineupWithActuals(lineup: Lineup, historicalPlayers: HistoricalGame['players'][0][], ruleset: ContestRuleset, scoringSystem: ScoringSystem): number {
+    const playerMap = new Map(historicalPlayers.map(p => [p.name, getActualFpts(p, scoringSystem)]));
     
     const mvpPlayerName = lineup.mvp.name;
     const flexPlayerNames = lineup.flex.map(p => p.name);
 
-    const mvpScore = (playerMap.get(mvpPlayerName) || 0) * MVP_MULTIPLIER;
+    const mvpScore = (playerMap.get(mvpPlayerName) || 0) * ruleset.mvpMultiplier;
     const flexScore = flexPlayerNames.reduce((sum, name) => sum + (playerMap.get(name) || 0), 0);
     
     return mvpScore + flexScore;
 }
 
 
+// Reads lines like "KC -4.5, Total: 52.5" into the team's Vegas fields; null when the line cannot be parsed.
+function parseVegasLine(vegasLine: string, team: string): Player['vegas'] {
+    const spreadMatch = vegasLine.match(/\b([A-Z]{2,3})\s+([+-]?\d+(?:\.\d+)?)/);
+    const totalMatch = vegasLine.match(/Total:\s*(\d+(?:\.\d+)?)/i);
+    if (!spreadMatch || !totalMatch) return null;
+    const total = parseFloat(totalMatch[1]);
+    const favouriteSpread = parseFloat(spreadMatch[2]);
+    const spread = spreadMatch[1] === team ? favouriteSpread : -favouriteSpread;
+    return { spread, total, impliedTeamTotal: total / 2 - spread / 2 };
+}
+
+// Conditional rules reference current-slate player IDs; point them at the matching historical players.
+function remapRulePlayerIds(rules: StackingRules, mapId: (id: string) => string | undefined): StackingRules {
+    if (!rules.conditionalRules) return rules;
+    const remapSelector = (selector: PlayerSelector): PlayerSelector => selector.playerIds
+        ? { ...selector, playerIds: selector.playerIds.map(id => mapId(id) ?? id) }
+        : selector;
+    return {
+        ...rules,
+        conditionalRules: rules.conditionalRules.map(rule => ({
+            ...rule,
+            if: remapSelector(rule.if),
+            then: { ...rule.then, selector: remapSelector(rule.then.selector) },
+        })),
+    };
+}
+
 export async function runBacktest(
     settings: OptimizerSettings,
     currentPlayers: Player[],
@@ -43,6 +78,14 @@ export async function runBacktest(
     const currentPlayersMap = new Map(currentPlayers.map(p => [p.id, p]));
     const lockedPlayerNames = settings.lockedPlayerIds.map(id => currentPlayersMap.get(id)?.name).filter((name): name is string => !!name);
     const excludedPlayerNames = settings.excludedPlayerIds.map(id => currentPlayersMap.get(id)?.name).filter((name): name is string => !!name);
+    const rosterRules = settings.rosterRules || DEFAULT_ROSTER_RULES;
+    const contestRuleset = settings.contestRuleset || DEFAULT_CONTEST_RULESET;
+    const scoringSystem = settings.scoringSystem || getRulesetScoringSystem(contestRuleset);
+    const exposureTargetsByName = new Map<string, PlayerExposureTarget>();
+    Object.entries(settings.exposureTargets || {}).forEach(([id, target]) => {
+        const name = currentPlayersMap.get(id)?.name;
+        if (name) exposureTargetsByName.set(name, target);
+    });
 
     for (let i = 0; i < totalGames; i++) {
         const game = historicalGames[i];
@@ -51,12 +94,13 @@ export async function runBacktest(
 
         const poolWithSalaries: Player[] = game.players
             .filter(p => p.salary && p.salary > 0)
+            .map(p => ({ ...p, actualFpts: getActualFpts(p, scoringSystem) }))
             .map(p => ({
                 id: `${game.gameId}_${p.name.replace(/\s/g, '')}`,
                 name: p.name,
                 position: p.position,
                 salary: p.salary!,
-                fpts: p.actualFdp,
+                fpts: p.actualFpts,
                 team: p.team,
                 opponent: game.players.find(op => op.team !== p.team)?.team || 'OPP',
                 mvpOwnership: 0,
@@ -67,10 +111,10 @@ export async function runBacktest(
                 notes: '',
                 statProjections: undefined,
                 advancedStats: p.advancedStats,
-                vegas: null,
+                vegas: parseVegasLine(game.pregameContext.vegasLine, p.team),
                 scenarioFpts: {
-                    ceiling: p.actualFdp * 1.5,
-                    floor: p.actualFdp * 0.5,
+                    ceiling: p.actualFpts * 1.5,
+                    floor: p.actualFpts * 0.5,
                 },
                 correlations: {},
                 blitzRateDefense: 0,
@@ -91,20 +135,59 @@ export async function runBacktest(
 
         const lockedPlayers = poolWithSalaries.filter(p => lockedPlayerNames.includes(p.name));
         const excludedIds = new Set(poolWithSalaries.filter(p => excludedPlayerNames.includes(p.name)).map(p => p.id));
+        const poolIdsByName = new Map(poolWithSalaries.map(p => [p.name, p.id]));
+        const stackingRules = remapRulePlayerIds(settings.stackingRules, id => poolIdsByName.get(currentPlayersMap.get(id)?.name ?? ''));
+        const exposureTargets: Record<string, PlayerExposureTarget> = {};
+        poolWithSalaries.forEach(p => {
+            const target = exposureTargetsByName.get(p.name);
+            if (target) exposureTargets[p.id] = target;
+        });
         
+        const buildOptions = {
+            exposureTargets,
+            uniquenessRules: settings.uniquenessRules,
+            rosterRules,
+            contestRuleset,
+            correlationObjective: settings.correlationObjective,
+            randomness: settings.randomness,
+            solverBackend: settings.solverBackend,
+        };
         // FIX: Added await, as generateMultipleLineups is an async function.
-        const generatedLineups = await generateMultipleLineups(
-            poolWithSalaries,
-            lockedPlayers,
-            excludedIds,
-            settings.numberOfLineups,
-            settings.salaryCap,
-            settings.stackingRules,
-            'mean' // Use actualFdp as a proxy for perfect projections
-        );
-
-        const scoredLineups = generatedLineups.map(lineup => {
-            const actualScore = scoreLineupWithActuals(lineup, game.players);
+        // Portfolio mode simulates the historical game from its parsed Vegas line before selecting.
+        const generatedLineups = settings.portfolio?.enabled
+            ? await generatePortfolio(
+                poolWithSalaries,
+                lockedPlayers,
+                excludedIds,
+                settings.numberOfLineups,
+                settings.salaryCap,
+                stackingRules,
+                'mean',
+                settings.portfolio,
+                settings.contestStructure,
+                buildOptions
+            )
+            : await generateMultipleLineups(
+                poolWithSalaries,
+                lockedPlayers,
+                excludedIds,
+                settings.numberOfLineups,
+                settings.salaryCap,
+                stackingRules,
+                'mean', // Use actual fantasy points as a proxy for perfect projections
+                buildOptions
+            );
+
+        // Both build paths return only lineups that passed validateLineup under these rules.
+
+        // Price against the contest so each lineup carries both the simulated and the proxy dupe estimate.
+        // Portfolio mode has already done this against its own simulation.
+        const pricedLineups = settings.contestStructure && !settings.portfolio?.enabled
+            ? evaluateContestEv(generatedLineups, poolWithSalaries, settings.contestStructure, 'mean', settings.portfolio?.seed ?? 0, contestRuleset, settings.salaryCap)
+            : generatedLineups;
+
+        const scoredLineups = pricedLineups.map(lineup => {
+            const actualScore = scoreLineupWithActuals(lineup, game.players, contestRuleset, scoringSystem);
             return { ...lineup, totalFpts: actualScore };
         });
 
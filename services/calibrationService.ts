@@ -1,10 +1,42 @@
 import { CalibrationReport } from '../types';
+import { Z_90, normalCdf, normalQuantile } from './normalDistribution';
 
-interface PredictionPoint {
+// A point prediction with its predictive spread. The predictive distribution is the split normal the
+// simulators use: the prediction is its median, and each side's standard deviation puts P10 at the floor
+// and P90 at the ceiling.
+export interface PredictionPoint {
     predicted: number;
     actual: number;
+    floor: number; // Predicted P10
+    ceiling: number; // Predicted P90
 }
 
+// Keeps a degenerate spread (a zero prediction, say) from producing a point mass.
+const MIN_SD = 0.5;
+
+// Quantile levels integrated over for CRPS, and the nominal levels ECE is measured at.
+const CRPS_LEVELS = Array.from({ length: 99 }, (_, i) => (i + 1) / 100);
+const ECE_LEVELS = [0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9];
+const PIT_BINS = 10;
+
+const getSpread = (p: PredictionPoint) => ({
+    lower: Math.max(MIN_SD, (p.predicted - p.floor) / Z_90),
+    upper: Math.max(MIN_SD, (p.ceiling - p.predicted) / Z_90),
+});
+
+const predictiveQuantile = (p: PredictionPoint, level: number): number => {
+    const z = normalQuantile(level);
+    const { lower, upper } = getSpread(p);
+    return p.predicted + z * (z < 0 ? lower : upper);
+};
+
+// Probability integral transform: where the actual outcome falls in its own predictive distribution.
+const getPit = (p: PredictionPoint): number => {
+    const { lower, upper } = getSpread(p);
+    const diff = p.actual - p.predicted;
+    return normalCdf(diff / (diff < 0 ? lower : upper));
+};
+
 /**
  * Calculates the Mean Absolute Error (MAE) for a set of predictions.
  * @param predictions An array of objects with predicted and actual values.
@@ -19,53 +51,103 @@ function calculateMae(predictions: PredictionPoint[]): number {
 }
 
 /**
- * Placeholder function for calculating the Continuous Ranked Probability Score (CRPS).
- * In a real implementation, this would require a distribution, not a point estimate.
- * @param predictions An array of objects with predicted and actual values.
- * @returns A placeholder value for CRPS.
+ * Mean Continuous Ranked Probability Score, in fantasy points. CRPS is twice the pinball loss integrated
+ * over every quantile level, evaluated here on a 1% grid. It rewards sharp distributions only when they are
+ * also right, and equals the MAE for a distribution with no spread.
  */
 function calculateCrps(predictions: PredictionPoint[]): number {
-    // TODO: Implement proper CRPS calculation. This requires a full predictive distribution,
-    // not just a point estimate. For now, we'll return a value derived from MAE.
-    const mae = calculateMae(predictions);
-    return mae * 0.75; // Heuristic placeholder
+    if (predictions.length === 0) {
+        return 0;
+    }
+    const total = predictions.reduce((sum, p) => {
+        const pinball = CRPS_LEVELS.reduce((loss, level) => {
+            const q = predictiveQuantile(p, level);
+            return loss + (p.actual < q ? (1 - level) * (q - p.actual) : level * (p.actual - q));
+        }, 0);
+        return sum + 2 * pinball / CRPS_LEVELS.length;
+    }, 0);
+    return total / predictions.length;
+}
+
+// Share of PIT values in each tenth of [0, 1]; a calibrated model fills every bin equally.
+function calculatePitHistogram(pits: number[]): number[] {
+    const counts = new Array(PIT_BINS).fill(0);
+    pits.forEach(pit => { counts[Math.min(PIT_BINS - 1, Math.floor(pit * PIT_BINS))]++; });
+    return counts.map(c => pits.length > 0 ? c / pits.length : 0);
 }
 
 /**
- * Placeholder function for the Probability Integral Transform (PIT) Kolmogorov-Smirnov test.
- * @param predictions An array of objects with predicted and actual values.
- * @returns A placeholder p-value.
+ * Kolmogorov-Smirnov test of the PIT values against the uniform distribution they follow when the
+ * predictive distributions are calibrated. Returns the asymptotic p-value (with Stephens' small-sample
+ * correction): near 1 is consistent with calibration, near 0 is not.
  */
-function calculatePitKsTest(predictions: PredictionPoint[]): number {
-    // TODO: Implement proper PIT KS test. This also requires a full predictive distribution.
-    // A p-value close to 1 is good, close to 0 is bad. We'll return a decent placeholder.
-    return 0.5 + (Math.random() * 0.4); // Random value between 0.5 and 0.9
+function calculatePitKsTest(pits: number[]): number {
+    const n = pits.length;
+    if (n === 0) {
+        return 0;
+    }
+    const sorted = [...pits].sort((a, b) => a - b);
+    const statistic = sorted.reduce((max, pit, i) => Math.max(max, (i + 1) / n - pit, pit - i / n), 0);
+    const lambda = (Math.sqrt(n) + 0.12 + 0.11 / Math.sqrt(n)) * statistic;
+    if (lambda < 0.2) return 1;
+    let pValue = 0;
+    for (let k = 1; k <= 100; k++) {
+        const term = 2 * (k % 2 === 1 ? 1 : -1) * Math.exp(-2 * k * k * lambda * lambda);
+        pValue += term;
+        if (Math.abs(term) < 1e-10) break;
+    }
+    return Math.min(1, Math.max(0, pValue));
+}
+
+// Mean gap between each nominal quantile level and the share of actuals that fell below it.
+function calculateEce(pits: number[]): number {
+    if (pits.length === 0) {
+        return 0;
+    }
+    return ECE_LEVELS.reduce((sum, level) => sum + Math.abs(pits.filter(pit => pit <= level).length / pits.length - level), 0) / ECE_LEVELS.length;
 }
 
 /**
- * Placeholder function for calculating P50 coverage.
- * @param predictions An array of objects with predicted and actual values.
- * @returns A placeholder coverage percentage.
+ * Percentage of actuals at or below the predicted quantile; a calibrated model matches the level.
  */
-function calculateP50Coverage(predictions: PredictionPoint[]): number {
-    // TODO: Implement proper P50 coverage. Requires a median (P50) prediction.
-    // For now, we'll assume the 'predicted' value is the median and simulate coverage.
-    const mae = calculateMae(predictions);
-    // Simulate some variance
-    return 50.0 - (mae / 2) + (Math.random() * 5 - 2.5);
+function calculateCoverage(predictions: PredictionPoint[], level: number): number {
+    if (predictions.length === 0) {
+        return 0;
+    }
+    return 100 * predictions.filter(p => p.actual <= predictiveQuantile(p, level)).length / predictions.length;
 }
 
 /**
  * Generates a full calibration report for a set of predictions against actual outcomes.
- * This function fulfills the "hard validation gates" mandate from MD-V-001.
- * @param predictions An array of objects containing predicted and actual fantasy points.
+ * This function fulfills the "hard validation gates" mandate from MD-V-001. Every metric is deterministic.
+ * @param predictions Predictions with their floor and ceiling, and the actual fantasy points.
  * @returns A CalibrationReport object.
  */
 export function generateCalibrationReport(predictions: PredictionPoint[]): CalibrationReport {
+    const pits = predictions.map(getPit);
     return {
         mae: calculateMae(predictions),
         crps: calculateCrps(predictions),
-        pitKsPValue: calculatePitKsTest(predictions),
-        p50Coverage: calculateP50Coverage(predictions),
+        pitKsPValue: calculatePitKsTest(pits),
+        pitHistogram: calculatePitHistogram(pits),
+        ece: calculateEce(pits),
+        p10Coverage: calculateCoverage(predictions, 0.1),
+        p50Coverage: calculateCoverage(predictions, 0.5),
+        p90Coverage: calculateCoverage(predictions, 0.9),
     };
-}
\ No newline at end of file
+}
+
+/**
+ * Orders calibration reports best first: lowest CRPS, then lowest ECE, then lowest MAE. CRPS leads because it
+ * scores the whole predictive distribution. Reports saved before CRPS was real (no ECE) and missing reports
+ * come last.
+ */
+export function compareCalibrationReports(a: CalibrationReport | undefined, b: CalibrationReport | undefined): number {
+    const isComplete = (r: CalibrationReport | undefined): r is CalibrationReport => r?.ece != null;
+    if (isComplete(a) !== isComplete(b)) return isComplete(a) ? -1 : 1;
+    if (!isComplete(a) || !isComplete(b)) {
+        const [maeA, maeB] = [a?.mae ?? Infinity, b?.mae ?? Infinity];
+        return maeA === maeB ? 0 : maeA < maeB ? -1 : 1;
+    }
+    return (a.crps - b.crps) || (a.ece - b.ece) || (a.mae - b.mae);
+}
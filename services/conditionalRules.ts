@@ -0,0 +1,89 @@
+import { ConditionalRule, Player, PlayerSelector } from '../types';
+
+/**
+ * Checks a player against the static parts of a selector (positions, player IDs and,
+ * when a trigger player is given, team relation). Slot is applied by the caller.
+ * @param player The candidate player.
+ * @param selector The selector to test.
+ * @param trigger The player that fired the rule, used to resolve 'SAME'/'OPPONENT'.
+ */
+export function playerMatchesSelector(player: Player, selector: PlayerSelector, trigger?: Player): boolean {
+    if (selector.positions && selector.positions.length > 0 && !selector.positions.includes(player.position)) {
+        return false;
+    }
+    if (selector.playerIds && selector.playerIds.length > 0 && !selector.playerIds.includes(player.id)) {
+        return false;
+    }
+    if (trigger && selector.team === 'SAME' && player.team !== trigger.team) {
+        return false;
+    }
+    if (trigger && selector.team === 'OPPONENT' && player.team !== trigger.opponent) {
+        return false;
+    }
+    return true;
+}
+
+const inSlot = (isMvp: boolean, slot: PlayerSelector['slot']) =>
+    slot === 'MVP' ? isMvp : slot === 'FLEX' ? !isMvp : true;
+
+/**
+ * Evaluates a rule against a complete lineup (the MILP compiles the same semantics into rows).
+ * With neither min nor max set, the rule requires at least one matching player.
+ * @param mvp The lineup's MVP.
+ * @param flex The lineup's FLEX players.
+ * @param rule The rule to check.
+ */
+export function lineupSatisfiesConditionalRule(mvp: Player, flex: Player[], rule: ConditionalRule): boolean {
+    const min = rule.then.min ?? (rule.then.max === undefined ? 1 : undefined);
+    const max = rule.then.max;
+    const slotted = [{ player: mvp, isMvp: true }, ...flex.map(player => ({ player, isMvp: false }))];
+
+    return slotted.every(trigger => {
+        if (!inSlot(trigger.isMvp, rule.if.slot) || !playerMatchesSelector(trigger.player, rule.if)) return true;
+        const count = slotted.filter(target =>
+            target.player.id !== trigger.player.id
+            && inSlot(target.isMvp, rule.then.selector.slot)
+            && playerMatchesSelector(target.player, rule.then.selector, trigger.player)
+        ).length;
+        return (min === undefined || count >= min) && (max === undefined || count <= max);
+    });
+}
+
+const describeSelector = (selector: PlayerSelector, playerNames: Map<string, string>): string => {
+    const parts: string[] = [];
+    if (selector.team === 'SAME') parts.push('same-team');
+    if (selector.team === 'OPPONENT') parts.push('opponent');
+    if (selector.playerIds && selector.playerIds.length > 0) {
+        parts.push(selector.playerIds.map(id => playerNames.get(id) || id).join('/'));
+    } else if (selector.positions && selector.positions.length > 0) {
+        parts.push(selector.positions.join('/'));
+    } else {
+        parts.push('player');
+    }
+    if (selector.slot === 'MVP') parts.push('at MVP');
+    if (selector.slot === 'FLEX') parts.push('at FLEX');
+    return parts.join(' ');
+};
+
+/**
+ * Produces a short human-readable summary of a conditional rule,
+ * e.g. "If QB at MVP then ≥2 same-team WR/TE".
+ * @param rule The rule to describe.
+ * @param players Optional player pool used to resolve player IDs to names.
+ */
+export function describeConditionalRule(rule: ConditionalRule, players: Player[] = []): string {
+    const playerNames = new Map(players.map(p => [p.id, p.name]));
+    const { min, max } = rule.then;
+    const target = describeSelector(rule.then.selector, playerNames);
+    let requirement: string;
+    if (max === 0) {
+        requirement = `no ${target}`;
+    } else if (min !== undefined && max !== undefined) {
+        requirement = `${min}–${max} ${target}`;
+    } else if (max !== undefined) {
+        requirement = `≤${max} ${target}`;
+    } else {
+        requirement = `≥${min ?? 1} ${target}`;
+    }
+    return `If ${describeSelector(rule.if, playerNames)} then ${requirement}`;
+}
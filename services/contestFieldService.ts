@@ -0,0 +1,259 @@
+import { Player, ContestRuleset, RosterRules, DuplicationEstimate } from '../types';
+import { DEFAULT_CONTEST_RULESET, getMvpSalary } from './contestRulesets';
+import { DEFAULT_ROSTER_RULES } from './lineupValidator';
+import { getPairCorrelation } from './correlationService';
+import { createSeededRandom } from './random';
+import { GameSimulation, simulateLineupScores } from './monteCarloService';
+import { getSolvedLineupSignature } from './lineupSolver';
+import type { SolvedLineup } from './lineupSolver';
+
+// Scoring every entry of a 100k-player contest in every simulation is too slow for the browser, so larger
+// contests are represented by a sample in which each entry stands for contestSize / sampleSize real ones.
+export const MAX_FIELD_SAMPLE = 2000;
+
+// Field lineups cluster near the cap: the chance a drawn build is kept halves for roughly every $1,000 left.
+const SALARY_LEFT_SCALE = 1500;
+const MAX_SALARY_REDRAWS = 20;
+
+// How strongly the field chases correlated pairs (QB + pass catcher, MVP + teammates) when filling FLEX.
+const FIELD_STACK_WEIGHT = 1.5;
+
+// Ownership is matched by reweighting the sampler a few times against a calibration sample.
+const CALIBRATION_ROUNDS = 6;
+const CALIBRATION_SAMPLE = 1000;
+const MIN_OWNERSHIP = 0.05;
+
+// Two-sided 90% normal quantile for the duplication confidence range.
+const DUPE_INTERVAL_Z = 1.645;
+
+/**
+ * A simulated opponent field. Entries keep their duplicates, so exact matches can be counted directly.
+ */
+export interface ContestField {
+    contestSize: number;
+    entries: SolvedLineup[];
+    entryWeight: number; // Real contest entries each sampled entry represents
+    signatureCounts: Map<string, number>; // Sampled entries per lineup signature
+}
+
+// Per simulation, every field entry's score in ascending order.
+export interface ScoredField {
+    field: ContestField;
+    sortedScores: Float64Array[];
+}
+
+interface SamplerWeights {
+    mvp: number[];
+    flex: number[];
+}
+
+const pickWeighted = (weights: number[], random: () => number): number => {
+    const total = weights.reduce((sum, w) => sum + w, 0);
+    if (total <= 0) return -1;
+    let target = random() * total;
+    for (let i = 0; i < weights.length; i++) {
+        target -= weights[i];
+        if (target < 0) return i;
+    }
+    return weights.length - 1;
+};
+
+/**
+ * Draws one field lineup: an MVP by MVP ownership, then FLEX players one at a time by FLEX ownership,
+ * boosted toward players correlated with those already picked. Only legal lineups are returned;
+ * a build that runs out of legal options is started over.
+ */
+function drawFieldLineup(
+    pool: Player[],
+    weights: SamplerWeights,
+    correlation: number[][],
+    random: () => number,
+    salaryCap: number,
+    contestRuleset: ContestRuleset,
+    rosterRules: RosterRules
+): SolvedLineup | null {
+    const flexSlots = contestRuleset.rosterSize - 1;
+    const teamCap = rosterRules.requireBothTeams
+        ? Math.min(contestRuleset.maxPlayersPerTeam, contestRuleset.rosterSize - 1)
+        : contestRuleset.maxPlayersPerTeam;
+    const cheapestSalaries = pool.map(p => p.salary).sort((a, b) => a - b);
+    const cheapestFill = (count: number) => cheapestSalaries.slice(0, count).reduce((sum, s) => sum + s, 0);
+
+    for (let attempt = 0; attempt < 10; attempt++) {
+        const mvp = pickWeighted(pool.map((p, i) => (getMvpSalary(p, contestRuleset) + cheapestFill(flexSlots) <= salaryCap ? weights.mvp[i] : 0)), random);
+        if (mvp === -1) return null;
+
+        const chosen = [mvp];
+        const teamCounts = new Map<string, number>([[pool[mvp].team, 1]]);
+        let salary = getMvpSalary(pool[mvp], contestRuleset);
+
+        while (chosen.length <= flexSlots) {
+            const remaining = flexSlots - (chosen.length - 1);
+            const mustAddOtherTeam = rosterRules.requireBothTeams && remaining === 1 && teamCounts.size === 1;
+            const candidateWeights = pool.map((p, j) => {
+                if (chosen.includes(j)) return 0;
+                if ((teamCounts.get(p.team) || 0) >= teamCap) return 0;
+                if (mustAddOtherTeam && teamCounts.has(p.team)) return 0;
+                if (salary + p.salary + cheapestFill(remaining - 1) > salaryCap) return 0;
+                const affinity = chosen.reduce((product, c) => product * Math.max(0.2, 1 + FIELD_STACK_WEIGHT * correlation[c][j]), 1);
+                return weights.flex[j] * affinity;
+            });
+            const next = pickWeighted(candidateWeights, random);
+            if (next === -1) break;
+            chosen.push(next);
+            teamCounts.set(pool[next].team, (teamCounts.get(pool[next].team) || 0) + 1);
+            salary += pool[next].salary;
+        }
+
+        if (chosen.length === flexSlots + 1) {
+            return { mvpId: pool[mvp].id, flexIds: chosen.slice(1).map(j => pool[j].id) };
+        }
+    }
+    return null;
+}
+
+function drawWithSalaryHabits(
+    pool: Player[],
+    weights: SamplerWeights,
+    correlation: number[][],
+    random: () => number,
+    salaryCap: number,
+    contestRuleset: ContestRuleset,
+    rosterRules: RosterRules
+): SolvedLineup | null {
+    const playersById = new Map(pool.map(p => [p.id, p]));
+    let lineup: SolvedLineup | null = null;
+    for (let redraw = 0; redraw < MAX_SALARY_REDRAWS; redraw++) {
+        lineup = drawFieldLineup(pool, weights, correlation, random, salaryCap, contestRuleset, rosterRules);
+        if (!lineup) return null;
+        const used = lineup.flexIds.reduce((sum, id) => sum + playersById.get(id)!.salary, getMvpSalary(playersById.get(lineup.mvpId)!, contestRuleset));
+        if (random() < Math.exp(-(salaryCap - used) / SALARY_LEFT_SCALE)) return lineup;
+    }
+    return lineup;
+}
+
+/**
+ * Builds a realistic opponent field for a contest. Sampling starts from projected MVP/FLEX ownership and is
+ * then reweighted so that, despite salary and roster constraints, the field's realized ownership lands
+ * close to the projections. Stacking tendencies come from pairwise correlations and salary usage from
+ * a preference for builds that leave little of the cap unused.
+ * @param players The slate's players (excluded players should already be removed by the caller, if any).
+ * @param contestSize Number of entries in the real contest.
+ * @param seed Seed for the sampler; the same seed rebuilds the same field.
+ * @param sampleSize Entries to actually draw; defaults to the contest size, capped at MAX_FIELD_SAMPLE.
+ */
+export function generateContestField(
+    players: Player[],
+    contestSize: number,
+    seed: number,
+    contestRuleset: ContestRuleset = DEFAULT_CONTEST_RULESET,
+    salaryCap: number = contestRuleset.salaryCap,
+    rosterRules: RosterRules = DEFAULT_ROSTER_RULES,
+    sampleSize: number = Math.min(contestSize, MAX_FIELD_SAMPLE)
+): ContestField {
+    const random = createSeededRandom(seed);
+    const pool = players.filter(p => (rosterRules.allowKicker || p.position !== 'K') && (rosterRules.allowDefense || p.position !== 'D'));
+    const correlation = pool.map(a => pool.map(b => (a.id === b.id ? 0 : getPairCorrelation(a, b))));
+    const targets: SamplerWeights = {
+        mvp: pool.map(p => Math.max(MIN_OWNERSHIP, p.mvpOwnership || 0) / 100),
+        flex: pool.map(p => Math.max(MIN_OWNERSHIP, p.flexOwnership || 0) / 100),
+    };
+    const weights: SamplerWeights = { mvp: [...targets.mvp], flex: [...targets.flex] };
+    const draw = () => drawWithSalaryHabits(pool, weights, correlation, random, salaryCap, contestRuleset, rosterRules);
+    const index = new Map(pool.map((p, i) => [p.id, i]));
+
+    for (let round = 0; round < CALIBRATION_ROUNDS; round++) {
+        const mvpCounts = new Array(pool.length).fill(0);
+        const flexCounts = new Array(pool.length).fill(0);
+        let drawn = 0;
+        for (let k = 0; k < CALIBRATION_SAMPLE; k++) {
+            const lineup = draw();
+            if (!lineup) break;
+            drawn++;
+            mvpCounts[index.get(lineup.mvpId)!]++;
+            lineup.flexIds.forEach(id => flexCounts[index.get(id)!]++);
+        }
+        if (drawn === 0) break;
+        // Damped multiplicative update toward the projected rate; unseen players get the full push.
+        pool.forEach((_, i) => {
+            weights.mvp[i] *= Math.min(10, Math.pow(targets.mvp[i] / Math.max(mvpCounts[i] / drawn, 1 / drawn), 0.8));
+            weights.flex[i] *= Math.min(10, Math.pow(targets.flex[i] / Math.max(flexCounts[i] / drawn, 1 / drawn), 0.8));
+        });
+    }
+
+    const entries: SolvedLineup[] = [];
+    for (let k = 0; k < sampleSize; k++) {
+        const lineup = draw();
+        if (!lineup) break;
+        entries.push(lineup);
+    }
+
+    const signatureCounts = new Map<string, number>();
+    entries.forEach(entry => {
+        const signature = getSolvedLineupSignature(entry);
+        signatureCounts.set(signature, (signatureCounts.get(signature) || 0) + 1);
+    });
+
+    return { contestSize, entries, entryWeight: entries.length > 0 ? contestSize / entries.length : 0, signatureCounts };
+}
+
+/**
+ * Expected number of exact copies of a lineup among the contest's other entries, from how often the
+ * simulated field built it. The range is a 90% Wilson interval on the sampled match rate, so a lineup
+ * the sample never drew still gets an honest upper bound rather than a flat zero.
+ */
+export function estimateDuplicates(field: ContestField, lineup: SolvedLineup): DuplicationEstimate {
+    const sampleSize = field.entries.length;
+    const matches = field.signatureCounts.get(getSolvedLineupSignature(lineup)) || 0;
+    if (sampleSize === 0) return { expected: 0, low: 0, high: 0, matches, sampleSize };
+
+    const rate = matches / sampleSize;
+    const z2 = DUPE_INTERVAL_Z ** 2;
+    const center = (rate + z2 / (2 * sampleSize)) / (1 + z2 / sampleSize);
+    const halfWidth = (DUPE_INTERVAL_Z / (1 + z2 / sampleSize)) * Math.sqrt(rate * (1 - rate) / sampleSize + z2 / (4 * sampleSize ** 2));
+    return {
+        expected: rate * field.contestSize,
+        low: Math.max(0, center - halfWidth) * field.contestSize,
+        high: Math.min(1, center + halfWidth) * field.contestSize,
+        matches,
+        sampleSize,
+    };
+}
+
+/**
+ * Scores every field entry in every simulated game, sorted so a lineup's standing is a binary search.
+ */
+export function scoreContestField(simulation: GameSimulation, field: ContestField, players: Player[], contestRuleset: ContestRuleset = DEFAULT_CONTEST_RULESET): ScoredField {
+    const playersById = new Map(players.map(p => [p.id, p]));
+    const entryScores = field.entries.map(entry => simulateLineupScores(
+        simulation,
+        playersById.get(entry.mvpId)!,
+        entry.flexIds.map(id => playersById.get(id)!),
+        contestRuleset
+    ));
+    const sortedScores: Float64Array[] = [];
+    for (let s = 0; s < simulation.simulations; s++) {
+        sortedScores.push(Float64Array.from(entryScores, scores => scores[s]).sort());
+    }
+    return { field, sortedScores };
+}
+
+/**
+ * Where a score would finish against the field in one simulation, in real contest entries.
+ * @returns `above`: entries that beat it outright; `tied`: entries with exactly the same score.
+ */
+export function getFieldStanding(scoredField: ScoredField, simulationIndex: number, score: number): { above: number, tied: number } {
+    const sorted = scoredField.sortedScores[simulationIndex];
+    const lowerBound = (strict: boolean) => {
+        let lo = 0, hi = sorted.length;
+        while (lo < hi) {
+            const mid = (lo + hi) >> 1;
+            if (strict ? sorted[mid] <= score : sorted[mid] < score) lo = mid + 1; else hi = mid;
+        }
+        return lo;
+    };
+    const firstAtOrAbove = lowerBound(false);
+    const firstAbove = lowerBound(true);
+    const weight = scoredField.field.entryWeight;
+    return { above: (sorted.length - firstAbove) * weight, tied: (firstAbove - firstAtOrAbove) * weight };
+}
@@ -1,15 +1,18 @@
-import { ContestResult } from '../types';
+import { ContestResult, ContestRuleset } from '../types';
 import { ContestHistoryRowSchema } from './schemas';
 import { logger } from './loggingService';
+import { DEFAULT_CONTEST_RULESET } from './contestRulesets';
 
 /**
- * Parses a FanDuel contest history CSV file.
+ * Parses a contest history CSV file.
  * IMPORTANT: This assumes a specific structure for the CSV.
  * It looks for a "Lineup" column and assumes player names are in a "Player, Position" format.
+ * Lineups are not checked for roster size here; validateContestLineup reports every rule an entry breaks.
  * @param file The CSV file uploaded by the user.
+ * @param ruleset The contest format, used for the MVP/Captain label and in error messages.
  * @returns A promise that resolves to an array of ContestResult objects.
  */
-export async function parseContestHistory(file: File): Promise<ContestResult[]> {
+export async function parseContestHistory(file: File, ruleset: ContestRuleset = DEFAULT_CONTEST_RULESET): Promise<ContestResult[]> {
   const text = await file.text();
   const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
   if (lines.length < 2) {
@@ -43,10 +46,10 @@ export async function parseContestHistory(file: File): Promise<ContestResult[]>
       
     // Extract players, assuming format "Player1, Pos Player2, Pos ..."
     const players = Lineup.split(/\s(?=[A-Z][a-z])/).map(p => p.trim());
-    if (players.length < 5) continue; // Skip invalid lineups
+    const mvpSuffix = ` ${ruleset.mvpLabel}`;
 
-    const mvp = players.find(p => p.endsWith('MVP'))?.replace(' MVP', '').trim() || '';
-    const flex = players.filter(p => !p.endsWith('MVP')).map(p => p.replace(/\s[A-Z]{1,3}$/, '').trim());
+    const mvp = players.find(p => p.endsWith(mvpSuffix))?.slice(0, -mvpSuffix.length).trim() || '';
+    const flex = players.filter(p => !p.endsWith(mvpSuffix)).map(p => p.replace(/\s[A-Z]{1,3}$/, '').trim());
 
     results.push({
       rank: Rank,
@@ -60,7 +63,7 @@ export async function parseContestHistory(file: File): Promise<ContestResult[]>
   }
 
   if(results.length === 0) {
-      throw new Error("Could not parse any valid contest entries from the CSV. Please ensure it is the correct file from FanDuel history.");
+      throw new Error(`Could not parse any valid contest entries from the CSV. Please ensure it is the correct file from ${ruleset.site} history.`);
   }
 
   return results;
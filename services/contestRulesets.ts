@@ -0,0 +1,36 @@
+import { ContestRuleset, ContestRulesetId, Player } from '../types';
+
+export const FANDUEL_SHOWDOWN: ContestRuleset = {
+    id: 'FANDUEL_SHOWDOWN',
+    name: 'FanDuel Single Game',
+    site: 'FanDuel',
+    salaryCap: 60000,
+    rosterSize: 5,
+    maxPlayersPerTeam: 4,
+    mvpLabel: 'MVP',
+    mvpMultiplier: 1.5,
+    mvpSalaryMultiplier: 1,
+};
+
+export const DRAFTKINGS_SHOWDOWN: ContestRuleset = {
+    id: 'DRAFTKINGS_SHOWDOWN',
+    name: 'DraftKings Showdown',
+    site: 'DraftKings',
+    salaryCap: 50000,
+    rosterSize: 6,
+    maxPlayersPerTeam: 5,
+    mvpLabel: 'CPT',
+    mvpMultiplier: 1.5,
+    mvpSalaryMultiplier: 1.5,
+};
+
+export const CONTEST_RULESETS: ContestRuleset[] = [FANDUEL_SHOWDOWN, DRAFTKINGS_SHOWDOWN];
+
+export const DEFAULT_CONTEST_RULESET = FANDUEL_SHOWDOWN;
+
+export const getContestRuleset = (id: ContestRulesetId): ContestRuleset =>
+    CONTEST_RULESETS.find(r => r.id === id) || DEFAULT_CONTEST_RULESET;
+
+// What a player costs in the MVP/Captain slot under the given ruleset.
+export const getMvpSalary = (player: Player, ruleset: ContestRuleset): number =>
+    Math.round(player.salary * ruleset.mvpSalaryMultiplier);
@@ -0,0 +1,45 @@
+import { Player } from '../types';
+
+/**
+ * Position-pair correlation priors for single-game NFL, used only when neither player's
+ * `correlations` map has an entry for the other. Keys are alphabetically sorted position pairs.
+ */
+const SAME_TEAM_PRIORS: Record<string, number> = {
+    'QB-WR': 0.35,
+    'QB-TE': 0.25,
+    'K-QB': 0.15,
+    'D-RB': 0.1,
+    'RB-RB': -0.15,
+};
+
+const OPPONENT_PRIORS: Record<string, number> = {
+    'D-QB': -0.35,
+    'D-RB': -0.2,
+    'D-WR': -0.2,
+    'D-TE': -0.15,
+    'QB-QB': 0.2,
+    'QB-WR': 0.15,
+};
+
+const pairKey = (a: Player, b: Player) => [a.position, b.position].sort().join('-');
+
+/**
+ * Returns the correlation coefficient between two players' fantasy scores.
+ * Explicit values in `Player.correlations` (from either side) take precedence over the position priors.
+ */
+export function getPairCorrelation(a: Player, b: Player): number {
+    const explicit = a.correlations?.[b.id] ?? b.correlations?.[a.id];
+    if (explicit !== undefined) return explicit;
+
+    if (a.team === b.team) return SAME_TEAM_PRIORS[pairKey(a, b)] || 0;
+    if (a.opponent === b.team || b.opponent === a.team) return OPPONENT_PRIORS[pairKey(a, b)] || 0;
+    return 0;
+}
+
+/**
+ * Objective bonus for rostering both players: weight * correlation * sqrt(scoreA * scoreB).
+ * Scaling by the geometric mean of the projections keeps the bonus in fantasy points.
+ */
+export function getPairBonus(a: Player, b: Player, scoreA: number, scoreB: number, weight: number): number {
+    return weight * getPairCorrelation(a, b) * Math.sqrt(Math.max(0, scoreA) * Math.max(0, scoreB));
+}
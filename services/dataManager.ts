@@ -1,14 +1,17 @@
-import { Player, PlayerStatus, StatProjections } from '../types';
+import { Player, PlayerStatus, StatProjections, ContestRuleset } from '../types';
 import { OwnershipAnalysisResult, getAIOwnershipAnalysis } from './ownership';
 import { analyzePlayerValue } from './valueAnalyzer';
 import { getPlayerStatusesFromSleeper } from './externalApis';
 import { generateContent } from './aiModelService';
 import { Type } from '@google/genai';
-import { projectPlayerStats, calculateFptsFromProjections } from './projectionService';
+import { projectPlayerFpts } from './projectionService';
+import { applyQuantiles } from './quantileService';
 import { INITIAL_WEIGHTS } from './historicalSimulationService';
-import { FdCsvPlayerSchema, AdvancedPlayerMetricsResponseSchema, InferredAdvancedPlayerMetricsResponse, InferredOwnershipFeaturesResponse } from './schemas';
+import { FdCsvPlayerSchema, DkCsvPlayerSchema, DkCsvPlayer, AdvancedPlayerMetricsResponseSchema, InferredAdvancedPlayerMetricsResponse, InferredOwnershipFeaturesResponse } from './schemas';
 import { logger } from './loggingService';
 import { runPreLockPipeline } from './data/pipeline';
+import { DEFAULT_CONTEST_RULESET, DRAFTKINGS_SHOWDOWN } from './contestRulesets';
+import { getRulesetScoringSystem } from './scoringSystems';
 
 export interface UploadData {
   players: Player[];
@@ -19,7 +22,8 @@ export interface UploadData {
 
 // --- Core Data Pipeline Steps ---
 
-async function parseCsv(file: File): Promise<Player[]> {
+// Reads a CSV into header-keyed rows, after checking the required columns are present.
+async function readCsvRows(file: File, requiredHeaders: string[]): Promise<{ row: { [key: string]: string }, line: string }[]> {
   const text = await file.text();
   const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
   if (lines.length < 2) throw new Error("CSV must have a header and at least one player.");
@@ -27,27 +31,63 @@ async function parseCsv(file: File): Promise<Player[]> {
   const header = lines[0].split(',').map(h => h.trim().replace(/"/g, ''));
   const headerMap = new Map(header.map((h, i) => [h, i]));
 
-  const requiredHeaders = ['Id', 'Nickname', 'Position', 'Salary', 'MVP 1.5x Salary', 'FPPG', 'Team', 'Opponent'];
   if (!requiredHeaders.every(h => headerMap.has(h))) {
     throw new Error(`CSV header is missing one of the required columns: ${requiredHeaders.join(', ')}.`);
   }
 
-  return lines.slice(1).map((line, index) => {
+  return lines.slice(1).map(line => {
     const data = line.match(/(".*?"|[^",]+)(?=\s*,|\s*$)/g)?.map(field => field.trim().replace(/"/g, '')) || [];
     
     const rowObject: { [key: string]: string } = {};
     header.forEach((h, i) => {
         rowObject[h] = data[i];
     });
+    return { row: rowObject, line };
+  });
+}
+
+// Optional Floor/Ceiling columns; a blank or unparseable cell leaves that end to the fitted quantiles.
+const getSuppliedRange = (floor: number | undefined, ceiling: number | undefined): Player['suppliedRange'] => {
+  const range = {
+    floor: floor != null && Number.isFinite(floor) ? floor : undefined,
+    ceiling: ceiling != null && Number.isFinite(ceiling) ? ceiling : undefined,
+  };
+  return range.floor != null || range.ceiling != null ? range : undefined;
+};
+
+// Fills the fields the CSV does not provide with the same neutral defaults for every site.
+const createCsvPlayer = (fields: Pick<Player, 'id' | 'name' | 'position' | 'salary' | 'mvpSalary' | 'fpts' | 'team' | 'opponent'> & Partial<Player>): Player => ({
+  flexOwnership: 0, 
+  mvpOwnership: 0,
+  injuryStatus: '', 
+  injuryDetails: '', 
+  usageBoost: 0, 
+  notes: '',
+  vegas: null,
+  scenarioFpts: { ceiling: fields.suppliedRange?.ceiling ?? fields.fpts, floor: fields.suppliedRange?.floor ?? fields.fpts },
+  correlations: {},
+  blitzRateDefense: 0,
+  coordinatorTendency: 'balanced',
+  projectedUsage: 'Backup',
+  sentimentSummary: 'No specific news.',
+  leverage: 0,
+  volatility: 50,
+  tags: '',
+  ...fields,
+});
+
+async function parseFanDuelCsv(file: File): Promise<Player[]> {
+  const rows = await readCsvRows(file, ['Id', 'Nickname', 'Position', 'Salary', 'MVP 1.5x Salary', 'FPPG', 'Team', 'Opponent']);
 
-    const validation = FdCsvPlayerSchema.safeParse(rowObject);
+  return rows.map(({ row, line }, index) => {
+    const validation = FdCsvPlayerSchema.safeParse(row);
     if (!validation.success) {
       logger.warn(`Skipping invalid CSV row ${index + 2}`, { error: validation.error.flatten(), row: line });
       return null;
     }
     const p = validation.data;
 
-    return { 
+    return createCsvPlayer({
       id: p.Id, 
       name: p.Nickname, 
       position: p.Position, 
@@ -56,26 +96,59 @@ async function parseCsv(file: File): Promise<Player[]> {
       fpts: p.FPPG, 
       team: p.Team, 
       opponent: p.Opponent,
-      flexOwnership: 0, 
-      mvpOwnership: 0,
       injuryStatus: p['Injury Indicator'] || '', 
       injuryDetails: p['Injury Details'] || '', 
-      usageBoost: 0, 
-      notes: '',
-      vegas: null,
-      scenarioFpts: { ceiling: p.FPPG, floor: p.FPPG },
-      correlations: {},
-      blitzRateDefense: 0,
-      coordinatorTendency: 'balanced',
-      projectedUsage: 'Backup',
-      sentimentSummary: 'No specific news.',
-      leverage: 0,
       volatility: p.Volatility || 50, // Default to 50 if not present
       tags: p.Tags || '',
-    };
+      suppliedRange: getSuppliedRange(p.Floor, p.Ceiling),
+    });
   }).filter((p): p is Player => p !== null);
 }
 
+/**
+ * DraftKings lists every player twice (CPT and FLEX). The FLEX row supplies the player's ID and base
+ * salary; the CPT row only supplies the Captain salary. DK's 'DST' is mapped to the 'D' used elsewhere.
+ */
+async function parseDraftKingsCsv(file: File): Promise<Player[]> {
+  const rows = await readCsvRows(file, ['Position', 'Name', 'ID', 'Roster Position', 'Salary', 'Game Info', 'TeamAbbrev', 'AvgPointsPerGame']);
+  const captainSalaries = new Map<string, number>();
+  const flexRows: DkCsvPlayer[] = [];
+
+  rows.forEach(({ row, line }, index) => {
+    const validation = DkCsvPlayerSchema.safeParse(row);
+    if (!validation.success) {
+      logger.warn(`Skipping invalid CSV row ${index + 2}`, { error: validation.error.flatten(), row: line });
+      return;
+    }
+    const p = validation.data;
+    if (p['Roster Position'] === 'CPT') {
+      captainSalaries.set(`${p.Name}|${p.TeamAbbrev}`, p.Salary);
+    } else {
+      flexRows.push(p);
+    }
+  });
+
+  return flexRows.map(p => {
+    // Game Info looks like "KC@BUF 09/07/2025 08:20PM ET".
+    const teams = p['Game Info'].split(' ')[0].split('@');
+    return createCsvPlayer({
+      id: p.ID,
+      name: p.Name,
+      position: p.Position === 'DST' ? 'D' : p.Position,
+      salary: p.Salary,
+      mvpSalary: captainSalaries.get(`${p.Name}|${p.TeamAbbrev}`) ?? Math.round(p.Salary * DRAFTKINGS_SHOWDOWN.mvpSalaryMultiplier),
+      fpts: p.AvgPointsPerGame,
+      team: p.TeamAbbrev,
+      opponent: teams.find(t => t !== p.TeamAbbrev) || '',
+      suppliedRange: getSuppliedRange(p.Floor, p.Ceiling),
+    });
+  });
+}
+
+async function parseCsv(file: File, contestRuleset: ContestRuleset): Promise<Player[]> {
+  return contestRuleset.id === 'DRAFTKINGS_SHOWDOWN' ? parseDraftKingsCsv(file) : parseFanDuelCsv(file);
+}
+
 async function validatePlayersWithAI(players: Player[]): Promise<{ playersToExclude: Set<string>; validationSummary: string; }> {
   if (players.length === 0) {
       return { playersToExclude: new Set(), validationSummary: "" };
@@ -118,8 +191,9 @@ async function getAdvancedPlayerMetricsAI(players: Player[]): Promise<InferredAd
         1. "vegas": An object with "teamASpread" (number, for the first team alphabetically) and "gameTotal" (number).
         2. "playerMetrics": An array of objects. For EACH player, provide:
             - "id" (string, must match input)
+            - "archetype" (string, a short role label such as "Deep Threat", "Slot Receiver", "Bell-Cow Back" or "Dual-Threat QB")
             - "advancedStats": An object with your best estimates for pre-lock metrics: "airYards", "targetShare", "rushAttemptShare", "aDOT".
-            - "statProjections": An object with your best estimates for "mean" and "ceiling" outcomes for all applicable statistical categories (e.g., passingYards, rushingTds, receptions).
+            - "statProjections": An object with your best estimates for "mean" and "ceiling" outcomes for all applicable statistical categories (e.g., passingYards, rushingTds, receptions). For kickers use fieldGoals0to39, fieldGoals40to49, fieldGoals50Plus and extraPoints; for defenses use pointsAllowed, sacks, defensiveInterceptions, fumbleRecoveries, defensiveTds, returnTds, safeties and blockedKicks.
 
         Return ONLY the valid JSON object.
     `;
@@ -142,17 +216,10 @@ async function getAdvancedPlayerMetricsAI(players: Player[]): Promise<InferredAd
 }
 
 // --- NEW: Local calculation step ---
-function applyModelProjections(players: Player[]): Player[] {
+function applyModelProjections(players: Player[], contestRuleset: ContestRuleset): Player[] {
+    const scoringSystem = getRulesetScoringSystem(contestRuleset);
     return players.map(p => {
-        const { meanFpts, ceilingFpts } = projectPlayerStats(p.advancedStats, INITIAL_WEIGHTS);
-        return {
-            ...p,
-            fpts: meanFpts,
-            scenarioFpts: {
-                ...p.scenarioFpts,
-                ceiling: ceilingFpts,
-            }
-        }
+        return applyQuantiles({ ...p, fpts: projectPlayerFpts(p, INITIAL_WEIGHTS, scoringSystem) }, null);
     })
 }
 
@@ -183,9 +250,13 @@ export async function getPlayerDnaReport(player: Player): Promise<string> {
 
 // --- Main Orchestrator ---
 
-export async function handleFileUpload(file: File, setLoadingStatus: (status: string) => void): Promise<UploadData> {
+export async function handleFileUpload(
+  file: File,
+  setLoadingStatus: (status: string) => void,
+  contestRuleset: ContestRuleset = DEFAULT_CONTEST_RULESET
+): Promise<UploadData> {
   setLoadingStatus("Parsing CSV...");
-  let basePlayers = await parseCsv(file);
+  let basePlayers = await parseCsv(file, contestRuleset);
   
   setLoadingStatus("Fetching game data & weather...");
   const { enrichedPlayers, pipelineReport } = await runPreLockPipeline(basePlayers);
@@ -236,14 +307,14 @@ export async function handleFileUpload(file: File, setLoadingStatus: (status: st
 
   if (advancedMetricsResult) {
       // FIX: Corrected typo from advancedMetrics_result to advancedMetricsResult.
-      const metricsMap = new Map(advancedMetricsResult.playerMetrics.map(p => [p.id, p]));
+      const metricsMap = new Map<string, InferredAdvancedPlayerMetricsResponse['playerMetrics'][number]>(advancedMetricsResult.playerMetrics.map(p => [p.id, p]));
       finalPlayerMap.forEach((player, id) => {
           const metrics = metricsMap.get(id);
           if (metrics) {
-              // FIX: Cast 'metrics' to 'any' to resolve incorrect type inference to 'unknown'.
-              player.advancedStats = (metrics as any).advancedStats;
-              // FIX: Cast 'metrics' to 'any' to resolve incorrect type inference to 'unknown'.
+              player.advancedStats = metrics.advancedStats;
+              // The inferred schema type leaves mean/ceiling optional, which Player does not allow.
               player.statProjections = (metrics as any).statProjections;
+              player.archetype = metrics.archetype;
           }
       });
       const teamA = advancedMetricsResult.vegas.teamASpread > 0 ? Object.keys(advancedMetricsResult.vegas)[0] : Object.keys(advancedMetricsResult.vegas)[1];
@@ -281,7 +352,7 @@ export async function handleFileUpload(file: File, setLoadingStatus: (status: st
   let finalPlayers = Array.from(finalPlayerMap.values());
   
   // Re-apply model projections using the new advanced stats
-  finalPlayers = applyModelProjections(finalPlayers);
+  finalPlayers = applyModelProjections(finalPlayers, contestRuleset);
   
   setLoadingStatus("Analyzing value from injuries...");
   finalPlayers = analyzePlayerValue(finalPlayers, finalStatuses);
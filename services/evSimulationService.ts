@@ -1,33 +1,45 @@
-import { Player, Lineup } from '../types';
-import { OptimizationTarget } from './optimizer';
+import { Player, Lineup, ContestRuleset, ContestStructure } from '../types';
+import { OptimizationTarget, getTargetFpts } from './optimizer';
+import { DEFAULT_CONTEST_RULESET, getMvpSalary } from './contestRulesets';
+import { getRulesetScoringSystem } from './scoringSystems';
+import { GameSimulation, simulateGames, simulateLineupScores, summarizeDistribution } from './monteCarloService';
+import { ContestSimulation, createContestSimulation, simulateLineupPayouts } from './payoutService';
+import { estimateDuplicates } from './contestFieldService';
 
-const MVP_MULTIPLIER = 1.5;
 const FIELD_SIZE = 100000; // Assumed field size for GPP contest simulation
 
-// Helper to get Fpts based on optimization target
-const getTargetFpts = (p: Player, target: 'mean' | 'ceiling') => {
-    const baseFpts = target === 'ceiling' ? p.scenarioFpts.ceiling : p.fpts;
-    return baseFpts + (p.usageBoost || 0);
-};
+// Games simulated when pricing a finished build against its contest.
+export const CONTEST_EV_SIMULATIONS = 1000;
 
 /**
  * Calculates all statistical and contest-related metrics for a given lineup.
  * This is the central hub for lineup evaluation.
  * @param mvp The MVP of the lineup.
- * @param flex The four FLEX players.
- * @param optimizationTarget The target ('mean' or 'ceiling') used for optimization.
+ * @param flex The FLEX players.
+ * @param optimizationTarget The target ('mean', 'ceiling' or a quantile) used for optimization.
+ * @param contestRuleset Supplies the MVP points multiplier and MVP salary pricing.
+ * @param simulation Optional joint game simulation. When given, the lineup's simulated score distribution
+ * is attached and its simulated P90 replaces the summed player ceilings as the upside in EV.
+ * @param contest Optional contest scored against the same simulation. When given, EV is the mean prize in
+ * dollars over the simulated finishes and ROI is reported against the entry fee.
  * @returns An object with all calculated stats, ready to be merged into a Lineup object.
  */
 export function calculateLineupStats(
     mvp: Player,
     flex: Player[],
-    optimizationTarget: OptimizationTarget
+    optimizationTarget: OptimizationTarget,
+    contestRuleset: ContestRuleset = DEFAULT_CONTEST_RULESET,
+    simulation?: GameSimulation,
+    contest?: ContestSimulation
 ): Omit<Lineup, 'mvp' | 'flex'> {
-    const totalSalary = flex.reduce((sum, p) => sum + p.salary, mvp.salary);
-    const totalFpts = flex.reduce((sum, p) => sum + getTargetFpts(p, 'mean'), getTargetFpts(mvp, 'mean') * MVP_MULTIPLIER);
-    const totalCeilingFpts = flex.reduce((sum, p) => sum + getTargetFpts(p, 'ceiling'), getTargetFpts(mvp, 'ceiling') * MVP_MULTIPLIER);
+    const mvpMultiplier = contestRuleset.mvpMultiplier;
+    const totalSalary = flex.reduce((sum, p) => sum + p.salary, getMvpSalary(mvp, contestRuleset));
+    const totalFpts = flex.reduce((sum, p) => sum + getTargetFpts(p, 'mean'), getTargetFpts(mvp, 'mean') * mvpMultiplier);
+    const totalCeilingFpts = flex.reduce((sum, p) => sum + getTargetFpts(p, 'ceiling'), getTargetFpts(mvp, 'ceiling') * mvpMultiplier);
 
     const lineup = [mvp, ...flex];
+    const simulatedScores = simulation ? simulateLineupScores(simulation, mvp, flex, contestRuleset) : undefined;
+    const scoreDistribution = simulatedScores ? summarizeDistribution(simulatedScores) : undefined;
 
     // --- Ownership & Duplication ---
     const ownershipProduct = lineup.reduce((prod, p, index) => {
@@ -35,16 +47,29 @@ export function calculateLineupStats(
         return prod * (ownership / 100 || 0.0001); // Use epsilon for 0% owned players
     }, 1);
 
-    // This is a simplified but effective proxy for duplication risk. A more advanced
-    // model (e.g., a GBM trained on historical data) would be implemented here later.
-    const duplicationRisk = Math.max(0, (ownershipProduct * FIELD_SIZE) - 1);
+    // The legacy proxy treats players as independent and ignores salary and stacking habits. It is kept
+    // alongside the field-simulated estimate so the two can be compared on historical contests.
+    const duplicationProxy = Math.max(0, (ownershipProduct * FIELD_SIZE) - 1);
+    const simulatedDuplication = contest
+        ? estimateDuplicates(contest.field.field, { mvpId: mvp.id, flexIds: flex.map(p => p.id) })
+        : undefined;
+    const duplicationRisk = simulatedDuplication ? simulatedDuplication.expected : duplicationProxy;
 
-    // --- EV Simulation (Simplified) ---
-    // A simplified Certainty Equivalent (CE) model for EV.
-    // It rewards ceiling (upside) but penalizes duplication risk.
-    // A more advanced model would simulate payouts against a projected score distribution.
-    const uniquenessBonus = 1 / (1 + Math.sqrt(duplicationRisk));
-    const expectedValue = totalCeilingFpts * uniquenessBonus;
+    // --- EV ---
+    // A Certainty Equivalent (CE) score that rewards ceiling but penalizes duplication risk, in fantasy points.
+    // Summed ceilings assume every player booms together; a simulated P90 respects how they actually co-vary.
+    const uniquenessBonus = 1 / (1 + Math.sqrt(duplicationProxy));
+    const upsideScore = (scoreDistribution ? scoreDistribution.p90 : totalCeilingFpts) * uniquenessBonus;
+
+    // With a simulated contest, the expected payout is the average prize over the simulated finishes, in
+    // dollars; ties and duplicates split prizes there.
+    let expectedPayout: number | undefined;
+    let roi: number | undefined;
+    if (contest && simulatedScores) {
+        const payouts = simulateLineupPayouts(contest, simulatedScores);
+        expectedPayout = payouts.reduce((sum, p) => sum + p, 0) / payouts.length;
+        roi = (expectedPayout - contest.structure.entryFee) / contest.structure.entryFee * 100;
+    }
 
 
     // --- Other Lineup Metrics ---
@@ -83,7 +108,37 @@ export function calculateLineupStats(
         leverageScore,
         stackType,
         roiScore,
-        expectedValue,
+        upsideScore,
+        ...(expectedPayout !== undefined && { expectedPayout }),
+        ...(roi !== undefined && { roi }),
         duplicationRisk,
+        duplicationProxy,
+        ...(simulatedDuplication && { simulatedDuplication }),
+        ...(scoreDistribution && { scoreDistribution }),
     };
+}
+
+/**
+ * Prices a finished build in dollars: simulates the slate and the contest's opponent field, then
+ * recomputes every lineup's stats against them.
+ * @param players The full slate; the field may use players this build excluded.
+ * @param seed Seeds both the game simulation and the field, so the same build prices the same way.
+ */
+export function evaluateContestEv(
+    lineups: Lineup[],
+    players: Player[],
+    contestStructure: ContestStructure,
+    optimizationTarget: OptimizationTarget,
+    seed: number,
+    contestRuleset: ContestRuleset = DEFAULT_CONTEST_RULESET,
+    salaryCap: number = contestRuleset.salaryCap,
+    simulations: number = CONTEST_EV_SIMULATIONS
+): Lineup[] {
+    if (lineups.length === 0) return lineups;
+    const simulation = simulateGames(players, simulations, seed, getRulesetScoringSystem(contestRuleset));
+    const contest = createContestSimulation(players, simulation, contestStructure, seed, contestRuleset, salaryCap);
+    return lineups.map(lineup => ({
+        ...lineup,
+        ...calculateLineupStats(lineup.mvp, lineup.flex, optimizationTarget, contestRuleset, simulation, contest),
+    }));
 }
\ No newline at end of file
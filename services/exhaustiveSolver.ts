@@ -0,0 +1,302 @@
+import { Player } from '../types';
+import { getTargetFpts, getExposureSlotConstraints, perturbProjections } from './optimizer';
+import { lineupSatisfiesConditionalRule } from './conditionalRules';
+import { getMvpSalary } from './contestRulesets';
+import { getPairBonus } from './correlationService';
+import { createSeededRandom } from './random';
+import type { LineupSolver, LineupSolverRequest, SolvedLineup } from './lineupSolver';
+import { RECEIVER_POSITIONS } from './lineupSolver';
+
+interface ScoredLineup extends SolvedLineup {
+    score: number;
+}
+
+interface Enumeration {
+    candidates: ScoredLineup[]; // Best first
+    complete: boolean; // True when every feasible lineup is in `candidates`
+}
+
+// Lineups already picked for the build, shared across enumeration rounds.
+interface PickState {
+    picked: SolvedLineup[];
+    mvpCounts: Map<string, number>;
+    flexCounts: Map<string, number>;
+}
+
+// Fixed-capacity min-heap on score, so the weakest kept lineup is always at the root.
+class TopLineups {
+    private items: ScoredLineup[] = [];
+
+    constructor(private capacity: number) {}
+
+    get isFull() { return this.items.length >= this.capacity; }
+    get minScore() { return this.items.length > 0 ? this.items[0].score : -Infinity; }
+
+    offer(item: ScoredLineup) {
+        if (!this.isFull) {
+            this.items.push(item);
+            this.siftUp(this.items.length - 1);
+        } else if (item.score > this.items[0].score) {
+            this.items[0] = item;
+            this.siftDown(0);
+        }
+    }
+
+    sorted(): ScoredLineup[] {
+        return [...this.items].sort((a, b) => b.score - a.score);
+    }
+
+    private siftUp(i: number) {
+        while (i > 0) {
+            const parent = (i - 1) >> 1;
+            if (this.items[parent].score <= this.items[i].score) return;
+            [this.items[parent], this.items[i]] = [this.items[i], this.items[parent]];
+            i = parent;
+        }
+    }
+
+    private siftDown(i: number) {
+        const n = this.items.length;
+        while (true) {
+            const left = 2 * i + 1;
+            const right = left + 1;
+            let smallest = i;
+            if (left < n && this.items[left].score < this.items[smallest].score) smallest = left;
+            if (right < n && this.items[right].score < this.items[smallest].score) smallest = right;
+            if (smallest === i) return;
+            [this.items[smallest], this.items[i]] = [this.items[i], this.items[smallest]];
+            i = smallest;
+        }
+    }
+}
+
+// Rules that can only be judged on a full lineup: locks, QB stacking, bring-backs and conditional rules.
+function satisfiesLineupRules(mvp: Player, flex: Player[], request: LineupSolverRequest, lockedIds: string[]): boolean {
+    const lineup = [mvp, ...flex];
+    if (!lockedIds.every(id => lineup.some(p => p.id === id))) return false;
+
+    const { stackingRules } = request;
+    for (const qb of lineup) {
+        if (qb.position !== 'QB') continue;
+        if (stackingRules.stackQbWithReceiver
+            && !lineup.some(p => p.id !== qb.id && p.team === qb.team && RECEIVER_POSITIONS.includes(p.position))) {
+            return false;
+        }
+        if (stackingRules.forceOpponentBringBack && !lineup.some(p => p.team === qb.opponent)) {
+            return false;
+        }
+    }
+
+    return (stackingRules.conditionalRules || []).every(rule => lineupSatisfiesConditionalRule(mvp, flex, rule));
+}
+
+/**
+ * Enumerates every legal MVP + FLEX combination with branch and bound, keeping the best `capacity`.
+ * FLEX candidates are visited in descending order of an optimistic score (own points, MVP pair bonus
+ * and the best pair bonuses they could add), so once the remaining optimistic total cannot beat the
+ * weakest kept lineup the rest of that branch is skipped.
+ */
+function enumerateTopLineups(players: Player[], request: LineupSolverRequest, lockedIds: string[], capacity: number): Enumeration {
+    const { contestRuleset, rosterRules, stackingRules, optimizationTarget, correlationObjective, salaryCap } = request;
+    const pool = players.filter(p => !request.excludedIds.has(p.id)
+        && (rosterRules.allowKicker || p.position !== 'K')
+        && (rosterRules.allowDefense || p.position !== 'D'));
+    const n = pool.length;
+    const flexSlots = contestRuleset.rosterSize - 1;
+    const teamCap = rosterRules.requireBothTeams
+        ? Math.min(contestRuleset.maxPlayersPerTeam, contestRuleset.rosterSize - 1)
+        : contestRuleset.maxPlayersPerTeam;
+    const positionCaps = stackingRules.maxFromPosition || {};
+
+    const scores = pool.map(p => getTargetFpts(p, optimizationTarget));
+    const useCorrelation = correlationObjective.enabled && correlationObjective.weight !== 0;
+    const bonus: number[][] = pool.map(() => new Array(n).fill(0));
+    if (useCorrelation) {
+        for (let i = 0; i < n; i++) {
+            for (let j = i + 1; j < n; j++) {
+                bonus[i][j] = bonus[j][i] = getPairBonus(pool[i], pool[j], scores[i], scores[j], correlationObjective.weight);
+            }
+        }
+    }
+    // Each FLEX-FLEX pair is credited to whichever player is added second, so a player can add at most
+    // the sum of its (flexSlots - 1) largest positive bonuses.
+    const pairHeadroom = bonus.map(row => row
+        .filter(b => b > 0)
+        .sort((a, b) => b - a)
+        .slice(0, flexSlots - 1)
+        .reduce((sum, b) => sum + b, 0));
+
+    const top = new TopLineups(capacity);
+    const mvpOrder = pool.map((_, i) => i).sort((a, b) => scores[b] - scores[a]);
+
+    for (const m of mvpOrder) {
+        const mvp = pool[m];
+        const mvpSalary = getMvpSalary(mvp, contestRuleset);
+        if (mvpSalary > salaryCap || (positionCaps[mvp.position] ?? Infinity) < 1) continue;
+
+        // The MVP earns its points once through p and (multiplier - 1) times through m; pairs with the MVP likewise.
+        const mvpScore = scores[m] * contestRuleset.mvpMultiplier;
+        const candidates = pool
+            .map((_, j) => j)
+            .filter(j => j !== m)
+            .map(j => ({ j, optimistic: scores[j] + bonus[m][j] * contestRuleset.mvpMultiplier + pairHeadroom[j] }))
+            .sort((a, b) => b.optimistic - a.optimistic);
+        const order = candidates.map(c => c.j);
+        const optimistic = candidates.map(c => c.optimistic);
+        const salaries = order.map(j => pool[j].salary);
+        const c = order.length;
+
+        // bestSum[r][k]: the largest optimistic total of r candidates from position k on (the next r, as sorted).
+        // minSalary[r][k]: the cheapest r candidates from position k on.
+        const bestSum: number[][] = [];
+        const minSalary: number[][] = [];
+        for (let r = 0; r <= flexSlots; r++) {
+            bestSum.push(new Array(c + 1).fill(-Infinity));
+            minSalary.push(new Array(c + 1).fill(Infinity));
+            for (let k = c; k >= 0; k--) {
+                if (r === 0) {
+                    bestSum[r][k] = 0;
+                    minSalary[r][k] = 0;
+                } else if (k < c) {
+                    bestSum[r][k] = optimistic[k] + bestSum[r - 1][k + 1];
+                    minSalary[r][k] = Math.min(minSalary[r][k + 1], salaries[k] + minSalary[r - 1][k + 1]);
+                }
+            }
+        }
+
+        const teamCounts = new Map<string, number>([[mvp.team, 1]]);
+        const positionCounts = new Map<string, number>([[mvp.position, 1]]);
+        const chosen: number[] = [];
+
+        const search = (start: number, score: number, salary: number) => {
+            const remaining = flexSlots - chosen.length;
+            if (remaining === 0) {
+                const flex = chosen.map(j => pool[j]);
+                if (satisfiesLineupRules(mvp, flex, request, lockedIds)) {
+                    top.offer({ mvpId: mvp.id, flexIds: flex.map(p => p.id), score });
+                }
+                return;
+            }
+
+            for (let k = start; k <= c - remaining; k++) {
+                if (top.isFull && score + bestSum[remaining][k] <= top.minScore) break;
+                if (salary + minSalary[remaining][k] > salaryCap) break;
+
+                const j = order[k];
+                const player = pool[j];
+                if (salary + player.salary + minSalary[remaining - 1][k + 1] > salaryCap) continue;
+                const teamCount = teamCounts.get(player.team) || 0;
+                if (teamCount >= teamCap) continue;
+                const positionCount = positionCounts.get(player.position) || 0;
+                if (positionCount >= (positionCaps[player.position] ?? Infinity)) continue;
+
+                let added = scores[j] + bonus[m][j] * contestRuleset.mvpMultiplier;
+                chosen.forEach(f => { added += bonus[f][j]; });
+
+                teamCounts.set(player.team, teamCount + 1);
+                positionCounts.set(player.position, positionCount + 1);
+                chosen.push(j);
+                search(k + 1, score + added, salary + player.salary);
+                chosen.pop();
+                teamCounts.set(player.team, teamCount);
+                positionCounts.set(player.position, positionCount);
+            }
+        };
+
+        if (teamCap >= 1) search(0, mvpScore, mvpSalary);
+    }
+
+    return { candidates: top.sorted(), complete: !top.isFull };
+}
+
+/**
+ * Greedily takes candidates best first, applying the same per-lineup rules the MILP gets on each
+ * sequential solve: uniqueness against earlier picks and per-slot exposure locks/exclusions.
+ * Uniqueness and exposure exclusions only ever tighten, so a candidate that fails them is dropped for
+ * good; a candidate that only misses an exposure lock may still be picked for a later lineup.
+ * @returns True when `count` lineups were added.
+ */
+function pickLineups(candidates: ScoredLineup[], state: PickState, request: LineupSolverRequest, count: number): boolean {
+    const { uniquenessRules, contestRuleset, exposureTargets, numberOfLineups } = request;
+    const rosterSize = contestRuleset.rosterSize;
+    const maxOverlap = rosterSize - Math.max(1, Math.min(rosterSize, uniquenessRules.minUniquePlayers));
+    const dropped = new Set<number>();
+
+    const overlap = (a: SolvedLineup, prior: SolvedLineup) => {
+        const ids = new Set([a.mvpId, ...a.flexIds]);
+        const mvpOverlap = uniquenessRules.mvpSwapCountsAsUnique ? a.mvpId === prior.mvpId : ids.has(prior.mvpId);
+        return (mvpOverlap ? 1 : 0) + prior.flexIds.filter(id => ids.has(id)).length;
+    };
+
+    for (let added = 0; added < count; added++) {
+        const slots = getExposureSlotConstraints(exposureTargets, state.mvpCounts, state.flexCounts, state.picked.length, numberOfLineups);
+        const next = candidates.findIndex((candidate, idx) => {
+            if (dropped.has(idx)) return false;
+            if (slots.mvpExcludedIds.has(candidate.mvpId)
+                || candidate.flexIds.some(id => slots.flexExcludedIds.has(id))
+                || state.picked.some(prior => overlap(candidate, prior) > maxOverlap)) {
+                dropped.add(idx);
+                return false;
+            }
+            return [...slots.mvpLockedIds].every(id => id === candidate.mvpId)
+                && [...slots.flexLockedIds].every(id => candidate.flexIds.includes(id));
+        });
+        if (next === -1) return false;
+
+        const { mvpId, flexIds } = candidates[next];
+        dropped.add(next);
+        state.picked.push({ mvpId, flexIds });
+        state.mvpCounts.set(mvpId, (state.mvpCounts.get(mvpId) || 0) + 1);
+        flexIds.forEach(id => state.flexCounts.set(id, (state.flexCounts.get(id) || 0) + 1));
+    }
+    return true;
+}
+
+/**
+ * Picks `count` more lineups from one projection set. A pick made from the top M candidates is also the
+ * best over all lineups, so a stall only means M was too small: grow it and enumerate again.
+ */
+function extendFromProjections(players: Player[], state: PickState, request: LineupSolverRequest, lockedIds: string[], count: number): boolean {
+    const target = state.picked.length + count;
+    let capacity = Math.max(16, target * 4);
+    while (state.picked.length < target) {
+        const { candidates, complete } = enumerateTopLineups(players, request, lockedIds, capacity);
+        if (pickLineups(candidates, state, request, target - state.picked.length)) return true;
+        if (complete) return false;
+        capacity *= 4;
+    }
+    return true;
+}
+
+/**
+ * Pure-TypeScript backend that enumerates the Showdown lineup space directly instead of calling the MILP.
+ * Without randomness it scores the pool once and takes the top N distinct lineups in a single pass; with
+ * randomness it re-enumerates against each lineup's perturbed projections, drawing in the same order
+ * as the GLPK backend so a seed produces the same projections on either engine.
+ */
+export const exhaustiveLineupSolver: LineupSolver = {
+    id: 'EXHAUSTIVE',
+    name: 'Exhaustive (native)',
+    async generateLineups(request) {
+        const { players, numberOfLineups, randomness } = request;
+        const state: PickState = { picked: [], mvpCounts: new Map(), flexCounts: new Map() };
+
+        // Locks on excluded players are ignored, as in the MILP; a lock on a disabled K/D makes the build infeasible.
+        const poolIds = new Set(players.map(p => p.id));
+        const lockedIds = request.lockedPlayers
+            .map(p => p.id)
+            .filter(id => poolIds.has(id) && !request.excludedIds.has(id));
+
+        if (randomness && randomness.level > 0) {
+            const random = createSeededRandom(randomness.seed);
+            for (let i = 0; i < numberOfLineups; i++) {
+                const solvePlayers = perturbProjections(players, random, randomness.level);
+                if (!extendFromProjections(solvePlayers, state, request, lockedIds, 1)) break;
+            }
+        } else {
+            extendFromProjections(players, state, request, lockedIds, numberOfLineups);
+        }
+
+        return state.picked;
+    },
+};
@@ -1,28 +1,7 @@
-import { HistoricalGame, StatWeights } from '../types';
+import { HistoricalGame } from '../types';
 import { generateContent } from './aiModelService';
 import { Type } from '@google/genai';
-
-// Standard FanDuel scoring rules
-const FANDUEL_WEIGHTS: StatWeights = {
-    passYds: 0.04, passTds: 4, interceptions: -1,
-    rushYds: 0.1, rushTds: 6,
-    receptions: 0.5, recYds: 0.1, recTds: 6,
-    fumblesLost: -2,
-};
-
-function calculateActualFdp(stats: HistoricalGame['players'][0]['stats']): number {
-    let score = 0;
-    if (stats.passYds) score += stats.passYds * FANDUEL_WEIGHTS.passYds;
-    if (stats.passTds) score += stats.passTds * FANDUEL_WEIGHTS.passTds;
-    if (stats.interceptions) score += stats.interceptions * FANDUEL_WEIGHTS.interceptions;
-    if (stats.rushYds) score += stats.rushYds * FANDUEL_WEIGHTS.rushYds;
-    if (stats.rushTds) score += stats.rushTds * FANDUEL_WEIGHTS.rushTds;
-    if (stats.receptions) score += stats.receptions * FANDUEL_WEIGHTS.receptions;
-    if (stats.recYds) score += stats.recYds * FANDUEL_WEIGHTS.recYds;
-    if (stats.recTds) score += stats.recTds * FANDUEL_WEIGHTS.recTds;
-    if (stats.fumblesLost) score += stats.fumblesLost * FANDUEL_WEIGHTS.fumblesLost;
-    return score;
-}
+import { FANDUEL_SCORING, scoreStatLine } from './scoringSystems';
 
 /**
  * Simulates a backend process that scrapes nfl.com gamebooks and other sources for a given historical game.
@@ -62,7 +41,7 @@ export async function simulateGameDataScraping(gameId: string, description: stri
             - "strengthOfSchedule", "weatherFactor", "homeFieldAdvantageScore": Game-level situational factors.
         - "players": An array of player objects. Each object must contain:
             - "name", "team", "position", "archetype".
-            - "stats": Object containing all non-zero basic offensive stats.
+            - "stats": Object containing all non-zero box-score stats: offensive stats including 2-point conversions and return touchdowns, field goals made by distance (0-39, 40-49, 50+) and extra points for kickers, and sacks, takeaways, defensive touchdowns, safeties, blocked kicks and points allowed for defenses.
             - "advancedStats": Object containing all non-zero advanced player metrics.
 
         Respond with ONLY the JSON object. Do not include any commentary or markdown formatting.
@@ -138,7 +117,13 @@ export async function simulateGameDataScraping(gameId: string, description: stri
                                 passYds: { type: Type.NUMBER }, passTds: { type: Type.NUMBER }, interceptions: { type: Type.NUMBER },
                                 rushYds: { type: Type.NUMBER }, rushTds: { type: Type.NUMBER },
                                 receptions: { type: Type.NUMBER }, recYds: { type: Type.NUMBER }, recTds: { type: Type.NUMBER },
-                                fumblesLost: { type: Type.NUMBER },
+                                fumblesLost: { type: Type.NUMBER }, twoPtConversions: { type: Type.NUMBER },
+                                fumbleReturnTds: { type: Type.NUMBER }, returnTds: { type: Type.NUMBER },
+                                fg0to39: { type: Type.NUMBER }, fg40to49: { type: Type.NUMBER }, fg50Plus: { type: Type.NUMBER },
+                                extraPoints: { type: Type.NUMBER },
+                                sacks: { type: Type.NUMBER }, defInterceptions: { type: Type.NUMBER }, fumbleRecoveries: { type: Type.NUMBER },
+                                defTds: { type: Type.NUMBER }, safeties: { type: Type.NUMBER }, blockedKicks: { type: Type.NUMBER },
+                                pointsAllowed: { type: Type.NUMBER },
                             }
                         },
                         advancedStats: advancedPlayerStatsSchema,
@@ -156,7 +141,7 @@ export async function simulateGameDataScraping(gameId: string, description: stri
         
         const playersWithFdp = parsedData.players.map(player => ({
             ...player,
-            actualFdp: calculateActualFdp(player.stats)
+            actualFdp: scoreStatLine(player.stats, FANDUEL_SCORING)
         }));
 
         return { ...parsedData, players: playersWithFdp };
@@ -1,20 +1,26 @@
-import { StatWeights, TunedModel, ModelDiscoveryReport, HistoricalGame, ValidationReport, SimulationParams, CalibrationReport } from '../types';
+import { StatWeights, TunedModel, ModelDiscoveryReport, HistoricalGame, ValidationReport, ValidationFold, SimulationParams, CalibrationReport, RegularizationMethod, QuantileModel, SegmentModel, PositionGroup } from '../types';
 import { simulateGameDataScraping } from './gameSimulatorService';
 import { discoverOptimalModel } from './modelDiscoveryService';
 import { modelStore } from './modelStore';
 import { MultivariateLinearRegression } from 'ml-regression';
 import { getHistoricalGamesToSimulate } from './historicalDataVaultService';
+import { createWalkForwardFolds, formatWeekIndex } from './walkForwardService';
+import { fitRegularizedRegression } from './regularizedRegression';
+import { MIN_SEGMENT_ROWS, getPositionGroup, getSegmentKey, isStatLineGroup, normalizeArchetype, resolveSegmentModel } from './modelSetService';
 import { generateContent } from './aiModelService';
 import { Type } from '@google/genai';
-import { generateCalibrationReport } from './calibrationService';
+import { generateCalibrationReport, compareCalibrationReports, PredictionPoint } from './calibrationService';
+import { fitQuantileModel, getQuantileMultipliers } from './quantileService';
+import { FANDUEL_SCORING } from './scoringSystems';
 
 const HISTORICAL_GAMES_TO_SIMULATE = getHistoricalGamesToSimulate();
 
+const { points: FD } = FANDUEL_SCORING;
 export const INITIAL_WEIGHTS: StatWeights = {
-    passYds: 0.04, passTds: 4, interceptions: -1,
-    rushYds: 0.1, rushTds: 6,
-    receptions: 0.5, recYds: 0.1, recTds: 6,
-    fumblesLost: -2,
+    passYds: FD.passYds, passTds: FD.passTds, interceptions: FD.interceptions,
+    rushYds: FD.rushYds, rushTds: FD.rushTds,
+    receptions: FD.receptions, recYds: FD.recYds, recTds: FD.recTds,
+    fumblesLost: FD.fumblesLost,
     airYards: 0, redZoneTouches: 0, targetShare: 0, rushAttemptShare: 0,
     yardsPerRouteRun: 0, aDOT: 0, yardsAfterCatch: 0, routesRun: 0, avoidedTackles: 0,
     yardsCreatedPerTouch: 0, playActionPassRate: 0, timeToThrow: 0, cleanPocketCompletion: 0,
@@ -28,8 +34,11 @@ export const INITIAL_WEIGHTS: StatWeights = {
 
 const ALL_STAT_WEIGHT_KEYS = Object.keys(INITIAL_WEIGHTS) as (keyof StatWeights)[];
 
-function calculatePredictedFdp(player: HistoricalGame['players'][0], weights: StatWeights, game: HistoricalGame): number {
-    let score = 0;
+// Starting point for models whose fit sets every weight it uses.
+const ZERO_WEIGHTS = Object.fromEntries(ALL_STAT_WEIGHT_KEYS.map(key => [key, 0])) as unknown as StatWeights;
+
+function calculatePredictedFdp(player: HistoricalGame['players'][0], weights: StatWeights, game: HistoricalGame, intercept: number = 0): number {
+    let score = intercept;
     const { team, stats, advancedStats, matchupAdvantageScore } = player;
     const opponentAbbr = Object.keys(game.pregameContext.teamDna || {}).find(t => t !== team);
 
@@ -66,6 +75,11 @@ function calculatePredictedFdp(player: HistoricalGame['players'][0], weights: St
     return score * (matchupAdvantageScore || 1.0);
 }
 
+/**
+ * Scores each player's matchup from pregame inputs only: their archetype and the opposing defensive scheme.
+ * No box score, fantasy points or result is sent, so scoring every game in one pass before the folds are
+ * built cannot carry a validation game's outcome into a training fold.
+ */
 async function analyzeMatchupImpact(games: HistoricalGame[]): Promise<Map<string, HistoricalGame>> {
     const enrichedGamesMap = new Map<string, HistoricalGame>(games.map(g => [g.gameId, JSON.parse(JSON.stringify(g))]));
     const allPlayers = games.flatMap(g => {
@@ -138,6 +152,11 @@ async function analyzeMatchupImpact(games: HistoricalGame[]): Promise<Map<string
     return enrichedGamesMap;
 }
 
+/**
+ * Discovers candidate models and validates them walk-forward: each fold trains only on weeks before its
+ * validation block, with an embargo gap between the two, and every fold's MAE and calibration is reported
+ * separately. The returned models are the final fold's, fit on the longest training window.
+ */
 export async function runFullSimulation(
     params: SimulationParams,
     onProgress: (message: string, percentage: number) => void
@@ -145,30 +164,17 @@ export async function runFullSimulation(
     const totalGames = HISTORICAL_GAMES_TO_SIMULATE.length;
     if (totalGames < 4) throw new Error("A minimum of 4 historical games are required.");
 
-    onProgress("Splitting data into training/validation sets...", 5);
-    
-    const createSeededRandom = (seed: number) => {
-        let state = seed;
-        return () => {
-            state = (state * 9301 + 49297) % 233280;
-            return state / 233280;
-        };
-    };
-    const REPRODUCIBLE_SEED = 1337;
-    const random = createSeededRandom(REPRODUCIBLE_SEED);
-    const shuffledGames = [...HISTORICAL_GAMES_TO_SIMULATE].sort(() => 0.5 - random());
-
-    const trainingSetSize = Math.floor(totalGames * (params.trainValidateSplit / 100));
-    const validationSize = totalGames - trainingSetSize;
+    onProgress("Building walk-forward folds...", 5);
+    const folds = createWalkForwardFolds(HISTORICAL_GAMES_TO_SIMULATE, params.trainValidateSplit, params.folds, params.embargoWeeks);
+    if (folds.length === 0) throw new Error("No walk-forward folds could be built. Lower the embargo or the initial training window.");
+    if (folds.some(fold => fold.validationGames.length < 2)) throw new Error("Each fold requires at least 2 validation games. Please use fewer folds or a smaller initial training window.");
 
-    if (validationSize < 2) throw new Error("Simulation requires at least 2 validation games. Please adjust the train/validate split.");
-
-    const trainingGamesInfo = shuffledGames.slice(validationSize);
-    const validationGamesInfo = shuffledGames.slice(0, validationSize);
+    // Embargoed games that no later fold trains on are never used, so they are not fetched.
+    const usedGameIds = new Set(folds.flatMap(fold => [...fold.trainingGames, ...fold.validationGames]).map(g => g.id));
+    const allGamesInfo = HISTORICAL_GAMES_TO_SIMULATE.filter(g => usedGameIds.has(g.id));
     let historicalGames: HistoricalGame[] = [];
 
     onProgress("Fetching and caching historical game data...", 10);
-    const allGamesInfo = [...trainingGamesInfo, ...validationGamesInfo];
     for (let i = 0; i < allGamesInfo.length; i++) {
         const gameInfo = allGamesInfo[i];
         const percentage = 10 + Math.round((i / allGamesInfo.length) * 40);
@@ -182,47 +188,74 @@ export async function runFullSimulation(
         historicalGames.push(gameData);
     }
     
+    // Matchup scores use no outcome data (see analyzeMatchupImpact), so one pass serves every fold.
     onProgress("Analyzing player vs. defense matchups...", 50);
     const enrichedGamesMap = await analyzeMatchupImpact(historicalGames);
 
-    const trainingGames = trainingGamesInfo.map(info => enrichedGamesMap.get(info.id)!);
-    const validationGames = validationGamesInfo.map(info => enrichedGamesMap.get(info.id)!);
-
-    onProgress("Discovering predictive models from training data...", 55);
-    const discoveryReports: ModelDiscoveryReport[] = [];
-    for (let i = 0; i < trainingGames.length; i++) {
-        const gameData = trainingGames[i];
-        if(!gameData) continue;
-        const percentage = 60 + Math.round((i / trainingGames.length) * 20);
-        try {
-            onProgress(`Reverse-engineering model for: ${gameData.description}...`, percentage);
-            await new Promise(res => setTimeout(res, 1500));
-            const report = await discoverOptimalModel(gameData);
-            discoveryReports.push(report);
-        } catch (error) {
-            onProgress(`Error processing ${gameData.description}. Skipping.`, percentage);
-            console.error(error);
+    // Training windows only grow, so each game is reverse-engineered once and reused by every later fold.
+    const discoveryReports = new Map<string, ModelDiscoveryReport | null>();
+    const foldResults: ValidationFold[] = [];
+    let finalModels: TunedModel[] = [];
+    let finalTrainingSetSize = 0;
+
+    for (let f = 0; f < folds.length; f++) {
+        const fold = folds[f];
+        const foldLabel = `Fold ${f + 1}/${folds.length}`;
+        const foldStart = 55 + Math.round((f / folds.length) * 40);
+        const foldSpan = 40 / folds.length;
+        const trainingGames = fold.trainingGames.map(info => enrichedGamesMap.get(info.id)!).filter(Boolean);
+        const validationGames = fold.validationGames.map(info => enrichedGamesMap.get(info.id)!).filter(Boolean);
+
+        const undiscovered = trainingGames.filter(game => !discoveryReports.has(game.gameId));
+        for (let i = 0; i < undiscovered.length; i++) {
+            const gameData = undiscovered[i];
+            const percentage = foldStart + Math.round((i / undiscovered.length) * foldSpan * 0.8);
+            try {
+                onProgress(`${foldLabel}: reverse-engineering model for: ${gameData.description}...`, percentage);
+                await new Promise(res => setTimeout(res, 1500));
+                discoveryReports.set(gameData.gameId, await discoverOptimalModel(gameData));
+            } catch (error) {
+                onProgress(`${foldLabel}: error processing ${gameData.description}. Skipping.`, percentage);
+                console.error(error);
+                discoveryReports.set(gameData.gameId, null);
+            }
         }
-    }
-    
-    if (discoveryReports.length === 0) throw new Error("Failed to discover any models from training data.");
-    
-    onProgress("Creating candidate models...", 85);
-    const candidateModels = createCandidateModels(discoveryReports, trainingGames, params);
 
-    onProgress("Validating models against unseen historical data...", 90);
-    const validatedModels = validateModels(candidateModels, validationGames);
+        const reports = trainingGames.map(game => discoveryReports.get(game.gameId)).filter((r): r is ModelDiscoveryReport => !!r);
+        if (reports.length === 0) throw new Error(`Failed to discover any models from ${foldLabel}'s training data.`);
+
+        onProgress(`${foldLabel}: creating candidate models...`, Math.round(foldStart + foldSpan * 0.8));
+        const quantileModel = fitQuantileModel(trainingGames);
+        const candidateModels = createCandidateModels(reports, trainingGames, params, quantileModel);
+
+        onProgress(`${foldLabel}: validating models against later, unseen games...`, Math.round(foldStart + foldSpan * 0.9));
+        const validatedModels = validateModels(candidateModels, validationGames, quantileModel);
+
+        foldResults.push({
+            index: f + 1,
+            trainingWeeks: [formatWeekIndex(fold.trainingWeeks[0]), formatWeekIndex(fold.trainingWeeks[1])],
+            validationWeeks: [formatWeekIndex(fold.validationWeeks[0]), formatWeekIndex(fold.validationWeeks[1])],
+            trainingSetSize: trainingGames.length,
+            validationSetSize: validationGames.length,
+            embargoedGames: fold.embargoedGames.length,
+            models: validatedModels.map(m => ({ name: m.name, calibration: m.performance.calibration! })),
+        });
+        finalModels = validatedModels;
+        finalTrainingSetSize = trainingGames.length;
+    }
 
     onProgress("Simulation and validation complete!", 100);
 
     return {
-        trainingSetSize: trainingGames.length,
-        validationSetSize: validationGames.length,
-        models: validatedModels.sort((a, b) => (a.performance.calibration?.mae ?? Infinity) - (b.performance.calibration?.mae ?? Infinity)),
+        trainingSetSize: finalTrainingSetSize,
+        validationSetSize: foldResults.reduce((sum, fold) => sum + fold.validationSetSize, 0),
+        embargoWeeks: params.embargoWeeks,
+        folds: foldResults,
+        models: finalModels.sort((a, b) => compareCalibrationReports(a.performance.calibration, b.performance.calibration)),
     };
 }
 
-function createCandidateModels(reports: ModelDiscoveryReport[], trainingGames: HistoricalGame[], params: SimulationParams): TunedModel[] {
+function createCandidateModels(reports: ModelDiscoveryReport[], trainingGames: HistoricalGame[], params: SimulationParams, quantileModel: QuantileModel): TunedModel[] {
     const models: TunedModel[] = [];
     const rawWeightKeys = ['passYds', 'passTds', 'interceptions', 'rushYds', 'rushTds', 'receptions', 'recYds', 'recTds', 'fumblesLost'] as const;
 
@@ -245,6 +278,45 @@ function createCandidateModels(reports: ModelDiscoveryReport[], trainingGames: H
         }
     } catch(e) { console.error("Failed to create Sabermetric Synthesis Model:", e); }
 
+    // The sabermetrics are heavily collinear, so plain least squares swings wildly on small training sets.
+    // Penalized fits on standardized features keep the weights in check, with the penalty chosen by inner CV.
+    const regularizedNames: Record<RegularizationMethod, string> = { ridge: 'Ridge Sabermetric Model', lasso: 'Lasso Sabermetric Model' };
+    (['ridge', 'lasso'] as RegularizationMethod[]).forEach(method => {
+        try {
+            const { X, y, gameIds } = buildFeatureMatrix(trainingGames, sabermetricWeightKeys);
+            if (X.length > sabermetricWeightKeys.length) {
+                const fit = fitRegularizedRegression(X, y, sabermetricWeightKeys, method, gameIds, params.embargoWeeks);
+                const weights = buildWeightsFromCoefficients(ZERO_WEIGHTS, [fit.coefficients], sabermetricWeightKeys);
+                models.push({
+                    name: regularizedNames[method],
+                    weights,
+                    intercept: fit.intercept,
+                    performance: { mae: 0, regularization: fit.report },
+                    sourceDescription: `${method === 'ridge' ? 'Ridge' : 'Lasso'} regression on standardized sabermetrics from ${y.length} players (lambda ${fit.report.lambda.toPrecision(3)}, ${fit.report.nonZeroFeatures.length} features).`,
+                } as TunedModel);
+            }
+        } catch(e) { console.error(`Failed to create ${regularizedNames[method]}:`, e); }
+    });
+
+    // Position groups score in different ways, so one model per skill-position group (and per archetype within
+    // it, where there is enough data) replaces a single compromise. Thin segments fall back to a ridge fit on everyone.
+    try {
+        const { X, y, gameIds } = buildFeatureMatrix(trainingGames, sabermetricWeightKeys);
+        if (X.length > sabermetricWeightKeys.length) {
+            const global = fitRegularizedRegression(X, y, sabermetricWeightKeys, 'ridge', gameIds, params.embargoWeeks);
+            const segments = fitSegmentModels(trainingGames, sabermetricWeightKeys, params.embargoWeeks);
+            const archetypeSegments = segments.filter(s => s.archetype).length;
+            models.push({
+                name: 'Position & Archetype Model Set',
+                weights: buildWeightsFromCoefficients(ZERO_WEIGHTS, [global.coefficients], sabermetricWeightKeys),
+                intercept: global.intercept,
+                segments,
+                performance: { mae: 0, regularization: global.report },
+                sourceDescription: `Ridge models for ${segments.length - archetypeSegments} position groups and ${archetypeSegments} archetypes with at least ${MIN_SEGMENT_ROWS} players each; the rest use a global ridge fit on ${y.length} players.`,
+            } as TunedModel);
+        }
+    } catch(e) { console.error("Failed to create Position & Archetype Model Set:", e); }
+
     try {
         const { X, y, keys } = buildCorrelationFeatureMatrix(trainingGames, rawWeightKeys);
         if (X.length > keys.length) {
@@ -260,32 +332,50 @@ function createCandidateModels(reports: ModelDiscoveryReport[], trainingGames: H
     }
     
     if (models.length > 1) {
-        const trainingValidatedModels = validateModels(models, trainingGames);
+        const trainingValidatedModels = validateModels(models, trainingGames, quantileModel);
         const topModels = trainingValidatedModels
             .sort((a,b) => (a.performance.calibration?.mae ?? Infinity) - (b.performance.calibration?.mae ?? Infinity))
             .slice(0, params.topKEnsemble);
 
+        const segments = averageSegmentModels(topModels);
         models.push({
             name: `Ensemble Super Model (Top ${topModels.length})`,
             weights: averageWeights(topModels.map(m => m.weights)),
-            sourceDescription: `A synthesized model averaging the top ${topModels.length} candidates.`
+            intercept: topModels.reduce((sum, m) => sum + (m.intercept ?? 0), 0) / topModels.length,
+            segments,
+            sourceDescription: `A synthesized model averaging the top ${topModels.length} candidates${segments ? ` per player segment (${segments.length} segments)` : ''}.`
         } as TunedModel);
     }
 
-    return models.map(m => ({ ...m, id: `${m.name.replace(/\s/g, '_')}_${Date.now()}`, createdAt: new Date().toISOString(), performance: { mae: 0 } }));
+    return models.map(m => ({ ...m, id: `${m.name.replace(/\s/g, '_')}_${Date.now()}`, createdAt: new Date().toISOString(), performance: { mae: 0, regularization: m.performance?.regularization } }));
 }
 
-function validateModels(candidateModels: TunedModel[], validationGames: HistoricalGame[]): TunedModel[] {
+/**
+ * Scores models on games they were not fit to. Each prediction's spread comes from quantile multipliers
+ * fitted on the training games only, so the calibration metrics never see the validation outcomes.
+ */
+function validateModels(candidateModels: TunedModel[], validationGames: HistoricalGame[], quantileModel: QuantileModel): TunedModel[] {
     return candidateModels.map(model => {
-        const predictions: { predicted: number, actual: number }[] = [];
+        const predictions: PredictionPoint[] = [];
+        const segmentPredictions = new Map<string, PredictionPoint[]>();
         for (const game of validationGames) {
              if(!game) continue;
             for (const player of game.players) {
                 if (player.actualFdp > 0) {
-                    predictions.push({
-                        predicted: calculatePredictedFdp(player, model.weights, game),
+                    const { weights, intercept, segment } = resolveSegmentModel(model, player.position, player.archetype);
+                    const predicted = calculatePredictedFdp(player, weights, game, intercept);
+                    const multipliers = getQuantileMultipliers(quantileModel, player.position, player.salary);
+                    const point = {
+                        predicted,
                         actual: player.actualFdp,
-                    });
+                        floor: predicted * multipliers.p10,
+                        ceiling: predicted * multipliers.p90,
+                    };
+                    predictions.push(point);
+                    if (segment) {
+                        if (!segmentPredictions.has(segment.key)) segmentPredictions.set(segment.key, []);
+                        segmentPredictions.get(segment.key)!.push(point);
+                    }
                 }
             }
         }
@@ -293,27 +383,73 @@ function validateModels(candidateModels: TunedModel[], validationGames: Historic
         const calibration = generateCalibrationReport(predictions);
         return { 
             ...model, 
+            segments: model.segments?.map(segment => {
+                const points = segmentPredictions.get(segment.key);
+                return { ...segment, calibration: points ? generateCalibrationReport(points) : undefined };
+            }),
             performance: { 
                 ...model.performance, 
-                validationMae: calibration.mae, // For sorting backwards compatibility
+                validationMae: calibration.mae, // Still charted by the training dashboard and model selector
                 calibration 
             }
         };
     });
 }
 
-function buildFeatureMatrix(games: HistoricalGame[], keys: readonly (keyof StatWeights)[]) {
-    const X: number[][] = [], y: number[] = [];
+/**
+ * Fits a ridge model for each position group, and for each archetype within a group, that has at least
+ * MIN_SEGMENT_ROWS training players. Segments below that are left out, so resolveSegmentModel sends their
+ * players to the next broader model instead of one fit on a handful of games. Kickers and defenses are
+ * projected from their Vegas-derived stat lines rather than weights, so they get no segments.
+ */
+function fitSegmentModels(trainingGames: HistoricalGame[], keys: readonly (keyof StatWeights)[], embargoWeeks: number): SegmentModel[] {
+    const segmentFilters: { positionGroup: PositionGroup, archetype?: string }[] = [];
+    const seen = new Set<string>();
+    for (const game of trainingGames) {
+        for (const player of game?.players ?? []) {
+            const positionGroup = getPositionGroup(player.position);
+            if (!positionGroup || isStatLineGroup(positionGroup)) continue;
+            const archetype = normalizeArchetype(player.archetype);
+            for (const filter of archetype ? [{ positionGroup }, { positionGroup, archetype }] : [{ positionGroup }]) {
+                const key = getSegmentKey(filter.positionGroup, filter.archetype);
+                if (!seen.has(key)) { seen.add(key); segmentFilters.push(filter); }
+            }
+        }
+    }
+
+    const segments: SegmentModel[] = [];
+    for (const { positionGroup, archetype } of segmentFilters) {
+        const key = getSegmentKey(positionGroup, archetype);
+        try {
+            const { X, y, gameIds } = buildFeatureMatrix(trainingGames, keys, player =>
+                getPositionGroup(player.position) === positionGroup && (!archetype || normalizeArchetype(player.archetype) === archetype));
+            if (X.length < MIN_SEGMENT_ROWS) continue;
+            const fit = fitRegularizedRegression(X, y, keys, 'ridge', gameIds, embargoWeeks);
+            segments.push({
+                key,
+                positionGroup,
+                archetype,
+                weights: buildWeightsFromCoefficients(ZERO_WEIGHTS, [fit.coefficients], keys),
+                intercept: fit.intercept,
+                trainingRows: y.length,
+            });
+        } catch(e) { console.error(`Failed to fit the ${key} segment model:`, e); }
+    }
+    return segments;
+}
+
+function buildFeatureMatrix(games: HistoricalGame[], keys: readonly (keyof StatWeights)[], include: (player: HistoricalGame['players'][0]) => boolean = () => true) {
+    const X: number[][] = [], y: number[] = [], gameIds: string[] = [];
     for (const game of games) {
         if(!game) continue;
         for (const player of game.players) {
-            if (player.actualFdp > 0) {
+            if (player.actualFdp > 0 && include(player)) {
                 const features = keys.map(key => (player.stats as any)?.[key] ?? (player.advancedStats as any)?.[key] ?? (game.pregameContext.advancedTeamMetrics?.[player.team] as any)?.[key] ?? (game.pregameContext as any)?.[key] ?? 0);
-                if (features.some(f => f !== 0)) { X.push(features); y.push(player.actualFdp); }
+                if (features.some(f => f !== 0)) { X.push(features); y.push(player.actualFdp); gameIds.push(game.gameId); }
             }
         }
     }
-    return { X, y };
+    return { X, y, gameIds };
 }
 
 function buildCorrelationFeatureMatrix(games: HistoricalGame[], rawKeys: readonly (keyof StatWeights)[]) {
@@ -349,6 +485,33 @@ function buildWeightsFromCoefficients(base: StatWeights, coefficients: number[][
     return newWeights;
 }
 
+/**
+ * Builds the ensemble's segments: for every segment any member model has, each member is routed through
+ * resolveSegmentModel for that segment's players and the results are averaged. Members without the segment
+ * contribute the model they would actually project those players with.
+ * @returns The averaged segments, or undefined when no member has segments.
+ */
+function averageSegmentModels(members: TunedModel[]): SegmentModel[] | undefined {
+    const templates = new Map<string, SegmentModel>();
+    members.forEach(m => m.segments?.forEach(segment => {
+        const existing = templates.get(segment.key);
+        if (!existing || segment.trainingRows > existing.trainingRows) templates.set(segment.key, segment);
+    }));
+    if (templates.size === 0) return undefined;
+
+    return Array.from(templates.values()).map(({ key, positionGroup, archetype, trainingRows }) => {
+        const resolved = members.map(m => resolveSegmentModel(m, positionGroup, archetype));
+        return {
+            key,
+            positionGroup,
+            archetype,
+            weights: averageWeights(resolved.map(r => r.weights)),
+            intercept: resolved.reduce((sum, r) => sum + r.intercept, 0) / resolved.length,
+            trainingRows,
+        };
+    });
+}
+
 function averageWeights(weightsList: StatWeights[]): StatWeights {
     const avgWeights: { [k in keyof StatWeights]?: number } = {};
     for (const weights of weightsList) {
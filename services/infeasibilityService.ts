@@ -0,0 +1,200 @@
+import { ConstraintGroup, InfeasibilityReason, InfeasibilityReport, Player, RosterRules, StackingRules } from '../types';
+import { solveLineup, SlotConstraints } from './solverService';
+import { getExposureSlotConstraints } from './optimizer';
+import { describeConditionalRule } from './conditionalRules';
+import { getMvpSalary } from './contestRulesets';
+import type { LineupSolverRequest, SolvedLineup } from './lineupSolver';
+import { getSolvedLineupSignature } from './lineupSolver';
+
+const NO_STACKING_RULES: StackingRules = { stackQbWithReceiver: false, forceOpponentBringBack: false, maxFromPosition: {}, conditionalRules: [] };
+const RELAXED_ROSTER_RULES: RosterRules = { requireBothTeams: false, allowKicker: true, allowDefense: true };
+
+// Relaxed first to last, so the groups a user is most likely to change (locks, cap) are the ones kept in the explanation.
+const RELAXATION_ORDER: ConstraintGroup[] = ['UNIQUENESS', 'EXPOSURE', 'ROSTER_RULES', 'STACKING_RULES', 'EXCLUSIONS', 'SALARY_CAP', 'LOCKS'];
+
+const formatDollars = (amount: number) => `$${amount.toLocaleString()}`;
+const listNames = (players: Player[]) => players.map(p => p.name).join(', ');
+
+// Everything the next solve would have been constrained by, rebuilt from the lineups already returned.
+interface BuildState {
+    excludedSignatures: Set<string>;
+    slotConstraints: SlotConstraints;
+}
+
+function rebuildState(request: LineupSolverRequest, built: SolvedLineup[]): BuildState {
+    const mvpCounts = new Map<string, number>();
+    const flexCounts = new Map<string, number>();
+    built.forEach(lineup => {
+        mvpCounts.set(lineup.mvpId, (mvpCounts.get(lineup.mvpId) || 0) + 1);
+        lineup.flexIds.forEach(id => flexCounts.set(id, (flexCounts.get(id) || 0) + 1));
+    });
+    return {
+        excludedSignatures: new Set(built.map(getSolvedLineupSignature)),
+        slotConstraints: getExposureSlotConstraints(request.exposureTargets, mvpCounts, flexCounts, built.length, request.numberOfLineups),
+    };
+}
+
+// Groups that actually constrain this build; relaxing an inactive group cannot change the outcome.
+function getActiveGroups(request: LineupSolverRequest, built: SolvedLineup[], state: BuildState): ConstraintGroup[] {
+    const { stackingRules, rosterRules } = request;
+    const slots = state.slotConstraints;
+    const active: Record<ConstraintGroup, boolean> = {
+        PLAYER_POOL: false,
+        UNIQUENESS: built.length > 0,
+        EXPOSURE: slots.mvpLockedIds.size + slots.mvpExcludedIds.size + slots.flexLockedIds.size + slots.flexExcludedIds.size > 0,
+        ROSTER_RULES: rosterRules.requireBothTeams || !rosterRules.allowKicker || !rosterRules.allowDefense,
+        STACKING_RULES: stackingRules.stackQbWithReceiver
+            || stackingRules.forceOpponentBringBack
+            || Object.keys(stackingRules.maxFromPosition || {}).length > 0
+            || (stackingRules.conditionalRules || []).length > 0,
+        EXCLUSIONS: request.excludedIds.size > 0,
+        SALARY_CAP: true,
+        LOCKS: request.lockedPlayers.length > 0,
+    };
+    return RELAXATION_ORDER.filter(group => active[group]);
+}
+
+// Solves for feasibility only: the correlation objective is dropped since it cannot change whether a lineup exists.
+async function isFeasible(request: LineupSolverRequest, state: BuildState, enforced: Set<ConstraintGroup>): Promise<boolean> {
+    const relaxedCap = request.players.reduce((sum, p) => sum + getMvpSalary(p, request.contestRuleset), 0);
+    const solution = await solveLineup(
+        request.players,
+        enforced.has('LOCKS') ? request.lockedPlayers : [],
+        enforced.has('EXCLUSIONS') ? request.excludedIds : new Set(),
+        enforced.has('UNIQUENESS') ? state.excludedSignatures : new Set(),
+        enforced.has('SALARY_CAP') ? request.salaryCap : relaxedCap,
+        enforced.has('STACKING_RULES') ? request.stackingRules : NO_STACKING_RULES,
+        request.optimizationTarget,
+        {
+            slotConstraints: enforced.has('EXPOSURE') ? state.slotConstraints : undefined,
+            uniquenessRules: request.uniquenessRules,
+            rosterRules: enforced.has('ROSTER_RULES') ? request.rosterRules : RELAXED_ROSTER_RULES,
+            contestRuleset: request.contestRuleset,
+        }
+    );
+    return solution !== null;
+}
+
+function describeSalaryCap(request: LineupSolverRequest, includeLocks: boolean): string {
+    const { salaryCap, contestRuleset } = request;
+    if (!includeLocks) {
+        return `The ${formatDollars(salaryCap)} salary cap cannot be met together with the other constraints listed.`;
+    }
+
+    const locked = request.lockedPlayers.filter(p => !request.excludedIds.has(p.id));
+    const lockedSalary = locked.reduce((sum, p) => sum + p.salary, 0);
+    if (lockedSalary > salaryCap) {
+        return `Locked players cost ${formatDollars(lockedSalary)}, exceeding the salary cap by ${formatDollars(lockedSalary - salaryCap)}.`;
+    }
+
+    // Cheapest completion: fill the open spots with the cheapest available players and give the MVP slot
+    // to whichever rostered player carries the smallest MVP surcharge.
+    const lockedIds = new Set(locked.map(p => p.id));
+    const fillers = request.players
+        .filter(p => !lockedIds.has(p.id) && !request.excludedIds.has(p.id))
+        .sort((a, b) => a.salary - b.salary)
+        .slice(0, Math.max(0, contestRuleset.rosterSize - locked.length));
+    const cheapest = [...locked, ...fillers];
+    const surcharge = Math.min(...cheapest.map(p => getMvpSalary(p, contestRuleset) - p.salary));
+    const minimumSalary = cheapest.reduce((sum, p) => sum + p.salary, 0) + (cheapest.length > 0 ? surcharge : 0);
+    if (minimumSalary > salaryCap) {
+        return `The cheapest lineup around the locked players costs ${formatDollars(minimumSalary)}, exceeding the salary cap by ${formatDollars(minimumSalary - salaryCap)}.`;
+    }
+    return `Locked players (${formatDollars(lockedSalary)}) leave too little of the ${formatDollars(salaryCap)} cap for a lineup that meets the other constraints listed.`;
+}
+
+function describeGroup(group: ConstraintGroup, request: LineupSolverRequest, state: BuildState, iis: Set<ConstraintGroup>, lineupIndex: number): string {
+    const { contestRuleset, stackingRules, rosterRules } = request;
+    const playersById = new Map(request.players.map(p => [p.id, p]));
+    const namesFor = (ids: Set<string>) => listNames(Array.from(ids).map(id => playersById.get(id)).filter((p): p is Player => !!p));
+
+    switch (group) {
+        case 'LOCKS': {
+            const locked = request.lockedPlayers;
+            if (locked.length > contestRuleset.rosterSize) {
+                return `${locked.length} players are locked, but a lineup only has ${contestRuleset.rosterSize} spots.`;
+            }
+            return `Locked players: ${listNames(locked)}.`;
+        }
+        case 'SALARY_CAP':
+            return describeSalaryCap(request, iis.has('LOCKS'));
+        case 'STACKING_RULES': {
+            const rules = [
+                ...(stackingRules.stackQbWithReceiver ? ['QB must be stacked with a WR/TE'] : []),
+                ...(stackingRules.forceOpponentBringBack ? ['QB needs an opponent bring-back'] : []),
+                ...Object.entries(stackingRules.maxFromPosition || {}).map(([position, max]) => `at most ${max} ${position}`),
+                ...(stackingRules.conditionalRules || []).map(rule => describeConditionalRule(rule, request.players)),
+            ];
+            return `Stacking rules cannot all be met: ${rules.join('; ')}.`;
+        }
+        case 'EXPOSURE': {
+            const { mvpLockedIds, mvpExcludedIds, flexLockedIds, flexExcludedIds } = state.slotConstraints;
+            const parts = [
+                ...(mvpLockedIds.size > 0 ? [`${contestRuleset.mvpLabel} must be ${namesFor(mvpLockedIds)}`] : []),
+                ...(flexLockedIds.size > 0 ? [`FLEX must include ${namesFor(flexLockedIds)}`] : []),
+                ...(mvpExcludedIds.size > 0 ? [`${namesFor(mvpExcludedIds)} reached their ${contestRuleset.mvpLabel} max`] : []),
+                ...(flexExcludedIds.size > 0 ? [`${namesFor(flexExcludedIds)} reached their FLEX max`] : []),
+            ];
+            return `Exposure targets for lineup #${lineupIndex + 1}: ${parts.join('; ')}.`;
+        }
+        case 'EXCLUSIONS': {
+            const available = request.players.filter(p => !request.excludedIds.has(p.id)).length;
+            return `${request.excludedIds.size} excluded players leave only ${available} in the pool.`;
+        }
+        case 'ROSTER_RULES': {
+            const rules = [
+                ...(rosterRules.requireBothTeams ? ['both teams required'] : []),
+                ...(rosterRules.allowKicker ? [] : ['kickers disabled']),
+                ...(rosterRules.allowDefense ? [] : ['defenses disabled']),
+            ];
+            return `Roster rules cannot be met with this pool: ${rules.join(', ')}.`;
+        }
+        case 'UNIQUENESS':
+            return `No remaining lineup differs by at least ${request.uniquenessRules.minUniquePlayers} players from the ${lineupIndex} already built.`;
+        default:
+            return `Only ${request.players.length} players are available; a lineup needs ${contestRuleset.rosterSize}.`;
+    }
+}
+
+/**
+ * Explains why the next lineup could not be built. Starting from every active constraint group, each
+ * group is relaxed in turn and left relaxed if the problem stays infeasible without it (a deletion
+ * filter), which leaves a minimal set of groups that are infeasible together.
+ * @param request The request the backend was given.
+ * @param built The lineups it returned before stopping; they fix the uniqueness and exposure state.
+ * @returns A report, or null if the next lineup is actually feasible (e.g. the build was cut short elsewhere).
+ */
+export async function diagnoseInfeasibility(request: LineupSolverRequest, built: SolvedLineup[]): Promise<InfeasibilityReport | null> {
+    const lineupIndex = built.length;
+    const state = rebuildState(request, built);
+    if (request.players.length < request.contestRuleset.rosterSize) {
+        return { lineupIndex, reasons: [{ constraint: 'PLAYER_POOL', message: describeGroup('PLAYER_POOL', request, state, new Set(), lineupIndex) }] };
+    }
+
+    const enforced = new Set(getActiveGroups(request, built, state));
+    if (await isFeasible(request, state, enforced)) return null;
+
+    for (const group of RELAXATION_ORDER) {
+        if (!enforced.has(group)) continue;
+        enforced.delete(group);
+        if (await isFeasible(request, state, enforced)) {
+            enforced.add(group); // Needed for the conflict
+        }
+    }
+
+    const reasons: InfeasibilityReason[] = RELAXATION_ORDER
+        .slice()
+        .reverse()
+        .filter(group => enforced.has(group))
+        .map(group => ({ constraint: group, message: describeGroup(group, request, state, enforced, lineupIndex) }));
+
+    // Nothing left to relax means the site's own roster limits rule out every lineup in this pool.
+    if (reasons.length === 0) {
+        reasons.push({
+            constraint: 'PLAYER_POOL',
+            message: `No ${request.contestRuleset.name} lineup can be formed from the ${request.players.length} players in the pool.`,
+        });
+    }
+
+    return { lineupIndex, reasons };
+}
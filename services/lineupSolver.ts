@@ -0,0 +1,63 @@
+import {
+    Player,
+    StackingRules,
+    PlayerExposureTarget,
+    UniquenessRules,
+    RosterRules,
+    ContestRuleset,
+    CorrelationObjective,
+    RandomnessSettings,
+    SolverBackendId
+} from '../types';
+import type { OptimizationTarget } from './optimizer';
+import { glpkLineupSolver } from './solverService';
+import { exhaustiveLineupSolver } from './exhaustiveSolver';
+
+// Everything a backend needs to build a full set of lineups.
+export interface LineupSolverRequest {
+    players: Player[];
+    lockedPlayers: Player[];
+    excludedIds: Set<string>;
+    numberOfLineups: number;
+    salaryCap: number;
+    stackingRules: StackingRules;
+    optimizationTarget: OptimizationTarget;
+    exposureTargets: Record<string, PlayerExposureTarget>;
+    uniquenessRules: UniquenessRules;
+    rosterRules: RosterRules;
+    contestRuleset: ContestRuleset;
+    correlationObjective: CorrelationObjective;
+    randomness?: RandomnessSettings;
+}
+
+export interface SolvedLineup {
+    mvpId: string;
+    flexIds: string[];
+}
+
+/**
+ * A lineup generation backend. Implementations return up to `numberOfLineups` distinct lineups,
+ * best first, honouring every rule in the request.
+ */
+export interface LineupSolver {
+    id: SolverBackendId;
+    name: string;
+    generateLineups(request: LineupSolverRequest): Promise<SolvedLineup[]>;
+}
+
+// Display data for the UI. Kept separate from the solver objects, which are resolved lazily below
+// because the backends import helpers from modules that import this one.
+export const SOLVER_BACKENDS: { id: SolverBackendId, name: string }[] = [
+    { id: 'GLPK', name: 'GLPK (MILP)' },
+    { id: 'EXHAUSTIVE', name: 'Exhaustive (native)' },
+];
+
+export const getLineupSolver = (id: SolverBackendId = 'GLPK'): LineupSolver =>
+    id === 'EXHAUSTIVE' ? exhaustiveLineupSolver : glpkLineupSolver;
+
+// Positions that complete a QB stack, in both backends.
+export const RECEIVER_POSITIONS = ['WR', 'TE'];
+
+// Stable identity for a lineup: MVP first, then sorted FLEX IDs.
+export const getSolvedLineupSignature = (lineup: SolvedLineup): string =>
+    [lineup.mvpId, ...[...lineup.flexIds].sort()].join(',');
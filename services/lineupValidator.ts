@@ -0,0 +1,120 @@
+import { ContestResult, ContestRuleset, Lineup, LineupViolation, Player, RosterRules } from '../types';
+import { DEFAULT_CONTEST_RULESET, getMvpSalary } from './contestRulesets';
+
+export const DEFAULT_ROSTER_RULES: RosterRules = {
+    requireBothTeams: true,
+    allowKicker: true,
+    allowDefense: true,
+};
+
+/**
+ * Checks a lineup against single-game roster legality and explains every rule it breaks.
+ * The solver enforces the same rules, so a violation on a generated lineup points to a solver bug;
+ * on an imported lineup it usually means the lineup came from a different contest format.
+ * @param lineup The MVP and FLEX players of the lineup.
+ * @param rules The roster legality rules to check against.
+ * @param salaryCap Optional cap; the salary check is skipped when omitted.
+ * @param ruleset The contest's roster size, per-team limit and MVP salary pricing.
+ * @returns One entry per violation. An empty array means the lineup is legal.
+ */
+export function validateLineup(
+    lineup: Pick<Lineup, 'mvp' | 'flex'>,
+    rules: RosterRules = DEFAULT_ROSTER_RULES,
+    salaryCap?: number,
+    ruleset: ContestRuleset = DEFAULT_CONTEST_RULESET
+): LineupViolation[] {
+    const violations: LineupViolation[] = [];
+    const players: Player[] = [lineup.mvp, ...lineup.flex];
+    const flexSlots = ruleset.rosterSize - 1;
+
+    if (lineup.flex.length !== flexSlots) {
+        violations.push({
+            rule: 'ROSTER_SIZE',
+            message: `Lineup has ${lineup.flex.length} FLEX players; exactly ${flexSlots} are required alongside the ${ruleset.mvpLabel}.`,
+        });
+    }
+
+    const seen = new Set<string>();
+    players.forEach(p => {
+        if (seen.has(p.id)) {
+            violations.push({ rule: 'DUPLICATE_PLAYER', message: `${p.name} appears more than once.` });
+        }
+        seen.add(p.id);
+    });
+
+    if (salaryCap !== undefined) {
+        const totalSalary = lineup.flex.reduce((sum, p) => sum + p.salary, getMvpSalary(lineup.mvp, ruleset));
+        if (totalSalary > salaryCap) {
+            violations.push({
+                rule: 'SALARY_CAP',
+                message: `Total salary $${totalSalary.toLocaleString()} exceeds the $${salaryCap.toLocaleString()} cap.`,
+            });
+        }
+    }
+
+    const teamCounts = new Map<string, number>();
+    players.forEach(p => teamCounts.set(p.team, (teamCounts.get(p.team) || 0) + 1));
+
+    if (rules.requireBothTeams && teamCounts.size < 2) {
+        violations.push({
+            rule: 'BOTH_TEAMS',
+            message: `All players are from ${lineup.mvp.team}; a lineup must include players from both teams.`,
+        });
+    }
+
+    teamCounts.forEach((count, team) => {
+        if (count > ruleset.maxPlayersPerTeam) {
+            violations.push({
+                rule: 'MAX_PER_TEAM',
+                message: `${count} players are from ${team}; at most ${ruleset.maxPlayersPerTeam} may come from one team.`,
+            });
+        }
+    });
+
+    players.forEach(p => {
+        if (!rules.allowKicker && p.position === 'K') {
+            violations.push({ rule: 'KICKER_DISABLED', message: `${p.name} is a kicker, but kickers are disabled.` });
+        }
+        if (!rules.allowDefense && p.position === 'D') {
+            violations.push({ rule: 'DEFENSE_DISABLED', message: `${p.name} is a defense, but defenses are disabled.` });
+        }
+    });
+
+    return violations;
+}
+
+/**
+ * Validates an imported contest entry, whose players are stored by name, against the slate's player pool.
+ * Names that cannot be matched are reported rather than silently dropped.
+ * @param result The parsed contest history entry.
+ * @param players The slate's player pool.
+ * @param rules The roster legality rules to check against.
+ * @param ruleset The contest's roster size and per-team limit.
+ * @returns One entry per violation. An empty array means the lineup is legal.
+ */
+export function validateContestLineup(
+    result: ContestResult,
+    players: Player[],
+    rules: RosterRules = DEFAULT_ROSTER_RULES,
+    ruleset: ContestRuleset = DEFAULT_CONTEST_RULESET
+): LineupViolation[] {
+    const playersByName = new Map(players.map(p => [p.name, p]));
+    const names = [result.lineup.mvp, ...result.lineup.flex];
+    const unknownNames = names.filter(name => !playersByName.has(name));
+    if (unknownNames.length > 0) {
+        return unknownNames.map((name): LineupViolation => ({
+            rule: 'UNKNOWN_PLAYER',
+            message: `${name || '(blank)'} is not in the loaded player pool.`,
+        }));
+    }
+
+    return validateLineup(
+        {
+            mvp: playersByName.get(result.lineup.mvp)!,
+            flex: result.lineup.flex.map(name => playersByName.get(name)!),
+        },
+        rules,
+        undefined,
+        ruleset
+    );
+}
@@ -0,0 +1,52 @@
+import { ModelSet, PositionGroup, SegmentModel, StatWeights } from '../types';
+
+// Segments with fewer training players than this are not fit; their players fall back to a broader model.
+export const MIN_SEGMENT_ROWS = 30;
+
+const POSITION_GROUPS: Record<string, PositionGroup> = {
+    QB: 'QB', RB: 'RB', WR: 'WR', TE: 'TE', K: 'K', D: 'DEF', DST: 'DEF', DEF: 'DEF',
+};
+
+/**
+ * The model-set group for a roster position. FanDuel lists defenses as "D" and DraftKings as "DST".
+ * @returns The group, or null for a position no segment covers.
+ */
+export const getPositionGroup = (position: string): PositionGroup | null =>
+    POSITION_GROUPS[position.trim().toUpperCase()] ?? null;
+
+// Kickers and defenses project from a stat line under the contest's scoring (see projectPlayerFpts), never
+// from weights, so no segment is fit or routed for them.
+const STAT_LINE_GROUPS: ReadonlySet<PositionGroup> = new Set<PositionGroup>(['K', 'DEF']);
+
+export const isStatLineGroup = (group: PositionGroup): boolean => STAT_LINE_GROUPS.has(group);
+
+// Archetypes are free text from the data providers, so they are matched case- and space-insensitively.
+export const normalizeArchetype = (archetype: string | undefined): string | undefined =>
+    archetype?.trim().toLowerCase().replace(/\s+/g, ' ') || undefined;
+
+export const getSegmentKey = (positionGroup: PositionGroup, archetype?: string): string =>
+    archetype ? `${positionGroup}|${archetype}` : positionGroup;
+
+/**
+ * Picks the model that projects a player: the segment for their position group and archetype, then the
+ * segment for the position group alone, then the set's global weights. Kickers and defenses always get the
+ * global weights, which projectPlayerFpts ignores for them; a saved set's K or DEF segment is never used.
+ * @param modelSet The active model; one without segments always resolves to its global weights.
+ * @param position The player's roster position.
+ * @param archetype The player's archetype, if known.
+ * @returns The weights and intercept to project with, and the segment they came from (null for global).
+ */
+export function resolveSegmentModel(
+    modelSet: ModelSet,
+    position: string,
+    archetype?: string
+): { weights: StatWeights, intercept: number, segment: SegmentModel | null } {
+    const group = getPositionGroup(position);
+    const normalized = normalizeArchetype(archetype);
+    const keys = group && !isStatLineGroup(group) ? [normalized && getSegmentKey(group, normalized), getSegmentKey(group)] : [];
+    for (const key of keys) {
+        const segment = key && modelSet.segments?.find(s => s.key === key);
+        if (segment) return { weights: segment.weights, intercept: segment.intercept, segment };
+    }
+    return { weights: modelSet.weights, intercept: modelSet.intercept ?? 0, segment: null };
+}
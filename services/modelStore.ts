@@ -1,6 +1,7 @@
 import Dexie, { Table } from 'dexie';
 import { TunedModel, StatWeights, HistoricalGame } from '../types';
 import { PREPOPULATED_VAULT } from './data/prepopulatedVault';
+import { compareCalibrationReports } from './calibrationService';
 
 const db = new Dexie('NFLShowdownDB_v1') as Dexie & {
     tunedModels: Table<TunedModel, string>;
@@ -41,16 +42,14 @@ class ModelStore {
     async getSavedModels(): Promise<TunedModel[]> {
         await this.initPromise;
         try {
-            const models = await db.tunedModels
-                .orderBy('performance.validationMae')
-                .toArray();
-                
-            return models.sort((a, b) => {
-                if (a.performance.validationMae !== b.performance.validationMae) {
-                    return (a.performance.validationMae || Infinity) - (b.performance.validationMae || Infinity);
-                }
-                return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
-            });
+            // Read every model: ordering by an index would drop the ones saved without that field.
+            const models = await db.tunedModels.toArray();
+
+            // Best calibrated first (see compareCalibrationReports), newest first among ties.
+            return models.sort((a, b) =>
+                compareCalibrationReports(a.performance.calibration, b.performance.calibration)
+                || new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+            );
 
         } catch (error) {
             console.error("Error retrieving models from Dexie:", error);
@@ -63,7 +62,9 @@ class ModelStore {
         performance: TunedModel['performance'],
         name: string,
         sourceDescription: string,
-        gameScript?: TunedModel['gameScript']
+        gameScript?: TunedModel['gameScript'],
+        intercept?: number,
+        segments?: TunedModel['segments']
     ): Promise<TunedModel> {
         await this.initPromise;
         const newModel: TunedModel = {
@@ -74,6 +75,8 @@ class ModelStore {
             performance,
             sourceDescription,
             gameScript,
+            intercept,
+            segments,
         };
         
         try {
@@ -0,0 +1,289 @@
+import { Player, ContestRuleset, ScoreDistribution, ScoringStatLine, ScoringSystem } from '../types';
+import { Z_90 } from './normalDistribution';
+import { getPairCorrelation } from './correlationService';
+import { DEFAULT_CONTEST_RULESET } from './contestRulesets';
+import { DEFAULT_SCORING_SYSTEM, YARDAGE_CV, scoreStatLine } from './scoringSystems';
+import { getProjectedStatLine } from './projectionService';
+import { createSeededRandom, randomNormal } from './random';
+
+// Used when a team has no Vegas line: a league-average game.
+export const DEFAULT_GAME_TOTAL = 45;
+
+// Historical NFL spread: ~10 points on the game total, ~13 on the final margin.
+const GAME_TOTAL_SD = 10;
+const MARGIN_SD = 13;
+export const TEAM_POINTS_SD = Math.sqrt(GAME_TOTAL_SD ** 2 + MARGIN_SD ** 2) / 2;
+
+// Share of each position's outcome variance driven by its team's scoring (its opponent's, negated, for a defense).
+const TEAM_SCORING_SHARE: Record<string, number> = {
+    QB: 0.45,
+    WR: 0.3,
+    TE: 0.3,
+    RB: 0.3,
+    K: 0.35,
+    D: 0.4,
+};
+
+// Stats drawn on a yardage scale; every other stat except points allowed is a count.
+const YARDAGE_STATS = new Set<keyof ScoringStatLine>(['passYds', 'rushYds', 'recYds']);
+// Mistakes, which pile up in a player's bad games rather than their good ones.
+const NEGATIVE_STATS = new Set<keyof ScoringStatLine>(['interceptions', 'fumblesLost']);
+// Kicking volume follows the team's simulated points directly.
+const KICKING_STATS = new Set<keyof ScoringStatLine>(['fg0to39', 'fg40to49', 'fg50Plus', 'extraPoints']);
+// Share of each stat's variance that follows the player's overall outcome; the rest is the stat's own noise.
+const STAT_OUTCOME_SHARE = 0.7;
+// Spread of a count stat's per-game rate on the log scale, per standard deviation of the outcome.
+const COUNT_RATE_SD = 0.5;
+const MAX_COUNT = 60;
+
+/**
+ * Joint outcomes for one slate: each team's points, each player's fantasy points and, for players with stat
+ * projections (always kickers and defenses), the box score they were scored from. Index s of every array
+ * belongs to the same simulated game, so lineups can be scored by summing their players' draws.
+ */
+export interface GameSimulation {
+    simulations: number;
+    seed: number;
+    teamPoints: Map<string, Float64Array>;
+    playerFpts: Map<string, Float64Array>;
+    playerStats: Map<string, Partial<Record<keyof ScoringStatLine, Float64Array>>>;
+}
+
+interface TeamLine {
+    team: string;
+    opponent: string;
+    total: number;
+    spread: number; // The team's own spread; negative for the favourite
+}
+
+/**
+ * Lower-triangular L with L * L^T = matrix. Correlations from mixed sources need not form a valid
+ * (positive definite) matrix, so off-diagonal terms are shrunk toward zero until the factorization succeeds.
+ */
+function choleskyWithShrinkage(matrix: number[][]): number[][] {
+    const n = matrix.length;
+    for (let shrink = 1; shrink >= 0; shrink -= 0.1) {
+        const lower: number[][] = matrix.map(() => new Array(n).fill(0));
+        let valid = true;
+        for (let i = 0; i < n && valid; i++) {
+            for (let j = 0; j <= i; j++) {
+                let sum = (i === j ? 1 : matrix[i][j] * shrink);
+                for (let k = 0; k < j; k++) sum -= lower[i][k] * lower[j][k];
+                if (i === j) {
+                    if (sum <= 1e-9) { valid = false; break; }
+                    lower[i][i] = Math.sqrt(sum);
+                } else {
+                    lower[i][j] = sum / lower[j][j];
+                }
+            }
+        }
+        if (valid) return lower;
+    }
+    return matrix.map((_, i) => matrix.map((__, j) => (i === j ? 1 : 0)));
+}
+
+// One line per game, taken from the first player of either team that carries Vegas data.
+function getGameLines(players: Player[]): TeamLine[] {
+    const lines = new Map<string, TeamLine>();
+    const teams = Array.from(new Set(players.map(p => p.team))).sort();
+    teams.forEach(team => {
+        const opponent = players.find(p => p.team === team)!.opponent;
+        const key = [team, opponent].sort().join('@');
+        if (lines.has(key)) return;
+        const source = players.find(p => (p.team === team || p.team === opponent) && p.vegas);
+        const spread = source?.vegas ? (source.team === team ? source.vegas.spread : -source.vegas.spread) : 0;
+        lines.set(key, { team, opponent, total: source?.vegas?.total ?? DEFAULT_GAME_TOTAL, spread });
+    });
+    return Array.from(lines.values());
+}
+
+const impliedPoints = (line: TeamLine, team: string) => {
+    const favouredBy = team === line.team ? -line.spread : line.spread;
+    return line.total / 2 + favouredBy / 2;
+};
+
+// Smallest count whose Poisson CDF at this rate reaches u.
+function poissonQuantile(rate: number, u: number): number {
+    if (rate <= 0) return 0;
+    let count = 0;
+    let pmf = Math.exp(-rate);
+    let cdf = pmf;
+    while (cdf < u && count < MAX_COUNT) {
+        count++;
+        pmf *= rate / count;
+        cdf += pmf;
+    }
+    return count;
+}
+
+/**
+ * Draws correlated outcomes for a slate. Each simulation first draws the game total and margin from the
+ * Vegas line (so both teams' points move together with the total and against each other with the margin),
+ * then each player's outcome: a team-scoring component plus a residual correlated through getPairCorrelation.
+ * Players with a projected stat line get a box score drawn around it from that outcome (yardage on a
+ * continuous scale, counts from a Poisson whose rate moves with it, kicking volume with the team's points and
+ * points allowed as the opponent's points), scored under the scoring system so yardage bonuses and
+ * points-allowed tiers land where they would in a real game, then rescaled so their mean is the player's
+ * projection. Players without one are mapped through their split-normal between floor (P10) and ceiling (P90).
+ * @param players The slate's players.
+ * @param simulations Number of games to draw.
+ * @param seed Draws are taken in a fixed order, so the same seed replays exactly.
+ * @param scoringSystem The site or custom scoring the stat lines are scored under.
+ */
+export function simulateGames(
+    players: Player[],
+    simulations: number,
+    seed: number,
+    scoringSystem: ScoringSystem = DEFAULT_SCORING_SYSTEM
+): GameSimulation {
+    const random = createSeededRandom(seed);
+    const lines = getGameLines(players);
+    const teamPoints = new Map<string, Float64Array>();
+    const teamImplied = new Map<string, number>();
+    lines.forEach(line => {
+        teamPoints.set(line.team, new Float64Array(simulations));
+        teamPoints.set(line.opponent, new Float64Array(simulations));
+        teamImplied.set(line.team, impliedPoints(line, line.team));
+        teamImplied.set(line.opponent, impliedPoints(line, line.opponent));
+    });
+
+    const n = players.length;
+    const lower = choleskyWithShrinkage(players.map(a => players.map(b => (a.id === b.id ? 1 : getPairCorrelation(a, b)))));
+    const playerFpts = new Map(players.map(p => [p.id, new Float64Array(simulations)]));
+    const playerDraws = players.map(p => playerFpts.get(p.id)!);
+    const statLines = players.map(p => getProjectedStatLine(p));
+    const playerStats = new Map<string, Partial<Record<keyof ScoringStatLine, Float64Array>>>();
+    const statDraws = players.map((p, i) => {
+        const statLine = statLines[i];
+        if (!statLine) return null;
+        const draws: Partial<Record<keyof ScoringStatLine, Float64Array>> = {};
+        (Object.keys(statLine) as (keyof ScoringStatLine)[]).forEach(stat => { draws[stat] = new Float64Array(simulations); });
+        playerStats.set(p.id, draws);
+        return draws;
+    });
+    const independent = new Array(n).fill(0);
+    const teamZ = new Map<string, number>();
+
+    for (let s = 0; s < simulations; s++) {
+        lines.forEach(line => {
+            const total = line.total + randomNormal(random) * GAME_TOTAL_SD;
+            const margin = -line.spread + randomNormal(random) * MARGIN_SD;
+            const points = Math.max(0, (total + margin) / 2);
+            const opponentPoints = Math.max(0, (total - margin) / 2);
+            teamPoints.get(line.team)![s] = points;
+            teamPoints.get(line.opponent)![s] = opponentPoints;
+            teamZ.set(line.team, (points - teamImplied.get(line.team)!) / TEAM_POINTS_SD);
+            teamZ.set(line.opponent, (opponentPoints - teamImplied.get(line.opponent)!) / TEAM_POINTS_SD);
+        });
+
+        for (let i = 0; i < n; i++) independent[i] = randomNormal(random);
+        for (let i = 0; i < n; i++) {
+            const p = players[i];
+            let residual = 0;
+            for (let k = 0; k <= i; k++) residual += lower[i][k] * independent[k];
+            const share = TEAM_SCORING_SHARE[p.position] ?? 0.3;
+            const driver = p.position === 'D' ? -(teamZ.get(p.opponent) ?? 0) : (teamZ.get(p.team) ?? 0);
+            const z = Math.sqrt(share) * driver + Math.sqrt(1 - share) * residual;
+
+            const statLine = statLines[i];
+            const draws = statDraws[i];
+            if (!statLine || !draws) {
+                const spread = z >= 0 ? p.scenarioFpts.ceiling - p.fpts : p.fpts - p.scenarioFpts.floor;
+                playerDraws[i][s] = Math.max(0, p.fpts + z * (Math.max(0, spread) / Z_90));
+                continue;
+            }
+
+            // A team's simulated points relative to its implied total scales its kicker's chances.
+            const implied = teamImplied.get(p.team) ?? DEFAULT_GAME_TOTAL / 2;
+            const kickingScale = implied > 0 ? (teamPoints.get(p.team)?.[s] ?? implied) / implied : 1;
+            const sampled: ScoringStatLine = {};
+            (Object.keys(draws) as (keyof ScoringStatLine)[]).forEach(stat => {
+                const mean = statLine[stat] ?? 0;
+                let value: number;
+                if (stat === 'pointsAllowed') {
+                    value = Math.round(teamPoints.get(p.opponent)?.[s] ?? mean);
+                } else if (KICKING_STATS.has(stat)) {
+                    value = poissonQuantile(mean * kickingScale, random());
+                } else {
+                    const outcome = NEGATIVE_STATS.has(stat) ? -z : z;
+                    const statZ = Math.sqrt(STAT_OUTCOME_SHARE) * outcome + Math.sqrt(1 - STAT_OUTCOME_SHARE) * randomNormal(random);
+                    value = YARDAGE_STATS.has(stat)
+                        ? Math.max(0, Math.round(mean * (1 + YARDAGE_CV * statZ)))
+                        : poissonQuantile(mean * Math.exp(COUNT_RATE_SD * statZ - COUNT_RATE_SD ** 2 / 2), random());
+                }
+                draws[stat]![s] = value;
+                sampled[stat] = value;
+            });
+            playerDraws[i][s] = scoreStatLine(sampled, scoringSystem);
+        }
+    }
+
+    // The stat line sets the shape of a player's outcomes; the projection stays their mean.
+    players.forEach((p, i) => {
+        if (!statLines[i]) return;
+        const draws = playerDraws[i];
+        const mean = draws.reduce((sum, v) => sum + v, 0) / simulations;
+        if (p.fpts > 0 && mean > 0) {
+            const scale = p.fpts / mean;
+            for (let s = 0; s < simulations; s++) draws[s] *= scale;
+        }
+    });
+
+    return { simulations, seed, teamPoints, playerFpts, playerStats };
+}
+
+/**
+ * A player's box score in one simulated game, or null for players simulated from fantasy points alone.
+ */
+export function getSimulatedStatLine(simulation: GameSimulation, playerId: string, index: number): ScoringStatLine | null {
+    const draws = simulation.playerStats.get(playerId);
+    if (!draws) return null;
+    const statLine: ScoringStatLine = {};
+    (Object.keys(draws) as (keyof ScoringStatLine)[]).forEach(stat => { statLine[stat] = draws[stat]![index]; });
+    return statLine;
+}
+
+/**
+ * Scores a lineup in every simulated game. Players missing from the simulation score zero.
+ */
+export function simulateLineupScores(
+    simulation: GameSimulation,
+    mvp: Player,
+    flex: Player[],
+    contestRuleset: ContestRuleset = DEFAULT_CONTEST_RULESET
+): Float64Array {
+    const scores = new Float64Array(simulation.simulations);
+    const mvpDraws = simulation.playerFpts.get(mvp.id);
+    const flexDraws = flex.map(p => simulation.playerFpts.get(p.id)).filter((d): d is Float64Array => !!d);
+    for (let s = 0; s < simulation.simulations; s++) {
+        let total = mvpDraws ? mvpDraws[s] * contestRuleset.mvpMultiplier : 0;
+        for (const draws of flexDraws) total += draws[s];
+        scores[s] = total;
+    }
+    return scores;
+}
+
+export function summarizeDistribution(samples: ArrayLike<number>): ScoreDistribution {
+    const sorted = Float64Array.from(samples).sort();
+    const n = sorted.length;
+    if (n === 0) return { mean: 0, stdDev: 0, p10: 0, p25: 0, p50: 0, p75: 0, p90: 0, p99: 0 };
+    const mean = sorted.reduce((sum, v) => sum + v, 0) / n;
+    const variance = sorted.reduce((sum, v) => sum + (v - mean) ** 2, 0) / n;
+    const quantile = (q: number) => sorted[Math.min(n - 1, Math.floor(q * n))];
+    return {
+        mean,
+        stdDev: Math.sqrt(variance),
+        p10: quantile(0.1),
+        p25: quantile(0.25),
+        p50: quantile(0.5),
+        p75: quantile(0.75),
+        p90: quantile(0.9),
+        p99: quantile(0.99),
+    };
+}
+
+export function getPlayerDistributions(simulation: GameSimulation): Record<string, ScoreDistribution> {
+    const distributions: Record<string, ScoreDistribution> = {};
+    simulation.playerFpts.forEach((draws, id) => { distributions[id] = summarizeDistribution(draws); });
+    return distributions;
+}
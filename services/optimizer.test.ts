@@ -7,8 +7,29 @@
  * MD-V-001 directive to implement verification gates.
  */
 
-import { generateMultipleLineups } from './optimizer';
-import { Player, StackingRules } from '../types';
+import { generateMultipleLineups, validateExposureTargets } from './optimizer';
+import { Player, StackingRules, ConditionalRule, InfeasibilityReport, HistoricalGame, StatWeights, OptimizerSettings, StatProjections, ModelSet, SegmentModel } from '../types';
+import { strategyPresets } from './strategyPresets';
+import { validateLineup, validateContestLineup, DEFAULT_ROSTER_RULES } from './lineupValidator';
+import { DEFAULT_UNIQUENESS_RULES } from './solverService';
+import { DRAFTKINGS_SHOWDOWN } from './contestRulesets';
+import { generatePortfolio } from './portfolioOptimizer';
+import { simulateGames, summarizeDistribution, getPlayerDistributions, getSimulatedStatLine } from './monteCarloService';
+import { calculateLineupStats, evaluateContestEv } from './evSimulationService';
+import { fitQuantileModel, applyQuantiles, getQuantileMultipliers, DEFAULT_QUANTILE_MULTIPLIERS } from './quantileService';
+import { generateContestField, scoreContestField, getFieldStanding, estimateDuplicates } from './contestFieldService';
+import { buildPayouts, createContestStructure, createContestSimulation, getFinishPayout, parsePayoutTable } from './payoutService';
+import { calculateFptsFromProjections, projectPlayerFpts } from './projectionService';
+import { FANDUEL_SCORING, DRAFTKINGS_SCORING, scoreStatLine, getActualFpts, getPointsAllowedFpts, getExpectedPointsAllowedFpts, createCustomScoringSystem, getRulesetScoringSystem } from './scoringSystems';
+import { PREPOPULATED_VAULT } from './data/prepopulatedVault';
+import { parseProjectionCsv, blendProjections } from './projectionSourceService';
+import { applyOverrides, createOverride, revertOverride, getActiveOverrides } from './overrideService';
+import { generateRunManifest } from './runArtifactService';
+import { reconcileWithVegas, getTeamPassShare } from './vegasReconciliationService';
+import { createWalkForwardFolds, getGameWeekIndex, formatWeekIndex } from './walkForwardService';
+import { fitRegularizedRegression } from './regularizedRegression';
+import { generateCalibrationReport, compareCalibrationReports } from './calibrationService';
+import { resolveSegmentModel, getPositionGroup } from './modelSetService';
 
 // Mock assertion library for demonstration
 const expect = (actual: any) => ({
@@ -141,4 +162,1103 @@ runTest('should handle random player subsets without crashing', async () => {
             expect(lineups).toHaveLength(0);
         }
     }
-});
\ No newline at end of file
+});
+
+// --- Stacking rules: each preset must change the solver's output ---
+
+// Salaries are flat so the cap never binds; the lineup is decided purely by the rules.
+// QB_A is always the MVP. Unconstrained, the best build has no TEAM_A pass catcher.
+// Forcing WR_A would make the lineup all TEAM_A, which is illegal, so TEAM_B's kicker fills the last slot.
+const createStackPlayer = (id: string, pos: string, fpts: number, team: string, opponent: string): Player => ({
+  ...createMockPlayer(id, id, pos, 1000, fpts, fpts, team),
+  opponent,
+});
+
+const STACK_PLAYERS: Player[] = [
+  createStackPlayer('QB_A', 'QB', 30, 'TEAM_A', 'TEAM_B'),
+  createStackPlayer('RB_A', 'RB', 20, 'TEAM_A', 'TEAM_B'),
+  createStackPlayer('K_A', 'K', 19, 'TEAM_A', 'TEAM_B'),
+  createStackPlayer('RB2_A', 'RB', 15, 'TEAM_A', 'TEAM_B'),
+  createStackPlayer('WR_A', 'WR', 8, 'TEAM_A', 'TEAM_B'),
+  createStackPlayer('D_A', 'D', 3, 'TEAM_A', 'TEAM_B'),
+  createStackPlayer('K_B', 'K', 18, 'TEAM_B', 'TEAM_A'),
+  createStackPlayer('WR_B', 'WR', 10, 'TEAM_B', 'TEAM_A'),
+  createStackPlayer('RB_B', 'RB', 7, 'TEAM_B', 'TEAM_A'),
+  createStackPlayer('TE_B', 'TE', 4, 'TEAM_B', 'TEAM_A'),
+  createStackPlayer('D_B', 'D', 3, 'TEAM_B', 'TEAM_A'),
+  createStackPlayer('QB_B', 'QB', 2, 'TEAM_B', 'TEAM_A'),
+];
+
+const getPresetRules = (name: string): StackingRules => strategyPresets.find(p => p.name === name)!.rules;
+
+const solvePreset = async (name: string) => {
+    const lineups = await generateMultipleLineups(STACK_PLAYERS, [], new Set(), 1, SALARY_CAP, getPresetRules(name), OPTIMIZATION_TARGET);
+    expect(lineups).toHaveLength(1);
+    const lineup = lineups[0];
+    return { lineup, ids: [lineup.mvp.id, ...lineup.flex.map(p => p.id).sort()].join(',') };
+};
+
+runTest('Balanced Attack caps kickers and defenses at one each', async () => {
+    const { lineup, ids } = await solvePreset('Balanced Attack');
+    const all = [lineup.mvp, ...lineup.flex];
+    expect(all.filter(p => p.position === 'K').length).toBeLessThanOrEqual(1);
+    expect(all.filter(p => p.position === 'D').length).toBeLessThanOrEqual(1);
+    expect(ids).toEqual('QB_A,K_A,RB2_A,RB_A,WR_B');
+});
+
+runTest('Grind It Out allows a second kicker that Balanced Attack forbids', async () => {
+    const balanced = await solvePreset('Balanced Attack');
+    const grind = await solvePreset('Grind It Out');
+    expect(grind.ids).toEqual('QB_A,K_A,K_B,RB2_A,RB_A');
+    expect(grind.ids !== balanced.ids).toBeTruthy();
+});
+
+runTest('Team Stack forces a same-team WR/TE alongside the QB', async () => {
+    const balanced = await solvePreset('Balanced Attack');
+    const teamStack = await solvePreset('Team Stack');
+    expect(teamStack.ids).toEqual('QB_A,K_B,RB2_A,RB_A,WR_A');
+    expect(teamStack.ids !== balanced.ids).toBeTruthy();
+});
+
+runTest('Shootout forces an opponent bring-back on top of the QB stack', async () => {
+    // Both-teams legality already brings TEAM_B back in, so the bring-back row is satisfied by the same build.
+    const shootout = await solvePreset('Shootout');
+    expect(shootout.ids).toEqual('QB_A,K_B,RB2_A,RB_A,WR_A');
+    expect(shootout.lineup.flex.some(p => p.team === 'TEAM_B')).toBeTruthy();
+});
+
+// --- Exposure targets ---
+
+runTest('should cap MVP exposure at the max target', async () => {
+    const numberOfLineups = 10;
+    const exposureTargets = { '1': { mvp: { min: 0, max: 10 } } };
+    const lineups = await generateMultipleLineups(MOCK_PLAYERS, [], new Set(), numberOfLineups, SALARY_CAP, NO_RULES, OPTIMIZATION_TARGET, { exposureTargets });
+    expect(lineups).toHaveLength(numberOfLineups);
+    expect(lineups.filter(l => l.mvp.id === '1').length).toBeLessThanOrEqual(1);
+});
+
+runTest('should reach the FLEX min target by locking the player late in the build', async () => {
+    const numberOfLineups = 10;
+    const exposureTargets = { '9': { flex: { min: 50, max: 100 } } }; // TE1, rarely optimal
+    const lineups = await generateMultipleLineups(MOCK_PLAYERS, [], new Set(), numberOfLineups, SALARY_CAP, NO_RULES, OPTIMIZATION_TARGET, { exposureTargets });
+    expect(lineups).toHaveLength(numberOfLineups);
+    const flexCount = lineups.filter(l => l.flex.some(p => p.id === '9')).length;
+    expect(flexCount >= 5).toBeTruthy();
+});
+
+runTest('should report conflicting exposure targets before building', async () => {
+    const exposureTargets = {
+        '1': { mvp: { min: 60, max: 40 } },
+        '2': { mvp: { min: 60, max: 100 } },
+        '3': { mvp: { min: 50, max: 100 } },
+        '9': { flex: { min: 20, max: 25 } },
+    };
+    const conflicts = validateExposureTargets(exposureTargets, 2, 5, MOCK_PLAYERS);
+    expect(conflicts).toHaveLength(3);
+    expect(conflicts[0].includes('minimum 60% is above the maximum 40%')).toBeTruthy();
+    expect(conflicts.some(c => c.includes('no whole lineup count'))).toBeTruthy();
+    expect(conflicts.some(c => c.startsWith('MVP minimums') && c.includes('need 3 MVP slots'))).toBeTruthy();
+
+    const flexHeavy = Object.fromEntries(MOCK_PLAYERS.slice(0, 6).map(p => [p.id, { flex: { min: 100, max: 100 } }]));
+    expect(validateExposureTargets(flexHeavy, 4, 5, MOCK_PLAYERS)[0].includes('need 24 FLEX slots, but 4 lineups have 20')).toBeTruthy();
+    expect(validateExposureTargets({ '1': { flex: { min: 0, max: 5 } } }, 10, 5, MOCK_PLAYERS)[0].includes('rounds down to 0 lineups; use at least 10%')).toBeTruthy();
+    expect(validateExposureTargets({ '1': { flex: { min: 0, max: 0 } } }, 10, 5, MOCK_PLAYERS)).toHaveLength(0);
+
+    let message = '';
+    try {
+        await generateMultipleLineups(MOCK_PLAYERS, [], new Set(), 2, SALARY_CAP, NO_RULES, OPTIMIZATION_TARGET, { exposureTargets });
+    } catch (e) {
+        message = e instanceof Error ? e.message : '';
+    }
+    expect(message.startsWith('Exposure targets conflict:')).toBeTruthy();
+});
+
+// --- Minimum uniqueness ---
+
+const countSharedPlayers = (a: { mvp: Player, flex: Player[] }, b: { mvp: Player, flex: Player[] }) => {
+    const idsB = new Set([b.mvp.id, ...b.flex.map(p => p.id)]);
+    return [a.mvp, ...a.flex].filter(p => idsB.has(p.id)).length;
+};
+
+runTest('should keep every lineup at least N players apart', async () => {
+    const uniquenessRules = { minUniquePlayers: 2, mvpSwapCountsAsUnique: false };
+    const lineups = await generateMultipleLineups(MOCK_PLAYERS, [], new Set(), 5, SALARY_CAP, NO_RULES, OPTIMIZATION_TARGET, { uniquenessRules });
+    expect(lineups.length > 1).toBeTruthy();
+    for (let i = 0; i < lineups.length; i++) {
+        for (let j = 0; j < i; j++) {
+            expect(countSharedPlayers(lineups[i], lineups[j])).toBeLessThanOrEqual(3);
+        }
+    }
+});
+
+runTest('should treat an MVP swap as a difference only when configured', async () => {
+    // Two lineups from a 5-player pool can only differ by MVP.
+    const fivePlayers = MOCK_PLAYERS.filter(p => ['1', '2', '3', '9', '10'].includes(p.id));
+    const withSwap = await generateMultipleLineups(fivePlayers, [], new Set(), 2, SALARY_CAP, NO_RULES, OPTIMIZATION_TARGET, { uniquenessRules: { minUniquePlayers: 1, mvpSwapCountsAsUnique: true } });
+    const withoutSwap = await generateMultipleLineups(fivePlayers, [], new Set(), 2, SALARY_CAP, NO_RULES, OPTIMIZATION_TARGET, { uniquenessRules: { minUniquePlayers: 1, mvpSwapCountsAsUnique: false } });
+    expect(withSwap).toHaveLength(2);
+    expect(withoutSwap).toHaveLength(1);
+});
+
+// --- Conditional (if-then) rules ---
+
+const withConditionalRules = (rules: StackingRules, conditionalRules: ConditionalRule[]): StackingRules => ({ ...rules, conditionalRules });
+
+runTest('if MVP is a QB then at least two same-team pass catchers', async () => {
+    const rule: ConditionalRule = { id: 'qb_mvp_double', if: { slot: 'MVP', positions: ['QB'] }, then: { selector: { positions: ['WR', 'TE'], team: 'SAME' }, min: 2 } };
+    const lineups = await generateMultipleLineups(MOCK_PLAYERS, [], new Set(), 5, SALARY_CAP, withConditionalRules(NO_RULES, [rule]), OPTIMIZATION_TARGET);
+    expect(lineups.length > 0).toBeTruthy();
+    lineups.forEach(lineup => {
+        if (lineup.mvp.position !== 'QB') return;
+        const passCatchers = lineup.flex.filter(p => p.team === lineup.mvp.team && ['WR', 'TE'].includes(p.position));
+        expect(passCatchers.length >= 2).toBeTruthy();
+    });
+});
+
+runTest('never a kicker with a defense from the same team', async () => {
+    // Boost D_A and sink K_B so the unconstrained lineup would pair D_A with K_A.
+    const players = STACK_PLAYERS.map(p => p.id === 'D_A' ? { ...p, fpts: 25 } : p.id === 'K_B' ? { ...p, fpts: 5 } : p);
+    const rule: ConditionalRule = { id: 'no_k_with_own_d', if: { positions: ['K'] }, then: { selector: { positions: ['D'], team: 'SAME' }, max: 0 } };
+    const [unconstrained] = await generateMultipleLineups(players, [], new Set(), 1, SALARY_CAP, NO_RULES, OPTIMIZATION_TARGET);
+    const [constrained] = await generateMultipleLineups(players, [], new Set(), 1, SALARY_CAP, withConditionalRules(NO_RULES, [rule]), OPTIMIZATION_TARGET);
+    const hasOwnKAndD = (l: typeof constrained) => {
+        const all = [l.mvp, ...l.flex];
+        return all.some(k => k.position === 'K' && all.some(d => d.position === 'D' && d.team === k.team));
+    };
+    expect(hasOwnKAndD(unconstrained)).toBeTruthy();
+    expect(hasOwnKAndD(constrained)).toBeFalsy();
+});
+
+runTest('if RB X then not RB Y', async () => {
+    const rule: ConditionalRule = { id: 'rb_a_not_rb2_a', if: { playerIds: ['RB_A'] }, then: { selector: { playerIds: ['RB2_A'] }, max: 0 } };
+    const lineups = await generateMultipleLineups(STACK_PLAYERS, [], new Set(), 5, SALARY_CAP, withConditionalRules(getPresetRules('Balanced Attack'), [rule]), OPTIMIZATION_TARGET);
+    expect(lineups).toHaveLength(5);
+    lineups.forEach(lineup => {
+        const ids = [lineup.mvp.id, ...lineup.flex.map(p => p.id)];
+        expect(ids.includes('RB_A') && ids.includes('RB2_A')).toBeFalsy();
+    });
+});
+
+// --- FanDuel roster legality ---
+
+const countByTeam = (lineup: { mvp: Player, flex: Player[] }) => {
+    const counts = new Map<string, number>();
+    [lineup.mvp, ...lineup.flex].forEach(p => counts.set(p.team, (counts.get(p.team) || 0) + 1));
+    return counts;
+};
+
+runTest('every lineup uses both teams with at most four from one team', async () => {
+    const lineups = await generateMultipleLineups(STACK_PLAYERS, [], new Set(), 10, SALARY_CAP, NO_RULES, OPTIMIZATION_TARGET);
+    expect(lineups).toHaveLength(10);
+    lineups.forEach(lineup => {
+        const counts = countByTeam(lineup);
+        expect(counts.size).toBe(2);
+        expect(Math.max(...counts.values())).toBeLessThanOrEqual(4);
+        expect(validateLineup(lineup, DEFAULT_ROSTER_RULES, SALARY_CAP)).toHaveLength(0);
+    });
+});
+
+runTest('K/DEF toggles keep kickers and defenses out of every lineup', async () => {
+    const rosterRules = { ...DEFAULT_ROSTER_RULES, allowKicker: false, allowDefense: false };
+    const lineups = await generateMultipleLineups(STACK_PLAYERS, [], new Set(), 5, SALARY_CAP, NO_RULES, OPTIMIZATION_TARGET, { rosterRules });
+    expect(lineups).toHaveLength(5);
+    lineups.forEach(lineup => {
+        expect([lineup.mvp, ...lineup.flex].some(p => p.position === 'K' || p.position === 'D')).toBeFalsy();
+    });
+});
+
+runTest('validateLineup explains each violation', async () => {
+    const byId = new Map(STACK_PLAYERS.map(p => [p.id, p]));
+    const allTeamA = { mvp: byId.get('QB_A')!, flex: ['RB_A', 'K_A', 'RB2_A', 'D_A'].map(id => byId.get(id)!) };
+    const rosterRules = { ...DEFAULT_ROSTER_RULES, allowKicker: false, allowDefense: false };
+    const rules = validateLineup(allTeamA, rosterRules, 4000).map(v => v.rule).sort();
+    expect(rules).toEqual(['BOTH_TEAMS', 'DEFENSE_DISABLED', 'KICKER_DISABLED', 'MAX_PER_TEAM', 'SALARY_CAP']);
+
+    const legal = { mvp: byId.get('QB_A')!, flex: ['RB_A', 'K_A', 'RB2_A', 'WR_B'].map(id => byId.get(id)!) };
+    expect(validateLineup(legal, DEFAULT_ROSTER_RULES, SALARY_CAP)).toHaveLength(0);
+});
+
+runTest('imported contest lineups are resolved by name and validated', async () => {
+    const imported = { rank: 1, score: 100, payout: 5, lineup: { mvp: 'QB_A', flex: ['RB_A', 'K_A', 'RB2_A', 'Nobody'] } };
+    const violations = validateContestLineup(imported, STACK_PLAYERS);
+    expect(violations.map(v => v.rule)).toEqual(['UNKNOWN_PLAYER']);
+
+    const sameTeam = { ...imported, lineup: { mvp: 'QB_A', flex: ['RB_A', 'K_A', 'RB2_A', 'WR_A'] } };
+    expect(validateContestLineup(sameTeam, STACK_PLAYERS).map(v => v.rule)).toEqual(['BOTH_TEAMS', 'MAX_PER_TEAM']);
+
+    // The active contest's rules apply: a legal FanDuel entry is short a FLEX on DraftKings and breaks a kicker ban.
+    const fanDuelEntry = { ...imported, lineup: { mvp: 'QB_A', flex: ['RB_A', 'K_A', 'RB2_A', 'WR_B'] } };
+    expect(validateContestLineup(fanDuelEntry, STACK_PLAYERS)).toHaveLength(0);
+    expect(validateContestLineup(fanDuelEntry, STACK_PLAYERS, DEFAULT_ROSTER_RULES, DRAFTKINGS_SHOWDOWN).map(v => v.rule)).toEqual(['ROSTER_SIZE']);
+    expect(validateContestLineup(fanDuelEntry, STACK_PLAYERS, { ...DEFAULT_ROSTER_RULES, allowKicker: false }).map(v => v.rule)).toEqual(['KICKER_DISABLED']);
+});
+
+// --- Contest rulesets ---
+
+runTest('DraftKings Showdown builds six-player lineups with a 1.5x-salary Captain', async () => {
+    const cap = DRAFTKINGS_SHOWDOWN.salaryCap;
+    const lineups = await generateMultipleLineups(MOCK_PLAYERS, [], new Set(), 3, cap, NO_RULES, OPTIMIZATION_TARGET, { contestRuleset: DRAFTKINGS_SHOWDOWN });
+    expect(lineups).toHaveLength(3);
+    lineups.forEach(lineup => {
+        expect(lineup.flex).toHaveLength(5);
+        const expectedSalary = lineup.mvp.salary * 1.5 + lineup.flex.reduce((sum, p) => sum + p.salary, 0);
+        expect(lineup.totalSalary).toBe(expectedSalary);
+        expect(lineup.totalSalary).toBeLessThanOrEqual(cap);
+        expect(validateLineup(lineup, DEFAULT_ROSTER_RULES, cap, DRAFTKINGS_SHOWDOWN)).toHaveLength(0);
+    });
+});
+
+runTest('the Captain salary surcharge counts against the DraftKings cap', async () => {
+    const byId = new Map(MOCK_PLAYERS.map(p => [p.id, p]));
+    // Base salaries total 48,500, but a 12,000 Captain costs 18,000.
+    const lineup = { mvp: byId.get('1')!, flex: ['2', '3', '4', '5', '10'].map(id => byId.get(id)!) };
+    const fanDuelCheck = validateLineup({ mvp: lineup.mvp, flex: lineup.flex.slice(0, 4) }, DEFAULT_ROSTER_RULES, 50000);
+    expect(fanDuelCheck.some(v => v.rule === 'SALARY_CAP')).toBeFalsy();
+    const violations = validateLineup(lineup, DEFAULT_ROSTER_RULES, DRAFTKINGS_SHOWDOWN.salaryCap, DRAFTKINGS_SHOWDOWN);
+    expect(violations.map(v => v.rule)).toEqual(['SALARY_CAP']);
+});
+
+// --- Correlation-aware objective ---
+
+const withCorrelation = (players: Player[], a: string, b: string, value: number) =>
+    players.map(p => p.id === a ? { ...p, correlations: { ...p.correlations, [b]: value } } : p);
+
+const solveWithCorrelation = async (players: Player[], enabled: boolean) => {
+    const [lineup] = await generateMultipleLineups(players, [], new Set(), 1, SALARY_CAP, getPresetRules('Balanced Attack'), OPTIMIZATION_TARGET, { correlationObjective: { enabled, weight: 0.5 } });
+    return [lineup.mvp, ...lineup.flex].map(p => p.id);
+};
+
+runTest('correlation-aware objective builds the stack the data asks for', async () => {
+    const players = withCorrelation(STACK_PLAYERS, 'QB_A', 'WR_A', 0.8);
+    const plain = await solveWithCorrelation(players, false);
+    const correlated = await solveWithCorrelation(players, true);
+    expect(plain.includes('WR_A')).toBeFalsy();
+    expect(correlated.includes('WR_A')).toBeTruthy();
+});
+
+runTest('negative correlation keeps an RB away from the opposing defense', async () => {
+    const boosted = STACK_PLAYERS.map(p => p.id === 'D_B' ? { ...p, fpts: 16 } : p);
+    const players = withCorrelation(boosted, 'RB_A', 'D_B', -0.9);
+    const plain = await solveWithCorrelation(players, false);
+    const correlated = await solveWithCorrelation(players, true);
+    expect(plain.includes('RB_A') && plain.includes('D_B')).toBeTruthy();
+    expect(correlated.includes('RB_A') && correlated.includes('D_B')).toBeFalsy();
+});
+
+// --- Seeded randomness ---
+
+const buildWithRandomness = (level: number, seed: number) =>
+    generateMultipleLineups(MOCK_PLAYERS, [], new Set(), 8, SALARY_CAP, NO_RULES, OPTIMIZATION_TARGET, { randomness: { level, seed } });
+
+const signatures = (lineups: { mvp: Player, flex: Player[] }[]) => lineups.map(l => [l.mvp.id, ...l.flex.map(p => p.id).sort()].join(','));
+
+runTest('the same seed reproduces the same randomized build', async () => {
+    const first = await buildWithRandomness(0.8, 12345);
+    const second = await buildWithRandomness(0.8, 12345);
+    const other = await buildWithRandomness(0.8, 54321);
+    expect(signatures(first)).toEqual(signatures(second));
+    expect(JSON.stringify(signatures(first)) !== JSON.stringify(signatures(other))).toBeTruthy();
+});
+
+runTest('randomness reaches players the deterministic build never uses', async () => {
+    const deterministic = await buildWithRandomness(0, 12345);
+    const randomized = await buildWithRandomness(1, 12345);
+    const distinctPlayers = (lineups: { mvp: Player, flex: Player[] }[]) => new Set(lineups.flatMap(l => [l.mvp.id, ...l.flex.map(p => p.id)])).size;
+    expect(distinctPlayers(randomized) > distinctPlayers(deterministic)).toBeTruthy();
+});
+
+// --- Exhaustive solver backend ---
+
+const buildWithBackend = (solverBackend: 'GLPK' | 'EXHAUSTIVE', players: Player[], count: number, rules: StackingRules, uniquenessRules = DEFAULT_UNIQUENESS_RULES, exposureTargets = {}, correlationWeight = 0) =>
+    generateMultipleLineups(players, [], new Set(), count, SALARY_CAP, rules, OPTIMIZATION_TARGET, { exposureTargets, uniquenessRules, correlationObjective: { enabled: correlationWeight !== 0, weight: correlationWeight }, solverBackend });
+
+const totals = (lineups: { totalFpts: number }[]) => lineups.map(l => l.totalFpts.toFixed(2));
+
+runTest('exhaustive backend matches GLPK lineup-for-lineup on the mock slate', async () => {
+    const glpk = await buildWithBackend('GLPK', MOCK_PLAYERS, 10, NO_RULES);
+    const exhaustive = await buildWithBackend('EXHAUSTIVE', MOCK_PLAYERS, 10, NO_RULES);
+    expect(exhaustive).toHaveLength(10);
+    expect(totals(exhaustive)).toEqual(totals(glpk));
+});
+
+runTest('exhaustive backend honours stacking presets and conditional rules', async () => {
+    const noKWithOwnD = withConditionalRules(getPresetRules('Balanced Attack'), [
+        { id: 'no-k-with-d', if: { positions: ['K'] }, then: { selector: { positions: ['D'], team: 'SAME' }, max: 0 } },
+    ]);
+    for (const rules of [getPresetRules('Team Stack'), getPresetRules('Shootout'), noKWithOwnD]) {
+        const [glpk] = await buildWithBackend('GLPK', STACK_PLAYERS, 1, rules);
+        const [exhaustive] = await buildWithBackend('EXHAUSTIVE', STACK_PLAYERS, 1, rules);
+        expect(signatures([exhaustive])).toEqual(signatures([glpk]));
+    }
+});
+
+runTest('exhaustive backend applies uniqueness and exposure targets across the build', async () => {
+    const uniquenessRules = { minUniquePlayers: 2, mvpSwapCountsAsUnique: false };
+    const exposureTargets = { '1': { mvp: { min: 0, max: 20 } }, '9': { flex: { min: 50, max: 100 } } };
+    const glpk = await buildWithBackend('GLPK', MOCK_PLAYERS, 10, NO_RULES, uniquenessRules, exposureTargets);
+    const exhaustive = await buildWithBackend('EXHAUSTIVE', MOCK_PLAYERS, 10, NO_RULES, uniquenessRules, exposureTargets);
+    expect(totals(exhaustive)).toEqual(totals(glpk));
+    expect(exhaustive.filter(l => l.mvp.id === '1').length).toBeLessThanOrEqual(2);
+    expect(exhaustive.filter(l => l.flex.some(p => p.id === '9')).length >= 5).toBeTruthy();
+});
+
+runTest('exhaustive backend scores correlation bonuses like the MILP objective', async () => {
+    const players = withCorrelation(STACK_PLAYERS, 'QB_A', 'WR_A', 0.8);
+    const glpk = await buildWithBackend('GLPK', players, 3, getPresetRules('Balanced Attack'), DEFAULT_UNIQUENESS_RULES, {}, 0.5);
+    const exhaustive = await buildWithBackend('EXHAUSTIVE', players, 3, getPresetRules('Balanced Attack'), DEFAULT_UNIQUENESS_RULES, {}, 0.5);
+    expect(signatures(exhaustive)).toEqual(signatures(glpk));
+});
+
+// --- Infeasibility diagnostics ---
+
+const diagnose = async (players: Player[], lockedPlayers: Player[], count: number, salaryCap: number, uniquenessRules = DEFAULT_UNIQUENESS_RULES) => {
+    let report: InfeasibilityReport | null = null;
+    const lineups = await generateMultipleLineups(players, lockedPlayers, new Set(), count, salaryCap, NO_RULES, OPTIMIZATION_TARGET, { uniquenessRules, solverBackend: 'GLPK', onInfeasible: r => { report = r; } });
+    return { lineups, report: report as InfeasibilityReport | null };
+};
+
+runTest('diagnostics blame locked players that exceed the salary cap', async () => {
+    const locked = ['QB1', 'RB1', 'QB2', 'WR1'].map(name => MOCK_PLAYERS.find(p => p.name === name)!);
+    const { lineups, report } = await diagnose(MOCK_PLAYERS, locked, 1, 40000);
+    expect(lineups).toHaveLength(0);
+    expect(report!.lineupIndex).toEqual(0);
+    expect(report!.reasons.map(r => r.constraint)).toEqual(['LOCKS', 'SALARY_CAP']);
+    expect(report!.reasons[1].message).toEqual('Locked players cost $44,500, exceeding the salary cap by $4,500.');
+});
+
+runTest('diagnostics isolate uniqueness when the pool runs out of distinct lineups', async () => {
+    const fivePlayers = MOCK_PLAYERS.filter(p => ['1', '2', '3', '9', '10'].includes(p.id));
+    const { lineups, report } = await diagnose(fivePlayers, [], 2, SALARY_CAP, { minUniquePlayers: 1, mvpSwapCountsAsUnique: false });
+    expect(lineups).toHaveLength(1);
+    expect(report!.lineupIndex).toEqual(1);
+    expect(report!.reasons.map(r => r.constraint)).toEqual(['UNIQUENESS']);
+});
+
+runTest('diagnostics stay silent when the full build succeeds', async () => {
+    const { lineups, report } = await diagnose(MOCK_PLAYERS, [], 3, SALARY_CAP);
+    expect(lineups).toHaveLength(3);
+    expect(report).toEqual(null);
+});
+
+// --- Portfolio mode ---
+
+const buildPortfolio = (objective: 'EXPECTED_PAYOUT' | 'TOP_1_PERCENT', seed: number, exposureTargets = {}) =>
+    generatePortfolio(MOCK_PLAYERS, [], new Set(), 10, SALARY_CAP, NO_RULES, OPTIMIZATION_TARGET, { enabled: true, objective, candidatePoolSize: 80, simulations: 500, seed }, createContestStructure('GPP', 5, 1000, 150), { exposureTargets, solverBackend: 'EXHAUSTIVE' });
+
+runTest('portfolio mode picks N distinct legal lineups and replays from its seed', async () => {
+    const first = await buildPortfolio('EXPECTED_PAYOUT', 7);
+    const second = await buildPortfolio('EXPECTED_PAYOUT', 7);
+    expect(first).toHaveLength(10);
+    expect(new Set(signatures(first)).size).toEqual(10);
+    expect(signatures(first)).toEqual(signatures(second));
+    first.forEach(lineup => expect(validateLineup(lineup, DEFAULT_ROSTER_RULES, SALARY_CAP)).toHaveLength(0));
+});
+
+runTest('top-1% portfolio reaches beyond the top projected lineups', async () => {
+    const sequential = signatures(await buildWithBackend('EXHAUSTIVE', MOCK_PLAYERS, 10, NO_RULES));
+    const hedged = signatures(await buildPortfolio('TOP_1_PERCENT', 7));
+    expect(hedged).toHaveLength(10);
+    expect(hedged.some(signature => !sequential.includes(signature))).toBeTruthy();
+});
+
+runTest('portfolio selection honours exposure caps', async () => {
+    const lineups = await buildPortfolio('EXPECTED_PAYOUT', 7, { '1': { mvp: { min: 0, max: 10 } } });
+    expect(lineups.filter(l => l.mvp.id === '1').length).toBeLessThanOrEqual(1);
+});
+
+// --- Monte Carlo game simulator ---
+
+const sampleCorrelation = (a: Float64Array, b: Float64Array) => {
+    const mean = (x: Float64Array) => x.reduce((sum, v) => sum + v, 0) / x.length;
+    const ma = mean(a), mb = mean(b);
+    let cov = 0, va = 0, vb = 0;
+    for (let i = 0; i < a.length; i++) {
+        cov += (a[i] - ma) * (b[i] - mb);
+        va += (a[i] - ma) ** 2;
+        vb += (b[i] - mb) ** 2;
+    }
+    return cov / Math.sqrt(va * vb);
+};
+
+const VEGAS_PLAYERS: Player[] = STACK_PLAYERS.map(p => ({
+    ...p,
+    scenarioFpts: { ceiling: p.fpts * 1.8, floor: p.fpts * 0.4 },
+    vegas: p.team === 'TEAM_A' ? { spread: -7, total: 48, impliedTeamTotal: 27.5 } : { spread: 7, total: 48, impliedTeamTotal: 20.5 },
+}));
+
+runTest('game simulator replays from its seed and follows the Vegas line', async () => {
+    const first = simulateGames(VEGAS_PLAYERS, 4000, 99);
+    const second = simulateGames(VEGAS_PLAYERS, 4000, 99);
+    expect(Array.from(first.playerFpts.get('QB_A')!.slice(0, 5))).toEqual(Array.from(second.playerFpts.get('QB_A')!.slice(0, 5)));
+    const teamA = summarizeDistribution(first.teamPoints.get('TEAM_A')!);
+    const teamB = summarizeDistribution(first.teamPoints.get('TEAM_B')!);
+    expect(Math.abs(teamA.mean - 27.5) < 1).toBeTruthy();
+    expect(Math.abs(teamB.mean - 20.5) < 1).toBeTruthy();
+});
+
+runTest('game simulator correlates teammates and sets defenses against the opposing offense', async () => {
+    const simulation = simulateGames(VEGAS_PLAYERS, 4000, 99);
+    const draws = (id: string) => simulation.playerFpts.get(id)!;
+    expect(sampleCorrelation(draws('QB_A'), draws('WR_A')) > 0.3).toBeTruthy();
+    expect(sampleCorrelation(draws('QB_A'), draws('D_B')) < -0.2).toBeTruthy();
+    expect(Math.abs(sampleCorrelation(draws('RB_A'), draws('RB_B'))) < 0.15).toBeTruthy();
+});
+
+runTest('game simulator draws stat lines and scores them under the scoring system', async () => {
+    const players = VEGAS_PLAYERS.map(p => p.id === 'WR_A'
+        ? { ...p, statProjections: { mean: { receptions: 6, receivingYards: 92, receivingTds: 0.6 }, ceiling: {} } }
+        : p);
+    const simulation = simulateGames(players, 2000, 7, DRAFTKINGS_SCORING);
+    const teamA = simulation.teamPoints.get('TEAM_A')!;
+    const receiver = simulation.playerFpts.get('WR_A')!;
+    const ratios = new Set<string>();
+    let bonusGames = 0;
+    for (let s = 0; s < simulation.simulations; s++) {
+        expect(getSimulatedStatLine(simulation, 'D_B', s)!.pointsAllowed).toBe(Math.round(teamA[s]));
+        const statLine = getSimulatedStatLine(simulation, 'WR_A', s)!;
+        if (statLine.recYds! >= 100) bonusGames++;
+        const raw = scoreStatLine(statLine, DRAFTKINGS_SCORING);
+        if (raw > 0) ratios.add((receiver[s] / raw).toFixed(9));
+    }
+    // Every draw is the DraftKings score of its box score, bonus included, under one rescaling to the projection.
+    expect(ratios.size).toBe(1);
+    expect(bonusGames > 0).toBeTruthy();
+    expect(Math.abs(summarizeDistribution(receiver).mean - players.find(p => p.id === 'WR_A')!.fpts) < 1e-6).toBeTruthy();
+    expect(getSimulatedStatLine(simulation, 'QB_A', 0)).toBe(null);
+    expect(sampleCorrelation(simulation.playerFpts.get('QB_A')!, receiver) > 0.3).toBeTruthy();
+});
+
+runTest('simulated lineup distributions flow into lineup stats', async () => {
+    const simulation = simulateGames(VEGAS_PLAYERS, 2000, 5);
+    const [mvp, ...flex] = ['QB_A', 'WR_A', 'RB_A', 'K_B', 'WR_B'].map(id => VEGAS_PLAYERS.find(p => p.id === id)!);
+    const stats = calculateLineupStats(mvp, flex, 'mean', undefined, simulation);
+    const playerMeans = getPlayerDistributions(simulation);
+    const expectedMean = playerMeans['QB_A'].mean * 1.5 + flex.reduce((sum, p) => sum + playerMeans[p.id].mean, 0);
+    expect(Math.abs(stats.scoreDistribution!.mean - expectedMean) < 1e-6).toBeTruthy();
+    expect(stats.scoreDistribution!.p90 > stats.scoreDistribution!.p10).toBeTruthy();
+});
+
+// --- Contest field simulator ---
+
+// Ownership is consistent with a 5-man roster: MVP shares sum to 100%, FLEX shares to 400%.
+const FIELD_PLAYERS: Player[] = ([
+    ['QB_A', 'QB', 16000, 22, 'TEAM_A', 30, 60], ['WR_A', 'WR', 13000, 16, 'TEAM_A', 15, 47], ['RB_A', 'RB', 12000, 15, 'TEAM_A', 10, 43],
+    ['TE_A', 'TE', 8000, 9, 'TEAM_A', 4, 25], ['K_A', 'K', 9000, 8, 'TEAM_A', 1, 21], ['D_A', 'D', 8500, 7, 'TEAM_A', 1, 17],
+    ['QB_B', 'QB', 15000, 20, 'TEAM_B', 25, 55], ['WR_B', 'WR', 12500, 14, 'TEAM_B', 8, 38], ['RB_B', 'RB', 11000, 12, 'TEAM_B', 4, 34],
+    ['TE_B', 'TE', 7000, 7, 'TEAM_B', 1.5, 21], ['WR2_B', 'WR', 6000, 6, 'TEAM_B', 0.5, 26], ['K_B', 'K', 8800, 8, 'TEAM_B', 0, 13],
+] as [string, string, number, number, string, number, number][]).map(([id, pos, salary, fpts, team, mvpOwnership, flexOwnership]) => ({
+    ...createMockPlayer(id, id, pos, salary, fpts, fpts * 1.8, team),
+    opponent: team === 'TEAM_A' ? 'TEAM_B' : 'TEAM_A',
+    scenarioFpts: { ceiling: fpts * 1.8, floor: fpts * 0.4 },
+    mvpOwnership,
+    flexOwnership,
+}));
+
+const fieldOwnership = (entries: { mvpId: string, flexIds: string[] }[], id: string) => ({
+    mvp: entries.filter(e => e.mvpId === id).length / entries.length * 100,
+    flex: entries.filter(e => e.flexIds.includes(id)).length / entries.length * 100,
+});
+
+runTest('contest field replays from its seed and only contains legal lineups', async () => {
+    const first = generateContestField(FIELD_PLAYERS, 500, 11);
+    const second = generateContestField(FIELD_PLAYERS, 500, 11);
+    expect(first.entries).toHaveLength(500);
+    expect(first.entries).toEqual(second.entries);
+    first.entries.forEach(entry => {
+        const lineup = { mvp: FIELD_PLAYERS.find(p => p.id === entry.mvpId)!, flex: entry.flexIds.map(id => FIELD_PLAYERS.find(p => p.id === id)!) };
+        expect(validateLineup(lineup, DEFAULT_ROSTER_RULES, SALARY_CAP)).toHaveLength(0);
+    });
+});
+
+runTest('contest field matches projected ownership and spends most of the cap', async () => {
+    const field = generateContestField(FIELD_PLAYERS, 100000, 3, undefined, SALARY_CAP);
+    expect(field.entries).toHaveLength(2000);
+    expect(field.entryWeight).toEqual(50);
+    const errors = FIELD_PLAYERS.map(p => {
+        const realized = fieldOwnership(field.entries, p.id);
+        return { mvp: Math.abs(realized.mvp - p.mvpOwnership), flex: Math.abs(realized.flex - p.flexOwnership) };
+    });
+    expect(errors.reduce((sum, e) => sum + e.mvp, 0) / errors.length < 2).toBeTruthy();
+    expect(errors.reduce((sum, e) => sum + e.flex, 0) / errors.length < 6).toBeTruthy();
+    expect(fieldOwnership(field.entries, 'K_B').mvp < 1).toBeTruthy();
+
+    const salaryLeft = field.entries.map(e => SALARY_CAP - [e.mvpId, ...e.flexIds].reduce((sum, id) => sum + FIELD_PLAYERS.find(p => p.id === id)!.salary, 0));
+    expect(salaryLeft.reduce((sum, v) => sum + v, 0) / salaryLeft.length < 1500).toBeTruthy();
+});
+
+runTest('field standings count real contest entries above and tied', async () => {
+    const field = generateContestField(FIELD_PLAYERS, 4000, 3, undefined, SALARY_CAP, DEFAULT_ROSTER_RULES, 1000);
+    const scored = scoreContestField(simulateGames(FIELD_PLAYERS, 200, 3), field, FIELD_PLAYERS);
+    expect(getFieldStanding(scored, 0, -1)).toEqual({ above: 4000, tied: 0 });
+    expect(getFieldStanding(scored, 0, Infinity)).toEqual({ above: 0, tied: 0 });
+    const median = scored.sortedScores[0][500];
+    const standing = getFieldStanding(scored, 0, median);
+    // The 501st-lowest of 1,000 sampled entries, each standing for four real ones.
+    expect(standing.tied >= 4).toBeTruthy();
+    expect(standing.above <= 499 * 4).toBeTruthy();
+    expect(standing.above + standing.tied >= 500 * 4).toBeTruthy();
+});
+
+// --- Contest payouts ---
+
+runTest('payout arrays pay out the prize pool after rake, best places first', async () => {
+    const gpp = buildPayouts('GPP', 5, 1000);
+    expect(gpp).toHaveLength(200);
+    expect(Math.abs(gpp.reduce((sum, p) => sum + p, 0) - 4400) < 0.01).toBeTruthy();
+    expect(gpp.every((prize, k) => k === 0 || prize <= gpp[k - 1])).toBeTruthy();
+    expect(gpp[gpp.length - 1]).toEqual(7.5);
+
+    const doubleUp = buildPayouts('DOUBLE_UP', 5, 1000);
+    expect(doubleUp).toHaveLength(440);
+    expect(doubleUp.every(prize => prize === 10)).toBeTruthy();
+});
+
+runTest('a double-up pays every cash the same and leaves the rounding remainder unpaid', async () => {
+    // $18.48 in prizes pays three $6 cashes; the last $0.48 is kept back rather than added to first.
+    expect(buildPayouts('DOUBLE_UP', 3, 7)).toEqual([6, 6, 6]);
+});
+
+runTest('pasted or CSV payout tables expand place ranges and replace the estimated curve', async () => {
+    const pasted = parsePayoutTable('Place\tPrize\n1st\t$1,000\n2nd - 3rd\t$250.50\n4-6, 20\n');
+    expect(pasted).toEqual([1000, 250.5, 250.5, 20, 20, 20]);
+    expect(parsePayoutTable('"Prize"\n"$100"\n50\n25')).toEqual([100, 50, 25]);
+    let error = '';
+    try { parsePayoutTable('1, 100\n3, 50'); } catch (e) { error = (e as Error).message; }
+    expect(error.includes('place 2')).toBeTruthy();
+
+    const structure = createContestStructure('GPP', 5, 4, 1, pasted);
+    expect(structure.payouts).toEqual([1000, 250.5, 250.5, 20]);
+    expect(structure.payoutSource).toBe('TABLE');
+    expect(createContestStructure('GPP', 5, 1000, 1, []).payouts).toEqual(buildPayouts('GPP', 5, 1000));
+    expect(createContestStructure('GPP', 5, 1000, 1).payoutSource).toBe('ESTIMATED');
+});
+
+runTest('tied and duplicated entries split the prizes of every place they occupy', async () => {
+    const structure = { name: 'Test', entryFee: 10, fieldSize: 3, payouts: [100, 50, 20], maxEntries: 1 };
+    const contest = createContestSimulation(FIELD_PLAYERS, simulateGames(FIELD_PLAYERS, 10, 1), structure, 1);
+    expect(getFinishPayout(contest, 0, 0)).toEqual(100);
+    expect(getFinishPayout(contest, 0, 1)).toEqual(75);
+    expect(Math.abs(getFinishPayout(contest, 0, 2) - 170 / 3) < 1e-9).toBeTruthy();
+    expect(getFinishPayout(contest, 2, 1)).toEqual(10);
+    expect(getFinishPayout(contest, 3, 0)).toEqual(0);
+});
+
+runTest('contest pricing reports dollar EV and ROI against the entry fee', async () => {
+    const structure = createContestStructure('GPP', 20, 500, 150);
+    const lineups = await generateMultipleLineups(FIELD_PLAYERS, [], new Set(), 3, SALARY_CAP, NO_RULES, OPTIMIZATION_TARGET);
+    const priced = evaluateContestEv(lineups, FIELD_PLAYERS, structure, OPTIMIZATION_TARGET, 4, undefined, SALARY_CAP, 300);
+    expect(priced).toHaveLength(3);
+    priced.forEach(lineup => {
+        expect(lineup.expectedPayout! >= 0 && lineup.expectedPayout! <= structure.payouts[0]).toBeTruthy();
+        expect(Math.abs(lineup.roi! - (lineup.expectedPayout! - 20) / 20 * 100) < 1e-9).toBeTruthy();
+        expect(lineup.upsideScore > 0).toBeTruthy();
+    });
+    // Unpriced builds carry only the fantasy-point score, never a dollar figure.
+    expect(lineups.every(l => l.expectedPayout === undefined && l.roi === undefined && l.upsideScore > 0)).toBeTruthy();
+    const again = evaluateContestEv(lineups, FIELD_PLAYERS, structure, OPTIMIZATION_TARGET, 4, undefined, SALARY_CAP, 300);
+    expect(again.map(l => l.expectedPayout)).toEqual(priced.map(l => l.expectedPayout));
+});
+
+// --- Simulated duplication ---
+
+runTest('simulated dupes count exact field matches with a range that never collapses to zero', async () => {
+    const field = generateContestField(FIELD_PLAYERS, 10000, 8, undefined, SALARY_CAP);
+    const [chalkSignature, chalkCount] = [...field.signatureCounts.entries()].sort((a, b) => b[1] - a[1])[0];
+    const [mvpId, ...flexIds] = chalkSignature.split(',');
+    const chalk = estimateDuplicates(field, { mvpId, flexIds: [...flexIds].reverse() });
+    expect(chalk.matches).toEqual(chalkCount);
+    expect(chalk.expected).toEqual(chalkCount * field.entryWeight);
+    expect(chalk.low < chalk.expected && chalk.expected < chalk.high).toBeTruthy();
+
+    const unseen = estimateDuplicates(field, { mvpId: 'K_B', flexIds: ['D_A', 'TE_B', 'WR2_B', 'K_A'] });
+    expect(unseen.expected).toEqual(0);
+    expect(unseen.low).toEqual(0);
+    expect(unseen.high > 0).toBeTruthy();
+});
+
+runTest('priced lineups keep the ownership proxy next to the simulated dupe estimate', async () => {
+    const structure = createContestStructure('GPP', 5, 5000, 150);
+    const lineups = await generateMultipleLineups(FIELD_PLAYERS, [], new Set(), 2, SALARY_CAP, NO_RULES, OPTIMIZATION_TARGET);
+    expect(lineups[0].simulatedDuplication).toEqual(undefined);
+    expect(lineups[0].duplicationRisk).toEqual(lineups[0].duplicationProxy);
+
+    const [priced] = evaluateContestEv(lineups, FIELD_PLAYERS, structure, OPTIMIZATION_TARGET, 2, undefined, SALARY_CAP, 100);
+    expect(priced.duplicationProxy).toEqual(lineups[0].duplicationProxy);
+    expect(priced.duplicationRisk).toEqual(priced.simulatedDuplication!.expected);
+    expect(priced.simulatedDuplication!.sampleSize).toEqual(2000);
+});
+
+// --- Quantile projections ---
+
+// Cheap WRs boom and bust far more, relative to their average, than expensive QBs.
+const QUANTILE_VAULT: HistoricalGame[] = Array.from({ length: 30 }, (_, g) => ({
+    gameId: `G${g}`,
+    description: `Game ${g}`,
+    pregameContext: { injuries: [], vegasLine: '' },
+    players: [
+        { name: `QB${g}`, team: 'A', position: 'QB', stats: {}, actualFdp: 18 + (g % 5), salary: 15000 },
+        { name: `WR${g}`, team: 'B', position: 'WR', stats: {}, actualFdp: g % 3 === 0 ? 20 : 2, salary: 6000 },
+        { name: `TE${g}`, team: 'B', position: 'TE', stats: {}, actualFdp: 6 + (g % 4) },
+    ],
+}));
+
+runTest('quantile model fits residual spreads by position and salary tier with fallbacks', async () => {
+    const model = fitQuantileModel(QUANTILE_VAULT);
+    const qb = getQuantileMultipliers(model, 'QB', 16000);
+    const wr = getQuantileMultipliers(model, 'WR', 5000);
+    expect(qb.p90 - qb.p10 < wr.p90 - wr.p10).toBeTruthy();
+    [qb, wr].forEach(m => expect(m.p10 <= m.p25 && m.p25 <= m.p50 && m.p50 <= m.p75 && m.p75 <= m.p90 && m.p90 <= m.p99).toBeTruthy());
+    // No salary in the vault for TEs: the position-wide bucket is used for any tier.
+    expect(getQuantileMultipliers(model, 'TE', 5000)).toEqual(model.buckets['TE|ALL'].multipliers);
+    // Never seen: the pooled bucket.
+    expect(getQuantileMultipliers(model, 'K', 9000)).toEqual(model.buckets['ALL|ALL'].multipliers);
+    expect(getQuantileMultipliers(null, 'QB', 16000)).toEqual(DEFAULT_QUANTILE_MULTIPLIERS);
+});
+
+// Every WR scores exactly what their salary implies: the tier holds 4- to 7-point players but no surprises.
+const SALARY_LADDER_VAULT: HistoricalGame[] = Array.from({ length: 24 }, (_, g) => ({
+    gameId: `L${g}`,
+    description: `Ladder ${g}`,
+    pregameContext: { injuries: [], vegasLine: '' },
+    players: [
+        { name: `WR${g}`, team: 'A', position: 'WR', stats: {}, actualFdp: 4 + (g % 4), salary: 4000 + (g % 4) * 1000 },
+        { name: `RB${g}`, team: 'A', position: 'RB', stats: {}, actualFdp: g % 2 === 0 ? 15 : 5, projectedFdp: g % 2 === 0 ? 15 : 5, salary: 9000 },
+    ],
+}));
+
+runTest('quantiles are fitted on residuals against each player\'s own pre-game projection', async () => {
+    const model = fitQuantileModel(SALARY_LADDER_VAULT);
+    // Outcomes spread across the tier only because salaries do; around each player's projection there is none.
+    const wr = getQuantileMultipliers(model, 'WR', 5000);
+    expect(Math.abs(wr.p10 - 1) < 1e-9 && Math.abs(wr.p90 - 1) < 1e-9).toBeTruthy();
+    // Recorded projections win over the salary line, which cannot separate two RBs at the same salary.
+    const rb = getQuantileMultipliers(model, 'RB', 9000);
+    expect(Math.abs(rb.p10 - 1) < 1e-9 && Math.abs(rb.p90 - 1) < 1e-9).toBeTruthy();
+});
+
+runTest('a supplied floor or ceiling is kept and only the missing end is fitted', async () => {
+    const model = fitQuantileModel(QUANTILE_VAULT);
+    const base = createMockPlayer('S', 'Supplied', 'WR', 6000, 10, 0, 'TEAM_A');
+    const fitted = applyQuantiles(base, model);
+    const withCeiling = applyQuantiles({ ...base, suppliedRange: { ceiling: 31 } }, model);
+    expect(withCeiling.scenarioFpts.ceiling).toBe(31);
+    expect(withCeiling.quantiles!.p90).toBe(31);
+    expect(withCeiling.scenarioFpts.floor).toBe(fitted.scenarioFpts.floor);
+    const withBoth = applyQuantiles({ ...base, suppliedRange: { floor: 4, ceiling: 18 } }, model);
+    expect([withBoth.scenarioFpts.floor, withBoth.scenarioFpts.ceiling]).toEqual([4, 18]);
+    expect(withBoth.quantiles!.p75 <= 18 && withBoth.quantiles!.p99 >= 18).toBeTruthy();
+});
+
+runTest('fitted quantiles set floor and ceiling and can drive the optimizer', async () => {
+    const model = fitQuantileModel(QUANTILE_VAULT);
+    const [player] = MOCK_PLAYERS.filter(p => p.id === '2').map(p => applyQuantiles(p, model));
+    expect(player.scenarioFpts.floor).toEqual(player.quantiles!.p10);
+    expect(player.scenarioFpts.ceiling).toEqual(player.quantiles!.p90);
+
+    // A steady QB-tier player against a boom/bust WR-tier player with the same mean.
+    const pool = [
+        ...MOCK_PLAYERS.filter(p => p.id !== '2'),
+        createMockPlayer('STEADY', 'Steady', 'QB', 16000, 14, 14, 'TEAM_A'),
+        createMockPlayer('BOOM', 'Boom', 'WR', 6000, 14, 14, 'TEAM_A'),
+    ].map(p => applyQuantiles(p, model));
+    const uses = (lineup: { mvp: Player, flex: Player[] }, id: string) => lineup.mvp.id === id || lineup.flex.some(p => p.id === id);
+    const [safe] = await generateMultipleLineups(pool, [], new Set(), 1, 100000, NO_RULES, 'p10');
+    const [upside] = await generateMultipleLineups(pool, [], new Set(), 1, 100000, NO_RULES, 'p99');
+    expect(uses(safe, 'STEADY')).toBeTruthy();
+    expect(uses(upside, 'BOOM') && !uses(upside, 'STEADY')).toBeTruthy();
+});
+
+// --- Scoring systems ---
+
+// Model weights for skill-player projections; kickers and defenses are scored by the scoring system instead.
+const FD_WEIGHTS: StatWeights = { passYds: 0.04, passTds: 4, interceptions: -1, rushYds: 0.1, rushTds: 6, receptions: 0.5, recYds: 0.1, recTds: 6, fumblesLost: -2 };
+
+runTest('kicker and defense stat lines score on the FanDuel tables', async () => {
+    // 38, 45 and 52-yard field goals plus three extra points.
+    expect(calculateFptsFromProjections({ fieldGoals0to39: 1, fieldGoals40to49: 1, fieldGoals50Plus: 1, extraPoints: 3 })).toBe(15);
+    // 4 sacks, 2 interceptions, a fumble recovery, a pick-six, a safety, a punt return TD and a blocked kick.
+    const plays = { sacks: 4, defensiveInterceptions: 2, fumbleRecoveries: 1, defensiveTds: 1, safeties: 1, returnTds: 1, blockedKicks: 1 };
+    expect(calculateFptsFromProjections(plays)).toBe(26);
+    expect([0, 1, 6, 7, 13, 14, 20, 21, 27, 28, 34, 35, 50].map(points => getPointsAllowedFpts(points))).toEqual([10, 7, 7, 4, 4, 1, 1, 0, 0, -1, -1, -4, -4]);
+    expect(getExpectedPointsAllowedFpts(24, 0)).toBe(0);
+    // Uncertainty about a 24-point projection pulls in the shutout and blowout tiers either side.
+    expect(getExpectedPointsAllowedFpts(24, 8) !== 0).toBeTruthy();
+    expect(calculateFptsFromProjections({ rushingYards: 100, rushingTds: 1 })).toBe(16);
+});
+
+runTest('kickers and defenses get real projections from their stat lines or the Vegas line', async () => {
+    const kicker = createMockPlayer('K', 'Kicker', 'K', 9000, 0, 0, 'TEAM_A');
+    const defense = createMockPlayer('D', 'Defense', 'D', 8500, 0, 0, 'TEAM_A');
+    const favoured = { spread: -7, total: 48, impliedTeamTotal: 27.5 };
+    const underdog = { spread: 7, total: 48, impliedTeamTotal: 20.5 };
+    const kFav = projectPlayerFpts({ ...kicker, vegas: favoured }, FD_WEIGHTS);
+    const kDog = projectPlayerFpts({ ...kicker, vegas: underdog }, FD_WEIGHTS);
+    expect(kFav > kDog && kDog > 0).toBeTruthy();
+    expect(projectPlayerFpts({ ...defense, vegas: favoured }, FD_WEIGHTS) > projectPlayerFpts({ ...defense, vegas: underdog }, FD_WEIGHTS)).toBeTruthy();
+    expect(projectPlayerFpts({ ...defense, vegas: null }, FD_WEIGHTS) > 0).toBeTruthy();
+    // Supplied stat projections win over the Vegas line.
+    const projected = { ...kicker, vegas: favoured, statProjections: { mean: { fieldGoals0to39: 2, extraPoints: 2 }, ceiling: {} } };
+    expect(projectPlayerFpts(projected, FD_WEIGHTS)).toBe(8);
+    // A league that pays more for long kicks projects the same kicker higher.
+    const longKicks = createCustomScoringSystem(FANDUEL_SCORING, { fg50Plus: 6 });
+    expect(projectPlayerFpts({ ...kicker, vegas: favoured }, FD_WEIGHTS, longKicks) > kFav).toBeTruthy();
+});
+
+// Vault box scores carry no fumbles lost or 2-point conversions, so these recorded labels do not recompute
+// from the stored stats. The labels are kept as recorded until the missing stats are filled in from a source.
+const INCOMPLETE_VAULT_BOX_SCORES = new Set([
+    '2023_W1_KC_DET|Patrick Mahomes',
+    '2023_SB_KC_SF|Patrick Mahomes',
+    '2023_SB_KC_SF|Jauan Jennings',
+    '2022_W4_MIN_NO|Justin Jefferson',
+]);
+
+runTest('every complete vault box score recomputes its actualFdp exactly under FanDuel scoring', async () => {
+    let incomplete = 0;
+    PREPOPULATED_VAULT.forEach(game => game.players.forEach(p => {
+        expect(getActualFpts(p, FANDUEL_SCORING)).toBe(p.actualFdp);
+        if (INCOMPLETE_VAULT_BOX_SCORES.has(`${game.gameId}|${p.name}`)) {
+            incomplete++;
+            return;
+        }
+        expect(`${p.name}: ${scoreStatLine(p.stats, FANDUEL_SCORING)}`).toBe(`${p.name}: ${p.actualFdp}`);
+    }));
+    // A stale entry here would hide a label that has since been fixed.
+    expect(incomplete).toBe(INCOMPLETE_VAULT_BOX_SCORES.size);
+});
+
+runTest('site scoring covers 2-point conversions, fumble-return TDs and yardage bonuses', async () => {
+    // 8 catches for 104 yards and a TD, a 2-point conversion and a fumble recovered in the end zone.
+    const line = { receptions: 8, recYds: 104, recTds: 1, twoPtConversions: 1, fumbleReturnTds: 1, fumblesLost: 1 };
+    expect(scoreStatLine(line, FANDUEL_SCORING)).toBe(4 + 10.4 + 6 + 2 + 6 - 2);
+    expect(scoreStatLine(line, DRAFTKINGS_SCORING)).toBe(8 + 10.4 + 6 + 2 + 6 - 1 + 3);
+    expect(scoreStatLine({ ...line, recYds: 99 }, DRAFTKINGS_SCORING)).toBe(8 + 9.9 + 6 + 2 + 6 - 1);
+    // Projected yards straddling the threshold earn part of the bonus.
+    const projected = calculateFptsFromProjections({ receivingYards: 100 }, DRAFTKINGS_SCORING);
+    expect(projected > 10 && projected < 13).toBeTruthy();
+    expect(calculateFptsFromProjections({ receivingYards: 100 }, FANDUEL_SCORING)).toBe(10);
+    expect(getActualFpts({ name: 'X', team: 'A', position: 'WR', stats: line, actualFdp: 26.4 }, DRAFTKINGS_SCORING)).toBe(34.4);
+    expect(getRulesetScoringSystem(DRAFTKINGS_SHOWDOWN)).toBe(DRAFTKINGS_SCORING);
+});
+
+// --- Third-party projection sources ---
+
+const SOURCE_SLATE: Player[] = [
+    createMockPlayer('QB1', 'Patrick Mahomes', 'QB', 16000, 20, 30, 'KC'),
+    createMockPlayer('WR1', 'Michael Pittman Jr.', 'WR', 10000, 10, 18, 'IND'),
+    createMockPlayer('WR2', 'Mike Williams', 'WR', 9000, 8, 14, 'KC'),
+    createMockPlayer('WR3', 'Mike Williams', 'WR', 7000, 6, 12, 'IND'),
+    createMockPlayer('DKC', 'Kansas City Chiefs', 'D', 8000, 6, 12, 'KC'),
+];
+
+runTest('projection CSVs match rows to slate players by name, team and defense', async () => {
+    const csv = [
+        'Name,Team,Mean,Ceiling,Ownership',
+        'Patrick Mahomes,KC,22,33,40%',
+        '"Michael Pittman",IND,12,,',
+        'Mike Williams,IND,7,11,5',
+        'Mike Williams,,9,13,5',
+        'Chiefs D/ST,KC,8,15,10',
+        'Nobody Here,KC,3,5,1',
+    ].join('\n');
+    const source = parseProjectionCsv(csv, 'outside.csv', SOURCE_SLATE);
+    expect(Object.keys(source.projections).sort()).toEqual(['DKC', 'QB1', 'WR1', 'WR3']);
+    expect(source.projections.QB1).toEqual({ mean: 22, ceiling: 33, ownership: 40 });
+    expect(source.projections.WR1.ceiling).toEqual(undefined);
+    // Two Mike Williams and no team to tell them apart.
+    expect(source.unmatchedRows).toEqual(['Mike Williams', 'Nobody Here (KC)']);
+    expect(source.weight).toBe(1);
+});
+
+runTest('blended projections are weighted averages of the model and every covering source', async () => {
+    const slate = SOURCE_SLATE.map(p => applyQuantiles(p, null));
+    const a = { id: 'a', name: 'a', weight: 1, unmatchedRows: [], projections: { QB1: { mean: 26, ceiling: 40, ownership: 50 } } };
+    const b = { id: 'b', name: 'b', weight: 2, unmatchedRows: [], projections: { QB1: { mean: 23 }, WR1: { mean: 12 } } };
+    const blended = blendProjections(slate, [a, b], 1);
+    const qb = blended.find(p => p.id === 'QB1')!;
+    expect(qb.fpts).toBe((20 + 26 + 2 * 23) / 4);
+    // Source b has no ceiling: its mean is scaled by the model's ceiling-to-mean ratio.
+    const modelCeiling = slate[0].scenarioFpts.ceiling;
+    expect(Math.abs(qb.scenarioFpts.ceiling - (modelCeiling + 40 + 2 * 23 * modelCeiling / 20) / 4) < 1e-9).toBeTruthy();
+    expect(qb.flexOwnership).toBe((5 + 50) / 2);
+    expect(Math.abs(qb.quantiles!.p50 - slate[0].quantiles!.p50 * qb.fpts / 20) < 1e-9).toBeTruthy();
+    expect(qb.projectionBlend!.sources.map(s => s.name)).toEqual(['a', 'b']);
+    // Uncovered players are untouched; a model weight of 0 uses the sources alone.
+    expect(blended.find(p => p.id === 'WR2')).toBe(slate[2]);
+    expect(blendProjections(slate, [b], 0).find(p => p.id === 'WR1')!.fpts).toBe(12);
+});
+
+// --- Manual overrides ---
+
+runTest('a newer override supersedes the old one, and reverting restores the pipeline value', async () => {
+    const slate = SOURCE_SLATE.map(p => applyQuantiles(p, null));
+    const qb = slate[0];
+    let history = createOverride([], qb, 'fpts', 25);
+    history = createOverride(history, qb, 'fpts', 30);
+    history = createOverride(history, qb, 'injuryStatus', 'Questionable');
+    expect(history.length).toBe(3);
+    expect(history[0].revertedAt !== undefined).toBeTruthy();
+    expect(getActiveOverrides(history).map(o => o.value)).toEqual([30, 'Questionable']);
+
+    const { players, applied } = applyOverrides(slate, history);
+    const overridden = players[0];
+    expect(overridden.fpts).toBe(30);
+    expect(overridden.injuryStatus).toBe('Questionable');
+    expect(Math.abs(overridden.scenarioFpts.ceiling - qb.scenarioFpts.ceiling * 1.5) < 1e-9).toBeTruthy();
+    expect(Math.abs(overridden.quantiles!.p10 - qb.quantiles!.p10 * 1.5) < 1e-9).toBeTruthy();
+    expect(overridden.overriddenFields).toEqual(['fpts', 'injuryStatus']);
+    expect(applied.map(o => o.pipelineValue)).toEqual([20, qb.injuryStatus]);
+    expect(players[1]).toBe(slate[1]);
+
+    const reverted = revertOverride(history, history[1].id);
+    const restored = applyOverrides(slate, reverted).players[0];
+    expect(restored.fpts).toBe(20);
+    expect(restored.injuryStatus).toBe('Questionable');
+    expect(reverted.length).toBe(3); // Reverted entries stay in the audit trail
+});
+
+runTest('a ceiling override becomes P90 even when the mean is also overridden', async () => {
+    const slate = SOURCE_SLATE.map(p => applyQuantiles(p, null));
+    let history = createOverride([], slate[1], 'ceiling', 25);
+    history = createOverride(history, slate[1], 'fpts', 12);
+    history = createOverride(history, slate[1], 'flexOwnership', 33);
+    const wr = applyOverrides(slate, history).players[1];
+    expect(wr.fpts).toBe(12);
+    expect(wr.scenarioFpts.ceiling).toBe(25);
+    expect(wr.quantiles!.p90).toBe(25);
+    expect(wr.quantiles!.p99 > 25).toBeTruthy();
+    expect(wr.flexOwnership).toBe(33);
+});
+
+runTest('the run manifest records each applied override with the value it replaced', async () => {
+    const slate = SOURCE_SLATE.map(p => applyQuantiles(p, null));
+    const history = createOverride([], slate[0], 'mvpOwnership', 12);
+    const { applied } = applyOverrides(slate, history);
+    const settings = { lockedPlayerIds: [], excludedPlayerIds: [], numberOfLineups: 1, salaryCap: 60000 } as unknown as OptimizerSettings;
+    const manifest = await generateRunManifest(settings, null, slate, applied);
+    expect(manifest.overrides.length).toBe(1);
+    expect(manifest.overrides[0].field).toBe('mvpOwnership');
+    expect(manifest.overrides[0].value).toBe(12);
+    expect(manifest.overrides[0].pipelineValue).toBe(slate[0].mvpOwnership);
+    expect((await generateRunManifest(settings, null, slate)).overrides).toEqual([]);
+});
+
+// --- Vegas reconciliation ---
+
+const withStats = (player: Player, mean: StatProjections): Player =>
+    ({ ...player, vegas: { spread: 0, total: 42, impliedTeamTotal: 21 }, statProjections: { mean, ceiling: mean } });
+
+const VEGAS_SLATE: Player[] = [
+    withStats(createMockPlayer('VQB', 'QB', 'QB', 15000, 20, 30, 'KC'), { passingYards: 300, passingTds: 2.5, interceptions: 0.7, rushingYards: 20 }),
+    withStats(createMockPlayer('VWR', 'WR', 'WR', 10000, 14, 24, 'KC'), { receptions: 6, receivingYards: 90, receivingTds: 0.8 }),
+    withStats(createMockPlayer('VRB', 'RB', 'RB', 9000, 12, 20, 'KC'), { rushingYards: 80, rushingTds: 0.7, receptions: 3, receivingYards: 20 }),
+    withStats(createMockPlayer('VK', 'K', 'K', 5000, 8, 12, 'KC'), {}),
+    createMockPlayer('VTE', 'TE', 'TE', 6000, 7, 12, 'BUF'),
+];
+
+runTest('team stat projections are scaled to the implied total and the spread-driven run/pass split', async () => {
+    const reconciled = reconcileWithVegas(VEGAS_SLATE);
+    const qb = reconciled[0];
+    const adjustment = qb.vegasAdjustment!;
+    // 21 implied points: 2.31 TDs and 328.5 yards, 58% through the air at a pick'em spread.
+    expect(Math.abs(adjustment.statImpliedTeamTotal - 3.2 / 0.11) < 1e-9).toBeTruthy();
+    expect(Math.abs(qb.statProjections!.mean.passingYards! - 328.5 * 0.58) < 1e-9).toBeTruthy();
+    expect(Math.abs(qb.statProjections!.mean.passingTds! - 2.31 * 0.58) < 1e-9).toBeTruthy();
+    expect(Math.abs(reconciled[2].statProjections!.mean.rushingTds! - 2.31 * 0.42) < 1e-9).toBeTruthy();
+    // Receivers move with their quarterback.
+    expect(reconciled[1].vegasAdjustment!.passYardsScale).toBe(adjustment.passYardsScale);
+    expect(Math.abs(reconciled[1].statProjections!.mean.receivingYards! - 90 * adjustment.passYardsScale) < 1e-9).toBeTruthy();
+    // The over-projected passing game drags the quarterback's mean and spread down together.
+    expect(adjustment.fptsScale < 1).toBeTruthy();
+    expect(qb.fpts).toBe(20 * adjustment.fptsScale);
+    expect(qb.scenarioFpts.ceiling).toBe(30 * adjustment.fptsScale);
+    expect(adjustment.originalFpts).toBe(20);
+    // Kickers and players without game lines pass through.
+    expect(reconciled[3]).toBe(VEGAS_SLATE[3]);
+    expect(reconciled[4]).toBe(VEGAS_SLATE[4]);
+});
+
+runTest('favourites lean on the run and underdogs on the pass', async () => {
+    expect(getTeamPassShare(-7) < getTeamPassShare(0)).toBeTruthy();
+    expect(getTeamPassShare(7) > getTeamPassShare(0)).toBeTruthy();
+    expect(getTeamPassShare(-100)).toBe(0.45);
+});
+
+// --- Walk-forward validation folds ---
+
+// Two games a week across the 2022 and 2023 seasons, listed newest first like the vault.
+const TIMELINE_GAMES = [2023, 2022].flatMap(year =>
+    Array.from({ length: 18 }, (_, w) => 18 - w).flatMap(week => [
+        { id: `${year}_W${week}_KC_BUF` }, { id: `${year}_W${week}_SF_DAL` },
+    ]));
+
+runTest('walk-forward folds never train on a game played on or after a validation game', async () => {
+    const folds = createWalkForwardFolds(TIMELINE_GAMES, 50, 3, 2);
+    expect(folds.length).toBe(3);
+    folds.forEach((fold, i) => {
+        const lastTraining = Math.max(...fold.trainingGames.map(g => getGameWeekIndex(g.id)!));
+        const firstValidation = Math.min(...fold.validationGames.map(g => getGameWeekIndex(g.id)!));
+        // Purged: the two embargo weeks sit between training and validation, in neither set. Before the first
+        // 2023 block they are 2022's last two playoff rounds, which hold no games here.
+        expect(firstValidation - lastTraining).toBe(i === 0 ? 5 : 3);
+        expect(fold.embargoedGames.length).toBe(i === 0 ? 0 : 4);
+    });
+    // Expanding window over 36 weeks: the first 18 train the first fold, the last 18 are validated in blocks of 6.
+    expect(folds[0].trainingGames.length).toBe(36);
+    expect(folds.map(f => f.validationGames.length)).toEqual([12, 12, 12]);
+    expect(formatWeekIndex(folds[0].trainingWeeks[0])).toBe('2022 W1');
+    expect(formatWeekIndex(folds[2].validationWeeks[1])).toBe('2023 W18');
+    expect(folds[1].trainingGames.length > folds[0].trainingGames.length).toBeTruthy();
+});
+
+runTest('walk-forward folds place playoff games after week 18 of their season', async () => {
+    expect(getGameWeekIndex('2023_SB_KC_SF')! > getGameWeekIndex('2023_CON_KC_BAL')!).toBeTruthy();
+    expect(getGameWeekIndex('2023_WC_MIA_KC')! > getGameWeekIndex('2023_W18_KC_LAC')!).toBeTruthy();
+    expect(getGameWeekIndex('2024_W1_BAL_KC')! > getGameWeekIndex('2023_SB_KC_SF')!).toBeTruthy();
+    expect(formatWeekIndex(getGameWeekIndex('2023_DIV_KC_BUF')!)).toBe('2023 DIV');
+    const folds = createWalkForwardFolds([...TIMELINE_GAMES, { id: '2023_SB_KC_SF' }], 50, 3, 0);
+    expect(folds[folds.length - 1].validationGames.some(g => g.id === '2023_SB_KC_SF')).toBeTruthy();
+    expect(formatWeekIndex(folds[folds.length - 1].validationWeeks[1])).toBe('2023 SB');
+});
+
+runTest('walk-forward folds cap the fold count at the validation weeks and skip undated games', async () => {
+    const games = [...TIMELINE_GAMES.slice(0, 8), { id: 'custom_game' }];
+    // Four weeks: one trains, three are validated one week per fold.
+    const folds = createWalkForwardFolds(games, 25, 10, 0);
+    expect(folds.length).toBe(3);
+    expect(folds.flatMap(f => f.validationGames).some(g => g.id === 'custom_game')).toBeFalsy();
+    expect(getGameWeekIndex('custom_game')).toBe(null);
+    // An embargo as long as the history leaves no fold with anything to train on.
+    expect(createWalkForwardFolds(games, 25, 3, 4).length).toBe(0);
+});
+
+// --- Regularized regression ---
+
+// y = 3 + 2·signal, with a near-copy of the signal, two pure-noise columns and a constant column.
+// Rows are spread in order over one 18-week season, a game per week.
+const buildRegressionData = (rows: number) => {
+    let state = 7;
+    const rand = () => { state = (state * 9301 + 49297) % 233280; return state / 233280 - 0.5; };
+    const X: number[][] = [];
+    const y: number[] = [];
+    for (let i = 0; i < rows; i++) {
+        const signal = rand() * 10;
+        X.push([signal, signal + rand() * 0.5, rand() * 10, rand() * 10, 1]);
+        y.push(3 + 2 * signal + rand());
+    }
+    const gameIds = X.map((_, i) => `2023_W${Math.floor(i * 18 / rows) + 1}_AAA_BBB`);
+    return { X, y, gameIds };
+};
+const REGRESSION_FEATURES = ['signal', 'nearCopy', 'noiseA', 'noiseB', 'constant'];
+
+runTest('lasso picks its penalty by inner CV and keeps the signal with an intercept', async () => {
+    const { X, y, gameIds } = buildRegressionData(200);
+    const fit = fitRegularizedRegression(X, y, REGRESSION_FEATURES, 'lasso', gameIds);
+    expect(fit.report.innerFolds).toBe(5);
+    expect(fit.report.lambdaPath.length).toBe(20);
+    expect(fit.report.lambda).toBe(fit.report.lambdaPath.reduce((a, b) => b.cvMae < a.cvMae ? b : a).lambda);
+    expect(fit.report.nonZeroFeatures.includes('signal') || fit.report.nonZeroFeatures.includes('nearCopy')).toBeTruthy();
+    expect(fit.report.nonZeroFeatures.includes('constant')).toBeFalsy();
+    // Collinear columns share the effect; together they carry the true slope.
+    expect(Math.abs(fit.coefficients[0] + fit.coefficients[1] - 2) < 0.1).toBeTruthy();
+    expect(Math.abs(fit.intercept - 3) < 0.3).toBeTruthy();
+    expect(fit.report.cvMae < 0.5).toBeTruthy();
+    const signal = fit.report.stability.find(s => s.feature === (Math.abs(fit.coefficients[0]) > Math.abs(fit.coefficients[1]) ? 'signal' : 'nearCopy'))!;
+    expect(signal.selectionFrequency).toBe(1);
+    expect(signal.signConsistency).toBe(1);
+});
+
+runTest('ridge shrinks collinear features instead of letting them swing', async () => {
+    const { X, y, gameIds } = buildRegressionData(12);
+    const fit = fitRegularizedRegression(X, y, REGRESSION_FEATURES, 'ridge', gameIds);
+    expect(fit.coefficients.every(c => Math.abs(c) < 5)).toBeTruthy();
+    expect(fit.coefficients[4]).toBe(0);
+    expect(fit.report.stability.length).toBe(5);
+    const predicted = X.map(row => fit.intercept + row.reduce((sum, v, j) => sum + v * fit.coefficients[j], 0));
+    expect(predicted.reduce((sum, p, i) => sum + Math.abs(p - y[i]), 0) / y.length < 1).toBeTruthy();
+});
+
+runTest('inner CV folds are walk-forward and purge the embargo weeks', async () => {
+    const { X, y, gameIds } = buildRegressionData(200);
+    // 18 weeks: the first 9 train, so a 3-week embargo still leaves every inner fold something to fit.
+    const purged = fitRegularizedRegression(X, y, REGRESSION_FEATURES, 'ridge', gameIds, 3);
+    expect(purged.report.innerFolds).toBe(5);
+    let message = '';
+    try {
+        fitRegularizedRegression(X, y, REGRESSION_FEATURES, 'ridge', gameIds, 18);
+    } catch (e) {
+        message = e instanceof Error ? e.message : '';
+    }
+    expect(message.includes('Inner cross-validation')).toBeTruthy();
+});
+
+// --- Calibration metrics ---
+
+// Outcomes at the 5th, 15th, ..., 95th percentiles of N(10, 3²): exactly what a calibrated forecast expects.
+const CALIBRATED_Z = [-1.6449, -1.0364, -0.6745, -0.3853, -0.1257, 0.1257, 0.3853, 0.6745, 1.0364, 1.6449];
+const predictionsWithSpread = (sd: number) => CALIBRATED_Z.map(z => ({
+    predicted: 10, actual: 10 + 3 * z, floor: 10 - 1.2816 * sd, ceiling: 10 + 1.2816 * sd,
+}));
+
+runTest('a calibrated predictive distribution has uniform PITs and nominal coverage', async () => {
+    const report = generateCalibrationReport(predictionsWithSpread(3));
+    expect(report.ece! < 1e-9).toBeTruthy();
+    expect(report.p10Coverage).toBe(10);
+    expect(report.p50Coverage).toBe(50);
+    expect(report.p90Coverage).toBe(90);
+    expect(report.pitKsPValue).toBe(1);
+    expect(report.pitHistogram).toEqual(new Array(10).fill(0.1));
+    // CRPS credits the spread: below the MAE of the same point forecasts.
+    expect(report.crps < report.mae).toBeTruthy();
+    expect(generateCalibrationReport(predictionsWithSpread(3))).toEqual(report);
+});
+
+runTest('an overconfident distribution misses coverage, raises ECE and loses on CRPS', async () => {
+    const calibrated = generateCalibrationReport(predictionsWithSpread(3));
+    const overconfident = generateCalibrationReport(predictionsWithSpread(1));
+    expect(overconfident.p10Coverage).toBe(30);
+    expect(overconfident.p90Coverage).toBe(70);
+    expect(overconfident.ece! > 0.1).toBeTruthy();
+    expect(overconfident.crps > calibrated.crps).toBeTruthy();
+    expect(overconfident.mae).toBe(calibrated.mae);
+    expect(compareCalibrationReports(calibrated, overconfident) < 0).toBeTruthy();
+    // Reports saved before ECE existed rank after complete ones, however good their MAE.
+    const legacy = { mae: 0.1, crps: 0.075, pitKsPValue: 0.7, p50Coverage: 48 };
+    expect(compareCalibrationReports(legacy, overconfident) > 0).toBeTruthy();
+    expect(compareCalibrationReports(undefined, legacy) > 0).toBeTruthy();
+});
+
+// --- Model sets ---
+
+const segmentWith = (key: string, positionGroup: SegmentModel['positionGroup'], targetShare: number, intercept: number, archetype?: string): SegmentModel => ({
+    key, positionGroup, archetype, weights: { ...FD_WEIGHTS, targetShare }, intercept, trainingRows: 40,
+});
+const MODEL_SET: ModelSet = {
+    weights: { ...FD_WEIGHTS, targetShare: 10 },
+    intercept: 1,
+    segments: [segmentWith('WR', 'WR', 20, 2), segmentWith('WR|deep threat', 'WR', 30, 3, 'deep threat'), segmentWith('DEF', 'DEF', 0, 5)],
+};
+
+runTest('model sets route to the archetype, then the position group, then the global model', async () => {
+    expect(resolveSegmentModel(MODEL_SET, 'WR', '  Deep   THREAT ').segment?.key).toBe('WR|deep threat');
+    expect(resolveSegmentModel(MODEL_SET, 'WR', 'Slot Receiver').segment?.key).toBe('WR');
+    expect(resolveSegmentModel(MODEL_SET, 'WR').intercept).toBe(2);
+    const rb = resolveSegmentModel(MODEL_SET, 'RB', 'Deep Threat');
+    expect(rb.segment).toBe(null);
+    expect(rb.weights.targetShare).toBe(10);
+    expect(rb.intercept).toBe(1);
+    // FanDuel lists defenses as "D" and DraftKings as "DST".
+    expect([getPositionGroup('D'), getPositionGroup('dst'), getPositionGroup('FLEX')]).toEqual(['DEF', 'DEF', null]);
+    expect(resolveSegmentModel({ weights: FD_WEIGHTS }, 'WR', 'Deep Threat')).toEqual({ weights: FD_WEIGHTS, intercept: 0, segment: null });
+});
+
+runTest('a routed segment projects skill players with its intercept and leaves stat-line positions alone', async () => {
+    const receiver = { ...createMockPlayer('W', 'Receiver', 'WR', 12000, 0, 0, 'TEAM_A'), archetype: 'Deep Threat', advancedStats: { targetShare: 0.25 } };
+    const deep = resolveSegmentModel(MODEL_SET, receiver.position, receiver.archetype);
+    expect(projectPlayerFpts(receiver, deep.weights, FANDUEL_SCORING, deep.intercept)).toBe(3 + 30 * 0.25);
+    const defense = { ...createMockPlayer('D', 'Defense', 'D', 8500, 0, 0, 'TEAM_A'), vegas: { spread: -7, total: 48, impliedTeamTotal: 27.5 } };
+    // A saved set's DEF segment is never routed to: defenses project from their stat line.
+    const routed = resolveSegmentModel(MODEL_SET, 'D');
+    expect(routed.segment).toBe(null);
+    expect(projectPlayerFpts(defense, routed.weights, FANDUEL_SCORING, routed.intercept)).toBe(projectPlayerFpts(defense, FD_WEIGHTS));
+});
@@ -1,12 +1,20 @@
-import { Player, Lineup, StackingRules } from '../types';
-import { solveLineup } from './solverService';
+import { Player, Lineup, StackingRules, PlayerExposureTarget, ExposureRange, UniquenessRules, RosterRules, ContestRuleset, CorrelationObjective, RandomnessSettings, SolverBackendId, InfeasibilityReport, QuantileLevel, PlayerQuantiles } from '../types';
+import { SlotConstraints, DEFAULT_UNIQUENESS_RULES, DEFAULT_CORRELATION_OBJECTIVE } from './solverService';
+import { getLineupSolver, LineupSolverRequest } from './lineupSolver';
 import { calculateLineupStats } from './evSimulationService';
+import { validateLineup, DEFAULT_ROSTER_RULES } from './lineupValidator';
+import { DEFAULT_CONTEST_RULESET } from './contestRulesets';
+import { logger } from './loggingService';
+import { randomNormal } from './random';
+import { Z_90 } from './normalDistribution';
+import { diagnoseInfeasibility } from './infeasibilityService';
+import { getPlayerQuantile } from './quantileService';
 
-export type OptimizationTarget = 'mean' | 'ceiling';
+export type OptimizationTarget = 'mean' | 'ceiling' | QuantileLevel;
 
 // Helper to get Fpts based on optimization target
 export const getTargetFpts = (p: Player, target: OptimizationTarget) => {
-    const baseFpts = target === 'ceiling' ? p.scenarioFpts.ceiling : p.fpts;
+    const baseFpts = target === 'mean' ? p.fpts : target === 'ceiling' ? p.scenarioFpts.ceiling : getPlayerQuantile(p, target);
     return baseFpts + (p.usageBoost || 0);
 };
 
@@ -16,7 +24,151 @@ const getLineupSignature = (mvp: Player, flex: Player[]): string => {
   return [mvp.id, ...sortedFlexIds].join(',');
 };
 
-// Generates multiple lineups respecting exposure constraints
+// Exposure percentages as whole lineup counts: the max rounds down and the min rounds up.
+const getExposureCounts = (range: ExposureRange, numberOfLineups: number) => ({
+    minCount: Math.ceil((range.min / 100) * numberOfLineups),
+    maxCount: Math.floor((range.max / 100) * numberOfLineups),
+});
+
+/**
+ * Checks exposure targets against each other before a build, since the per-lineup locks
+ * cannot see a conflict until a lineup fails. Returns one message per conflict; empty when the targets fit.
+ * @param exposureTargets Per-player MVP/FLEX exposure ranges (percent of the build).
+ * @param numberOfLineups Total lineups in the build.
+ * @param flexSlots FLEX slots per lineup.
+ * @param players Used to name players in the messages; unknown IDs are shown as-is.
+ */
+export function validateExposureTargets(
+    exposureTargets: Record<string, PlayerExposureTarget>,
+    numberOfLineups: number,
+    flexSlots: number,
+    players: Player[] = [],
+): string[] {
+    const names = new Map(players.map(p => [p.id, p.name]));
+    const conflicts: string[] = [];
+    const mvpMinimums: { label: string; count: number }[] = [];
+    const flexMinimums: { label: string; count: number }[] = [];
+
+    for (const [id, target] of Object.entries(exposureTargets)) {
+        const name = names.get(id) ?? id;
+        for (const [slot, range, minimums] of [['MVP', target.mvp, mvpMinimums], ['FLEX', target.flex, flexMinimums]] as const) {
+            if (!range) continue;
+            const { minCount, maxCount } = getExposureCounts(range, numberOfLineups);
+            if (range.min > range.max) {
+                conflicts.push(`${name}: ${slot} minimum ${range.min}% is above the maximum ${range.max}%.`);
+            } else if (minCount > maxCount) {
+                conflicts.push(`${name}: ${slot} ${range.min}-${range.max}% of ${numberOfLineups} lineups leaves no whole lineup count between them.`);
+            } else if (maxCount === 0 && range.max > 0) {
+                // Counts round down to whole lineups, so a small cap would silently ban the player instead.
+                conflicts.push(`${name}: ${slot} maximum ${range.max}% of ${numberOfLineups} lineups rounds down to 0 lineups; use at least ${Math.ceil(100 / numberOfLineups)}% or 0% to exclude them.`);
+            } else if (minCount > 0) {
+                minimums.push({ label: `${name} (${range.min}%)`, count: minCount });
+            }
+        }
+    }
+
+    // Each lineup has one MVP, so minimums that add up past the build lock two MVPs into one lineup.
+    const mvpNeeded = mvpMinimums.reduce((sum, m) => sum + m.count, 0);
+    if (mvpMinimums.length > 1 && mvpNeeded > numberOfLineups) {
+        conflicts.push(`MVP minimums for ${mvpMinimums.map(m => m.label).join(', ')} need ${mvpNeeded} MVP slots, but ${numberOfLineups} lineups have ${numberOfLineups}.`);
+    }
+    const flexNeeded = flexMinimums.reduce((sum, m) => sum + m.count, 0);
+    if (flexNeeded > flexSlots * numberOfLineups) {
+        conflicts.push(`FLEX minimums for ${flexMinimums.map(m => m.label).join(', ')} need ${flexNeeded} FLEX slots, but ${numberOfLineups} lineups have ${flexSlots * numberOfLineups}.`);
+    }
+
+    return conflicts;
+}
+
+/**
+ * Converts exposure targets into per-slot locks/exclusions for the next lineup.
+ * A slot is excluded once the player has hit their max count, and locked once the
+ * remaining lineups are only just enough to reach their min count.
+ * @param exposureTargets Per-player MVP/FLEX exposure ranges (percent of the build).
+ * @param mvpCounts How many generated lineups so far have the player at MVP.
+ * @param flexCounts How many generated lineups so far have the player at FLEX.
+ * @param lineupIndex Zero-based index of the lineup about to be solved.
+ * @param numberOfLineups Total lineups in the build.
+ */
+export function getExposureSlotConstraints(
+    exposureTargets: Record<string, PlayerExposureTarget>,
+    mvpCounts: Map<string, number>,
+    flexCounts: Map<string, number>,
+    lineupIndex: number,
+    numberOfLineups: number,
+): SlotConstraints {
+    const constraints: SlotConstraints = {
+        mvpLockedIds: new Set(),
+        mvpExcludedIds: new Set(),
+        flexLockedIds: new Set(),
+        flexExcludedIds: new Set(),
+    };
+    const remaining = numberOfLineups - lineupIndex;
+
+    const apply = (id: string, range: ExposureRange | undefined, count: number, locked: Set<string>, excluded: Set<string>) => {
+        if (!range) return;
+        const { minCount, maxCount } = getExposureCounts(range, numberOfLineups);
+        if (count >= maxCount) {
+            excluded.add(id);
+        } else if (minCount - count >= remaining) {
+            locked.add(id);
+        }
+    };
+
+    for (const [id, target] of Object.entries(exposureTargets)) {
+        apply(id, target.mvp, mvpCounts.get(id) || 0, constraints.mvpLockedIds, constraints.mvpExcludedIds);
+        apply(id, target.flex, flexCounts.get(id) || 0, constraints.flexLockedIds, constraints.flexExcludedIds);
+    }
+
+    return constraints;
+}
+
+/**
+ * Draws one perturbed projection per player from a split-normal spanning their floor/ceiling,
+ * widened or narrowed by volatility (50 = neutral). Ceiling and any fitted quantiles move by the same amount as the mean.
+ * @param players The player pool with base projections.
+ * @param random Seeded generator; draws are taken in pool order so a seed replays exactly.
+ * @param level 0-1 scale on the spread. 0 returns the players unchanged.
+ */
+export function perturbProjections(players: Player[], random: () => number, level: number): Player[] {
+    if (level <= 0) return players;
+    return players.map(p => {
+        const z = randomNormal(random);
+        const spread = z >= 0 ? p.scenarioFpts.ceiling - p.fpts : p.fpts - p.scenarioFpts.floor;
+        const volatilityScale = (p.volatility ?? 50) / 50;
+        const delta = z * (Math.max(0, spread) / Z_90) * level * volatilityScale;
+        return {
+            ...p,
+            fpts: Math.max(0, p.fpts + delta),
+            scenarioFpts: { ...p.scenarioFpts, ceiling: Math.max(0, p.scenarioFpts.ceiling + delta) },
+            ...(p.quantiles && {
+                quantiles: Object.fromEntries(Object.entries(p.quantiles).map(([level, value]) => [level, Math.max(0, value + delta)])) as PlayerQuantiles,
+            }),
+        };
+    });
+}
+
+/**
+ * The optional parts of a lineup build. Anything left out uses the FanDuel Showdown defaults, no exposure
+ * targets, no randomness and the GLPK backend.
+ */
+export interface LineupBuildOptions {
+    exposureTargets?: Record<string, PlayerExposureTarget>;
+    uniquenessRules?: UniquenessRules;
+    rosterRules?: RosterRules;
+    contestRuleset?: ContestRuleset;
+    correlationObjective?: CorrelationObjective;
+    randomness?: RandomnessSettings;
+    solverBackend?: SolverBackendId;
+    // Called with a diagnosis when fewer than `numberOfLineups` lineups could be built. The diagnosis
+    // re-solves with constraint groups relaxed, so it only runs when a caller asks for it.
+    onInfeasible?: (report: InfeasibilityReport) => void;
+}
+
+/**
+ * Generates multiple lineups respecting exposure constraints, using the chosen solver backend.
+ * Every lineup is checked with validateLineup before it is returned.
+ */
 export async function generateMultipleLineups(
     players: Player[],
     lockedPlayers: Player[],
@@ -25,39 +177,61 @@ export async function generateMultipleLineups(
     salaryCap: number,
     stackingRules: StackingRules,
     optimizationTarget: OptimizationTarget,
+    options: LineupBuildOptions = {},
 ): Promise<Lineup[]> {
-    const lineups: Lineup[] = [];
-    const excludedLineupSignatures = new Set<string>();
+    const {
+        exposureTargets = {},
+        uniquenessRules = DEFAULT_UNIQUENESS_RULES,
+        rosterRules = DEFAULT_ROSTER_RULES,
+        contestRuleset = DEFAULT_CONTEST_RULESET,
+        correlationObjective = DEFAULT_CORRELATION_OBJECTIVE,
+        randomness,
+        solverBackend = 'GLPK',
+        onInfeasible,
+    } = options;
+    const conflicts = validateExposureTargets(exposureTargets, numberOfLineups, contestRuleset.rosterSize - 1, players);
+    if (conflicts.length > 0) throw new Error(`Exposure targets conflict: ${conflicts.join(' ')}`);
     const playerMap = new Map(players.map(p => [p.id, p]));
+    const request: LineupSolverRequest = {
+        players,
+        lockedPlayers,
+        excludedIds,
+        numberOfLineups,
+        salaryCap,
+        stackingRules,
+        optimizationTarget,
+        exposureTargets,
+        uniquenessRules,
+        rosterRules,
+        contestRuleset,
+        correlationObjective,
+        randomness,
+    };
+    const solved = await getLineupSolver(solverBackend).generateLineups(request);
+
+    if (onInfeasible && solved.length < numberOfLineups) {
+        const report = await diagnoseInfeasibility(request, solved);
+        if (report) onInfeasible(report);
+    }
+
+    const lineups: Lineup[] = [];
+    for (const solution of solved) {
+        const mvp = playerMap.get(solution.mvpId)!;
+        const flex = solution.flexIds.map(id => playerMap.get(id)!);
+        const lineup: Lineup = {
+            mvp,
+            flex,
+            ...calculateLineupStats(mvp, flex, optimizationTarget, contestRuleset),
+        };
 
-    for (let i = 0; i < numberOfLineups; i++) {
-        const solution = await solveLineup(
-            players,
-            lockedPlayers,
-            excludedIds,
-            excludedLineupSignatures,
-            salaryCap,
-            stackingRules,
-            optimizationTarget
-        );
-
-        if (solution && solution.length > 0) {
-            const mvp = playerMap.get(solution.find(p => p.isMvp)!.id)!;
-            const flex = solution.filter(p => !p.isMvp).map(p => playerMap.get(p.id)!);
-            
-            const lineup: Lineup = {
-                mvp,
-                flex,
-                ...calculateLineupStats(mvp, flex, optimizationTarget),
-            };
-
-            lineups.push(lineup);
-            const signature = getLineupSignature(lineup.mvp, lineup.flex);
-            excludedLineupSignatures.add(signature);
-        } else {
-            break; // No more unique, valid lineups can be found
+        // The solvers enforce the same rules; an illegal lineup here is a bug, so never ship it.
+        const violations = validateLineup(lineup, rosterRules, salaryCap, contestRuleset);
+        if (violations.length > 0) {
+            logger.error('Solver returned an illegal lineup; discarding it.', { signature: getLineupSignature(mvp, flex), violations });
+            continue;
         }
+        lineups.push(lineup);
     }
 
     return lineups;
-}
\ No newline at end of file
+}
@@ -0,0 +1,161 @@
+import { AppliedOverride, OverrideField, Player, PlayerQuantiles, ProjectionOverride } from '../types';
+import { logger } from './loggingService';
+
+const STORAGE_PREFIX = 'projection_overrides_';
+
+// Quantiles above the median, which a ceiling override moves.
+const UPSIDE_LEVELS: (keyof PlayerQuantiles)[] = ['p75', 'p90', 'p99'];
+
+/**
+ * Identifies a slate by its player IDs, so overrides made for one upload come back when the same slate is
+ * loaded again and never leak into a different one.
+ */
+export function getSlateKey(players: Player[]): string {
+    const ids = players.map(p => p.id).sort().join('|');
+    let hash = 0;
+    for (let i = 0; i < ids.length; i++) {
+        hash = (hash * 31 + ids.charCodeAt(i)) | 0;
+    }
+    return `${STORAGE_PREFIX}${(hash >>> 0).toString(36)}`;
+}
+
+/**
+ * Loads a slate's override history, including reverted entries.
+ * @param slateKey The key from getSlateKey.
+ */
+export function loadOverrides(slateKey: string): ProjectionOverride[] {
+    try {
+        const stored = localStorage.getItem(slateKey);
+        return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+        logger.warn(`Error reading overrides for key: ${slateKey}`, { error });
+        return [];
+    }
+}
+
+/**
+ * Persists a slate's override history. An empty history removes the entry.
+ * @param slateKey The key from getSlateKey.
+ * @param overrides The full history, including reverted entries.
+ */
+export function saveOverrides(slateKey: string, overrides: ProjectionOverride[]): void {
+    try {
+        if (overrides.length === 0) {
+            localStorage.removeItem(slateKey);
+        } else {
+            localStorage.setItem(slateKey, JSON.stringify(overrides));
+        }
+    } catch (error) {
+        logger.warn(`Error writing overrides for key: ${slateKey}`, { error });
+    }
+}
+
+export const getActiveOverrides = (overrides: ProjectionOverride[]): ProjectionOverride[] =>
+    overrides.filter(o => !o.revertedAt);
+
+/**
+ * Adds an override to the history. An active override of the same player and field is marked reverted
+ * rather than removed, so the history shows every value that was ever in effect.
+ * @param overrides The current history.
+ * @param player The player being overridden.
+ * @param field The projection field to replace.
+ * @param value The new value: a number, or a status string for injuryStatus.
+ */
+export function createOverride(
+    overrides: ProjectionOverride[],
+    player: Player,
+    field: OverrideField,
+    value: number | string
+): ProjectionOverride[] {
+    const now = new Date().toISOString();
+    const override: ProjectionOverride = {
+        id: `override_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+        playerId: player.id,
+        playerName: player.name,
+        field,
+        value,
+        createdAt: now,
+    };
+    return [
+        ...overrides.map(o => !o.revertedAt && o.playerId === player.id && o.field === field ? { ...o, revertedAt: now } : o),
+        override,
+    ];
+}
+
+/**
+ * Undoes an override, returning the field to the pipeline's value. The entry stays in the history.
+ */
+export function revertOverride(overrides: ProjectionOverride[], overrideId: string): ProjectionOverride[] {
+    const now = new Date().toISOString();
+    return overrides.map(o => o.id === overrideId && !o.revertedAt ? { ...o, revertedAt: now } : o);
+}
+
+const getFieldValue = (player: Player, field: OverrideField): number | string => {
+    switch (field) {
+        case 'fpts': return player.fpts;
+        case 'ceiling': return player.scenarioFpts.ceiling;
+        case 'mvpOwnership': return player.mvpOwnership;
+        case 'flexOwnership': return player.flexOwnership;
+        case 'injuryStatus': return player.injuryStatus;
+    }
+};
+
+/**
+ * Replaces one field with an override value. A new mean rescales the floor, ceiling and quantiles so the
+ * player's spread is kept; a new ceiling becomes P90 and moves the other upside quantiles with it.
+ */
+const applyField = (player: Player, field: OverrideField, value: number | string): Player => {
+    if (field === 'injuryStatus') return { ...player, injuryStatus: String(value) };
+    const amount = Math.max(0, Number(value));
+    switch (field) {
+        case 'fpts': {
+            const scale = player.fpts > 0 ? amount / player.fpts : 0;
+            return {
+                ...player,
+                fpts: amount,
+                quantiles: player.quantiles && scale > 0
+                    ? Object.fromEntries(Object.entries(player.quantiles).map(([level, v]) => [level, v * scale])) as PlayerQuantiles
+                    : undefined,
+                scenarioFpts: scale > 0
+                    ? { ...player.scenarioFpts, floor: player.scenarioFpts.floor * scale, ceiling: player.scenarioFpts.ceiling * scale }
+                    : { ...player.scenarioFpts, floor: amount * 0.5, ceiling: amount * 1.5 },
+            };
+        }
+        case 'ceiling': {
+            const scale = player.scenarioFpts.ceiling > 0 ? amount / player.scenarioFpts.ceiling : 1;
+            const quantiles = player.quantiles && { ...player.quantiles };
+            if (quantiles) UPSIDE_LEVELS.forEach(level => { quantiles[level] *= scale; });
+            if (quantiles) quantiles.p90 = amount;
+            return { ...player, quantiles, scenarioFpts: { ...player.scenarioFpts, ceiling: amount } };
+        }
+        case 'mvpOwnership': return { ...player, mvpOwnership: amount };
+        case 'flexOwnership': return { ...player, flexOwnership: amount };
+    }
+};
+
+/**
+ * Applies the active overrides on top of the projection pipeline's output. Mean overrides are applied
+ * before ceiling overrides, so a player with both ends up with exactly the ceiling that was entered.
+ * @param players Players as projected by the model and any blended sources.
+ * @param overrides The slate's override history; reverted entries are ignored.
+ * @returns The overridden players and, for the run manifest, each applied override with the value it replaced.
+ */
+export function applyOverrides(players: Player[], overrides: ProjectionOverride[]): { players: Player[], applied: AppliedOverride[] } {
+    const active = getActiveOverrides(overrides);
+    if (active.length === 0) return { players, applied: [] };
+
+    const fieldOrder: OverrideField[] = ['fpts', 'ceiling', 'mvpOwnership', 'flexOwnership', 'injuryStatus'];
+    const applied: AppliedOverride[] = [];
+    const overridden = players.map(player => {
+        const own = active
+            .filter(o => o.playerId === player.id)
+            .sort((a, b) => fieldOrder.indexOf(a.field) - fieldOrder.indexOf(b.field));
+        if (own.length === 0) return player;
+        const result = own.reduce((p, o) => {
+            applied.push({ ...o, pipelineValue: getFieldValue(player, o.field) });
+            return applyField(p, o.field, o.value);
+        }, player);
+        return { ...result, overriddenFields: own.map(o => o.field) };
+    });
+    return { players: overridden, applied };
+}
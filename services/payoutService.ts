@@ -0,0 +1,146 @@
+import { Player, ContestRuleset, ContestStructure, PayoutStyle } from '../types';
+import { DEFAULT_CONTEST_RULESET } from './contestRulesets';
+import { generateContestField, scoreContestField, getFieldStanding, ScoredField } from './contestFieldService';
+import { GameSimulation } from './monteCarloService';
+
+// The estimated curve below is only a fallback for contests without an entered payout table.
+// Share of entry fees the site keeps; FanDuel's Showdown contests run at roughly 10-15%.
+const RAKE = 0.12;
+
+// GPPs pay the top ~20%, with the lowest cash at 1.5x the fee and the rest of the pool decaying by place.
+const GPP_PAID_FRACTION = 0.2;
+const GPP_MIN_CASH_MULTIPLE = 1.5;
+const GPP_DECAY = 1.2;
+
+const roundToCents = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Estimates a per-place payout array for the given fee and field size when the contest's real table is not
+ * known. Prizes are rounded to cents. A GPP's rounding remainder goes to first place; a double-up pays every
+ * cash the same and leaves the remainder unpaid, as the site does.
+ */
+export function buildPayouts(style: PayoutStyle, entryFee: number, fieldSize: number): number[] {
+    const prizePool = roundToCents(entryFee * fieldSize * (1 - RAKE));
+    if (fieldSize < 2 || prizePool <= 0) return [];
+
+    if (style === 'DOUBLE_UP') {
+        const paid = Math.max(1, Math.floor(prizePool / (entryFee * 2)));
+        return new Array(paid).fill(roundToCents(entryFee * 2));
+    }
+    const paid = Math.max(1, Math.floor(fieldSize * GPP_PAID_FRACTION));
+    const minCash = Math.min(entryFee * GPP_MIN_CASH_MULTIPLE, prizePool / paid);
+    // Shifted so the last paid place gets exactly the min cash.
+    const weights = Array.from({ length: paid }, (_, k) => Math.pow(k + 1, -GPP_DECAY) - Math.pow(paid, -GPP_DECAY));
+    const weightTotal = weights.reduce((sum, w) => sum + w, 0) || 1;
+    const topHeavy = prizePool - minCash * paid;
+    const payouts = weights.map(w => roundToCents(minCash + topHeavy * w / weightTotal));
+    const remainder = prizePool - payouts.reduce((sum, p) => sum + p, 0);
+    payouts[0] = roundToCents(payouts[0] + remainder);
+    return payouts;
+}
+
+// "1, $1,000", "2-5\t250", "6 to 10: 100" or "11th 50": a place or place range, then its prize per place.
+const PAYOUT_ROW = /^\s*(\d+)(?:st|nd|rd|th)?(?:\s*(?:-|–|to)\s*(\d+)(?:st|nd|rd|th)?)?\s*[,:;\t ]\s*"?\$?\s*([\d,]*\.?\d+)"?\s*$/i;
+// A bare prize per line, for a table pasted as a single column in place order.
+const PRIZE_ONLY_ROW = /^\s*"?\$?\s*([\d,]*\.?\d+)"?\s*$/;
+
+const parseAmount = (text: string) => parseFloat(text.replace(/,/g, ''));
+
+/**
+ * Reads a contest's payout table as pasted from the site or exported to CSV. Each line is either a place
+ * or place range with the prize paid to each place in it, or just a prize, taken to be the next place.
+ * Lines that are neither, like a header row, are skipped.
+ * @returns One prize per paid place, first place first.
+ * @throws When places are missing or repeated, or no prizes are found.
+ */
+export function parsePayoutTable(text: string): number[] {
+    const payouts: number[] = [];
+    text.split(/\r?\n/).forEach((line, index) => {
+        const ranged = line.match(PAYOUT_ROW);
+        const bare = ranged ? null : line.match(PRIZE_ONLY_ROW);
+        if (!ranged && !bare) return;
+        const first = ranged ? Number(ranged[1]) : payouts.length + 1;
+        const last = ranged?.[2] ? Number(ranged[2]) : first;
+        const prize = parseAmount(ranged ? ranged[3] : bare![1]);
+        if (first !== payouts.length + 1) {
+            throw new Error(`Payout table line ${index + 1} starts at place ${first}, but place ${payouts.length + 1} comes next.`);
+        }
+        if (last < first) throw new Error(`Payout table line ${index + 1} has its places reversed (${first}-${last}).`);
+        for (let place = first; place <= last; place++) payouts.push(prize);
+    });
+    if (payouts.length === 0) throw new Error("No payouts found. Enter one place (or range) and prize per line, e.g. \"1, 1000\" or \"2-5, 250\".");
+    return payouts;
+}
+
+/**
+ * A contest's entry terms and prizes. An entered payout table is used as-is, cut to the field size;
+ * without one the payouts are estimated from the style with buildPayouts.
+ */
+export function createContestStructure(style: PayoutStyle, entryFee: number, fieldSize: number, maxEntries: number, payoutTable?: number[]): ContestStructure {
+    const label = style === 'DOUBLE_UP' ? 'Double Up' : 'GPP';
+    const hasTable = !!payoutTable && payoutTable.length > 0;
+    return {
+        name: `$${entryFee} ${label} (${fieldSize.toLocaleString()} entries)`,
+        entryFee,
+        fieldSize,
+        payouts: hasTable ? payoutTable!.slice(0, fieldSize) : buildPayouts(style, entryFee, fieldSize),
+        payoutSource: hasTable ? 'TABLE' : 'ESTIMATED',
+        maxEntries,
+    };
+}
+
+export const DEFAULT_CONTEST_STRUCTURE: ContestStructure = createContestStructure('GPP', 5, 10000, 150);
+
+/**
+ * A contest ready to be scored against: the structure, its running payout totals and the opponent field
+ * scored in every simulated game.
+ */
+export interface ContestSimulation {
+    structure: ContestStructure;
+    field: ScoredField;
+    cumulativePayouts: Float64Array; // cumulativePayouts[k] = total prize money for places 1..k
+}
+
+/**
+ * Simulates the opponent field for a contest. Our entry takes one of the seats, so the field holds the
+ * other fieldSize - 1 entries.
+ */
+export function createContestSimulation(
+    players: Player[],
+    simulation: GameSimulation,
+    structure: ContestStructure,
+    seed: number,
+    contestRuleset: ContestRuleset = DEFAULT_CONTEST_RULESET,
+    salaryCap: number = contestRuleset.salaryCap
+): ContestSimulation {
+    const field = generateContestField(players, Math.max(0, structure.fieldSize - 1), seed, contestRuleset, salaryCap);
+    const cumulativePayouts = new Float64Array(structure.payouts.length + 1);
+    structure.payouts.forEach((prize, k) => { cumulativePayouts[k + 1] = cumulativePayouts[k] + prize; });
+    return { structure, field: scoreContestField(simulation, field, players, contestRuleset), cumulativePayouts };
+}
+
+/**
+ * FanDuel's tie rule: entries tied on score combine the prizes for every place they occupy and split them
+ * evenly. Exact duplicates always tie, so they split the same way.
+ * @param above Entries finishing strictly ahead.
+ * @param tied Other entries on exactly the same score.
+ */
+export function getFinishPayout(contest: ContestSimulation, above: number, tied: number): number {
+    const { cumulativePayouts } = contest;
+    const paidPlaces = cumulativePayouts.length - 1;
+    const first = Math.min(above, paidPlaces);
+    const last = Math.min(above + tied + 1, paidPlaces);
+    return (cumulativePayouts[last] - cumulativePayouts[first]) / (tied + 1);
+}
+
+/**
+ * Prize won in each simulated game by a lineup with the given simulated scores.
+ */
+export function simulateLineupPayouts(contest: ContestSimulation, scores: Float64Array): Float64Array {
+    const payouts = new Float64Array(scores.length);
+    for (let s = 0; s < scores.length; s++) {
+        const { above, tied } = getFieldStanding(contest.field, s, scores[s]);
+        payouts[s] = getFinishPayout(contest, Math.round(above), Math.round(tied));
+    }
+    return payouts;
+}
@@ -0,0 +1,144 @@
+import {
+    Player,
+    Lineup,
+    StackingRules,
+    PlayerExposureTarget,
+    ContestRuleset,
+    PortfolioSettings,
+    ContestStructure
+} from '../types';
+import { generateMultipleLineups, getExposureSlotConstraints, validateExposureTargets, LineupBuildOptions, OptimizationTarget } from './optimizer';
+import { DEFAULT_CONTEST_RULESET } from './contestRulesets';
+import { getRulesetScoringSystem } from './scoringSystems';
+import { calculateLineupStats } from './evSimulationService';
+import { GameSimulation, simulateGames, simulateLineupScores } from './monteCarloService';
+import { getFieldStanding } from './contestFieldService';
+import { ContestSimulation, DEFAULT_CONTEST_STRUCTURE, createContestSimulation, simulateLineupPayouts } from './payoutService';
+import { logger } from './loggingService';
+
+// The seed is a placeholder; callers pick a fresh one per session so runs can be replayed.
+export const DEFAULT_PORTFOLIO_SETTINGS: PortfolioSettings = {
+    enabled: false,
+    objective: 'EXPECTED_PAYOUT',
+    candidatePoolSize: 500,
+    simulations: 2000,
+    seed: 0,
+};
+
+const TOP_FINISH_FRACTION = 0.01;
+
+/**
+ * Greedily builds the portfolio. Each candidate's finish in every simulation is its standing against the
+ * simulated opponent field. EXPECTED_PAYOUT adds the candidate with the highest dollar EV under the
+ * contest's payouts; TOP_1_PERCENT adds the candidate that reaches a top-1% finish in the most simulations
+ * the set has not already covered, which is what pushes the set toward hedged, non-overlapping game scripts.
+ * Exposure targets are applied per pick exactly as in the sequential build.
+ */
+function selectPortfolio(
+    candidates: Lineup[],
+    simulation: GameSimulation,
+    contest: ContestSimulation,
+    numberOfLineups: number,
+    settings: PortfolioSettings,
+    exposureTargets: Record<string, PlayerExposureTarget>,
+    contestRuleset: ContestRuleset
+): Lineup[] {
+    const { simulations } = simulation;
+    const { fieldSize } = contest.structure;
+    const scores = candidates.map(lineup => simulateLineupScores(simulation, lineup.mvp, lineup.flex, contestRuleset));
+
+    // Place every candidate against the field within each simulation.
+    const meanPayout = candidates.map((_, c) => simulateLineupPayouts(contest, scores[c]).reduce((sum, p) => sum + p, 0) / simulations);
+    const topFinishes: number[][] = candidates.map((_, c) => {
+        const finishes: number[] = [];
+        for (let s = 0; s < simulations; s++) {
+            const { above, tied } = getFieldStanding(contest.field, s, scores[c][s]);
+            if ((above + tied / 2) / fieldSize < TOP_FINISH_FRACTION) finishes.push(s);
+        }
+        return finishes;
+    });
+
+    const selected: Lineup[] = [];
+    const available = new Set(candidates.map((_, c) => c));
+    const covered = new Uint8Array(simulations);
+    const mvpCounts = new Map<string, number>();
+    const flexCounts = new Map<string, number>();
+
+    while (selected.length < numberOfLineups) {
+        const slots = getExposureSlotConstraints(exposureTargets, mvpCounts, flexCounts, selected.length, numberOfLineups);
+        let best = -1;
+        let bestGain = -Infinity;
+        for (const c of available) {
+            const { mvp, flex } = candidates[c];
+            if (slots.mvpExcludedIds.has(mvp.id) || flex.some(p => slots.flexExcludedIds.has(p.id))) continue;
+            if ([...slots.mvpLockedIds].some(id => id !== mvp.id) || [...slots.flexLockedIds].some(id => !flex.some(p => p.id === id))) continue;
+
+            const gain = settings.objective === 'TOP_1_PERCENT'
+                ? topFinishes[c].reduce((sum, s) => sum + (covered[s] ? 0 : 1), 0) + meanPayout[c] * 1e-6 // Payout breaks ties
+                : meanPayout[c];
+            if (gain > bestGain) {
+                best = c;
+                bestGain = gain;
+            }
+        }
+        if (best === -1) break;
+
+        const lineup = candidates[best];
+        available.delete(best);
+        topFinishes[best].forEach(s => { covered[s] = 1; });
+        mvpCounts.set(lineup.mvp.id, (mvpCounts.get(lineup.mvp.id) || 0) + 1);
+        lineup.flex.forEach(p => flexCounts.set(p.id, (flexCounts.get(p.id) || 0) + 1));
+        selected.push(lineup);
+    }
+
+    const coverage = covered.reduce((sum, v) => sum + v, 0) / simulations;
+    logger.info('Portfolio selected', { candidates: candidates.length, fieldSize, selected: selected.length, topFinishCoverage: coverage });
+    return selected;
+}
+
+/**
+ * Portfolio mode: builds `portfolio.candidatePoolSize` lineups with the regular solver path (so every
+ * candidate already satisfies locks, stacking, roster and uniqueness rules), simulates
+ * `portfolio.simulations` correlated game outcomes with the Monte Carlo game simulator, scores the contest's
+ * simulated opponent field in each, then picks the `numberOfLineups` that work best together.
+ * Returns lineups in the same shape as generateMultipleLineups.
+ */
+export async function generatePortfolio(
+    players: Player[],
+    lockedPlayers: Player[],
+    excludedIds: Set<string>,
+    numberOfLineups: number,
+    salaryCap: number,
+    stackingRules: StackingRules,
+    optimizationTarget: OptimizationTarget,
+    portfolio: PortfolioSettings,
+    contestStructure: ContestStructure = DEFAULT_CONTEST_STRUCTURE,
+    options: Omit<LineupBuildOptions, 'onInfeasible'> = {},
+): Promise<Lineup[]> {
+    const { exposureTargets = {}, contestRuleset = DEFAULT_CONTEST_RULESET } = options;
+    const conflicts = validateExposureTargets(exposureTargets, numberOfLineups, contestRuleset.rosterSize - 1, players);
+    if (conflicts.length > 0) throw new Error(`Exposure targets conflict: ${conflicts.join(' ')}`);
+    // Exposure targets are percentages of the final set, so they are applied at selection, not to the pool.
+    const candidates = await generateMultipleLineups(
+        players,
+        lockedPlayers,
+        excludedIds,
+        Math.max(numberOfLineups, portfolio.candidatePoolSize),
+        salaryCap,
+        stackingRules,
+        optimizationTarget,
+        { ...options, exposureTargets: {} }
+    );
+    if (candidates.length <= numberOfLineups) return candidates;
+
+    // The field is drawn from the whole slate under site rules: opponents are not bound by this user's exclusions or toggles.
+    const simulation = simulateGames(players, portfolio.simulations, portfolio.seed, getRulesetScoringSystem(contestRuleset));
+    const contest = createContestSimulation(players, simulation, contestStructure, portfolio.seed, contestRuleset, salaryCap);
+    const selected = selectPortfolio(candidates, simulation, contest, numberOfLineups, portfolio, exposureTargets, contestRuleset);
+
+    // Recompute stats against the same simulation so the lineups carry their score distributions and dollar EV.
+    return selected.map(lineup => ({
+        ...lineup,
+        ...calculateLineupStats(lineup.mvp, lineup.flex, optimizationTarget, contestRuleset, simulation, contest),
+    }));
+}
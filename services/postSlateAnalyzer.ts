@@ -1,16 +1,19 @@
-import { ContestResult, Player, LeakfinderReport, PlayerExposureAnalysis } from '../types';
+import { ContestResult, ContestRuleset, Player, LeakfinderReport, PlayerExposureAnalysis } from '../types';
 import { generateContent } from './aiModelService';
 import { Type } from '@google/genai';
+import { DEFAULT_CONTEST_RULESET } from './contestRulesets';
 
 /**
  * Uses AI to analyze a user's contest results and generate a "Leakfinder Report".
  * @param results The user's parsed contest results.
  * @param players The original player pool from the slate.
+ * @param ruleset The contest format the results come from.
  * @returns A promise that resolves to a LeakfinderReport object.
  */
 export async function generateLeakfinderReport(
     results: ContestResult[], 
-    players: Player[]
+    players: Player[],
+    ruleset: ContestRuleset = DEFAULT_CONTEST_RULESET
 ): Promise<LeakfinderReport> {
     const totalEntries = results.length;
     const totalPayout = results.reduce((sum, r) => sum + r.payout, 0);
@@ -41,13 +44,13 @@ export async function generateLeakfinderReport(
         .slice(0, 25); // Limit to top 25 exposures for prompt efficiency
 
     const prompt = `
-        You are a world-class DFS coach. Your client has provided their contest results and the original player data from a FanDuel NFL Showdown slate. Your task is to generate a "Leakfinder Report" to help them improve.
+        You are a world-class DFS coach. Your client has provided their contest results and the original player data from a ${ruleset.name} NFL slate. Your task is to generate a "Leakfinder Report" to help them improve.
 
         **Client's Performance:**
         - Total Entries: ${totalEntries}
         - Overall ROI: ${overallRoi.toFixed(1)}%
         - Top 5 Highest Scoring Lineups:
-          ${results.slice(0, 5).map(r => `  - Score: ${r.score}, Payout: $${r.payout}, Roster: ${r.lineup.mvp} (MVP), ${r.lineup.flex.join(', ')}`).join('\n')}
+          ${results.slice(0, 5).map(r => `  - Score: ${r.score}, Payout: $${r.payout}, Roster: ${r.lineup.mvp} (${ruleset.mvpLabel}), ${r.lineup.flex.join(', ')}`).join('\n')}
 
         **Client's Player Exposures (Top 25):**
         ${userExposureSummary.map(p => `  - ${p.name}: ${p.exposure.toFixed(1)}% Exposure (Pre-game Leverage Score: ${p.leverage})`).join('\n')}
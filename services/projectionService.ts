@@ -1,44 +1,149 @@
-import { StatProjections, StatWeights } from "../types";
+import { Player, ScoringStatLine, ScoringSystem, StatProjections, StatWeights } from "../types";
+import { TEAM_POINTS_SD, DEFAULT_GAME_TOTAL } from "./monteCarloService";
+import { DEFAULT_SCORING_SYSTEM, scoreProjectedStatLine } from "./scoringSystems";
+
+// League-wide share of made field goals by distance, for projections that only give a total.
+const FIELD_GOAL_DISTANCE_MIX = { fg0to39: 0.55, fg40to49: 0.28, fg50Plus: 0.17 };
+
+// Per point of implied team total: ~1.8 made field goals and ~2.5 extra points for a 24-point team.
+const FIELD_GOALS_PER_TEAM_POINT = 0.075;
+const EXTRA_POINTS_PER_TEAM_POINT = 0.105;
+
+// League-average defensive production per game, before the matchup adjustment.
+const BASE_DEFENSE_STATS = {
+    sacks: 2.4, defensiveInterceptions: 0.8, fumbleRecoveries: 0.6, defensiveTds: 0.12,
+    returnTds: 0.04, safeties: 0.03, blockedKicks: 0.05,
+};
+// Each point a defense is favoured by lifts its pass-rush and takeaway rates, since a trailing offense drops back more.
+const DEFENSE_PRESSURE_PER_SPREAD_POINT = 0.02;
+
+const KICKER_STATS: (keyof StatProjections)[] = ['fieldGoals', 'fieldGoals0to39', 'fieldGoals40to49', 'fieldGoals50Plus', 'extraPoints'];
+const DEFENSE_STATS: (keyof StatProjections)[] = ['pointsAllowed', 'sacks', 'defensiveInterceptions', 'fumbleRecoveries', 'defensiveTds', 'returnTds', 'safeties', 'blockedKicks'];
+
+// StatProjections field for each box-score stat; field goals by distance are handled separately.
+const PROJECTION_STATS: [keyof StatProjections, keyof ScoringStatLine][] = [
+    ['passingYards', 'passYds'], ['passingTds', 'passTds'], ['interceptions', 'interceptions'],
+    ['rushingYards', 'rushYds'], ['rushingTds', 'rushTds'],
+    ['receptions', 'receptions'], ['receivingYards', 'recYds'], ['receivingTds', 'recTds'],
+    ['fumblesLost', 'fumblesLost'], ['twoPointConversions', 'twoPtConversions'], ['fumbleReturnTds', 'fumbleReturnTds'],
+    ['returnTds', 'returnTds'], ['extraPoints', 'extraPoints'],
+    ['sacks', 'sacks'], ['defensiveInterceptions', 'defInterceptions'], ['fumbleRecoveries', 'fumbleRecoveries'],
+    ['defensiveTds', 'defTds'], ['safeties', 'safeties'], ['blockedKicks', 'blockedKicks'], ['pointsAllowed', 'pointsAllowed'],
+];
+
+/**
+ * Converts projections to a box-score line. A bare field goal total is split across the distance tiers by
+ * the league-wide mix.
+ */
+function toStatLine(projections: StatProjections): ScoringStatLine {
+    const statLine: ScoringStatLine = {};
+    PROJECTION_STATS.forEach(([from, to]) => {
+        if (projections[from] != null) statLine[to] = projections[from];
+    });
+    const hasDistances = projections.fieldGoals0to39 != null || projections.fieldGoals40to49 != null || projections.fieldGoals50Plus != null;
+    if (hasDistances) {
+        statLine.fg0to39 = projections.fieldGoals0to39 ?? 0;
+        statLine.fg40to49 = projections.fieldGoals40to49 ?? 0;
+        statLine.fg50Plus = projections.fieldGoals50Plus ?? 0;
+    } else if (projections.fieldGoals != null) {
+        statLine.fg0to39 = projections.fieldGoals * FIELD_GOAL_DISTANCE_MIX.fg0to39;
+        statLine.fg40to49 = projections.fieldGoals * FIELD_GOAL_DISTANCE_MIX.fg40to49;
+        statLine.fg50Plus = projections.fieldGoals * FIELD_GOAL_DISTANCE_MIX.fg50Plus;
+    }
+    return statLine;
+}
 
 /**
- * Calculates a player's fantasy point projection based on their granular stat projections and a given set of weights.
- * This is the core function that connects the tuning lab to the optimizer.
+ * Calculates a player's fantasy point projection from their granular stat projections under a scoring system.
  * @param projections The player's mean or ceiling stat projections.
- * @param weights The StatWeights object from a tuned model.
+ * @param scoringSystem The site or custom scoring to apply.
  * @returns A single, calculated fantasy point score.
  */
-export function calculateFptsFromProjections(projections: StatProjections | undefined, weights: StatWeights): number {
+export function calculateFptsFromProjections(projections: StatProjections | undefined, scoringSystem: ScoringSystem = DEFAULT_SCORING_SYSTEM): number {
     if (!projections) {
         return 0;
     }
+    return scoreProjectedStatLine(toStatLine(projections), TEAM_POINTS_SD, scoringSystem);
+}
+
+// Implied points for the player's team and its opponent, falling back to a league-average game.
+const getImpliedTotals = (player: Player) => {
+    if (!player.vegas) return { team: DEFAULT_GAME_TOTAL / 2, opponent: DEFAULT_GAME_TOTAL / 2 };
+    return { team: player.vegas.impliedTeamTotal, opponent: player.vegas.total - player.vegas.impliedTeamTotal };
+};
+
+/**
+ * A kicker's stat line from their team's implied total.
+ */
+export function projectKickerStats(player: Player): StatProjections {
+    const { team } = getImpliedTotals(player);
+    return { fieldGoals: team * FIELD_GOALS_PER_TEAM_POINT, extraPoints: team * EXTRA_POINTS_PER_TEAM_POINT };
+}
+
+/**
+ * A defense's stat line: the opponent's implied total as points allowed, and league-average pass rush,
+ * takeaways and return scores nudged by the spread.
+ */
+export function projectDefenseStats(player: Player): StatProjections {
+    const { opponent } = getImpliedTotals(player);
+    const pressure = Math.min(1.2, Math.max(0.8, 1 - (player.vegas?.spread ?? 0) * DEFENSE_PRESSURE_PER_SPREAD_POINT));
+    return {
+        pointsAllowed: opponent,
+        sacks: BASE_DEFENSE_STATS.sacks * pressure,
+        defensiveInterceptions: BASE_DEFENSE_STATS.defensiveInterceptions * pressure,
+        fumbleRecoveries: BASE_DEFENSE_STATS.fumbleRecoveries * pressure,
+        defensiveTds: BASE_DEFENSE_STATS.defensiveTds * pressure,
+        returnTds: BASE_DEFENSE_STATS.returnTds,
+        safeties: BASE_DEFENSE_STATS.safeties,
+        blockedKicks: BASE_DEFENSE_STATS.blockedKicks,
+    };
+}
+
+// A kicker's or defense's stat projections when they cover the position, otherwise its Vegas-derived line.
+function getKickerOrDefenseProjections(player: Player): StatProjections {
+    const positionStats = player.position === 'K' ? KICKER_STATS : DEFENSE_STATS;
+    const mean = player.statProjections?.mean;
+    if (mean && positionStats.some(stat => mean[stat] != null)) return mean;
+    return player.position === 'K' ? projectKickerStats(player) : projectDefenseStats(player);
+}
+
+/**
+ * A player's mean box-score line, or null when they have no stat projections to build one from. Kickers and
+ * defenses always have one, from the Vegas line when their projections don't cover the position.
+ */
+export function getProjectedStatLine(player: Player): ScoringStatLine | null {
+    if (player.position === 'K' || player.position === 'D') return toStatLine(getKickerOrDefenseProjections(player));
+    const mean = player.statProjections?.mean;
+    if (!mean || !Object.values(mean).some(value => value != null)) return null;
+    return toStatLine(mean);
+}
 
-    let score = 0;
-
-    // Map StatProjections keys to StatWeights keys and calculate score
-    if (projections.passingYards && weights.passYds) score += projections.passingYards * weights.passYds;
-    if (projections.passingTds && weights.passTds) score += projections.passingTds * weights.passTds;
-    if (projections.interceptions && weights.interceptions) score += projections.interceptions * weights.interceptions;
-    if (projections.rushingYards && weights.rushYds) score += projections.rushingYards * weights.rushYds;
-    if (projections.rushingTds && weights.rushTds) score += projections.rushingTds * weights.rushTds;
-    if (projections.receptions && weights.receptions) score += projections.receptions * weights.receptions;
-    if (projections.receivingYards && weights.recYds) score += projections.receivingYards * weights.recYds;
-    if (projections.receivingTds && weights.recTds) score += projections.receivingTds * weights.recTds;
-    
-    return score;
+/**
+ * A player's mean fantasy points under the given weights. Kickers and defenses have no advanced-stat
+ * profile, so they are scored under the scoring system from their stat projections when those cover the
+ * position, and from a Vegas-derived stat line otherwise. The model's intercept only applies to the weighted
+ * projection, so it leaves them untouched too.
+ */
+export function projectPlayerFpts(player: Player, weights: StatWeights, scoringSystem: ScoringSystem = DEFAULT_SCORING_SYSTEM, intercept: number = 0): number {
+    if (player.position === 'K' || player.position === 'D') {
+        return calculateFptsFromProjections(getKickerOrDefenseProjections(player), scoringSystem);
+    }
+    return intercept + projectPlayerStats(player.advancedStats, weights).meanFpts;
 }
 
 /**
- * Applies a given set of weights to a player's advanced stats to generate mean and ceiling projections.
+ * Applies a given set of weights to a player's advanced stats to generate a mean projection.
+ * The spread around it (floor, ceiling and the other quantiles) comes from quantileService.
  * @param advancedStats The player's advanced statistical profile.
  * @param weights The StatWeights from a TunedModel.
- * @returns An object containing the calculated mean and ceiling fantasy points.
+ * @returns An object containing the calculated mean fantasy points.
  */
 export function projectPlayerStats(
     advancedStats: { [key: string]: number } | undefined, 
     weights: StatWeights
-): { meanFpts: number; ceilingFpts: number } {
+): { meanFpts: number } {
     if (!advancedStats) {
-        return { meanFpts: 0, ceilingFpts: 0 };
+        return { meanFpts: 0 };
     }
 
     let meanFpts = 0;
@@ -48,36 +153,5 @@ export function projectPlayerStats(
         }
     }
 
-    // Generate ceiling weights using a heuristic (e.g., increase positive weights, decrease negative)
-    const ceilingWeights = generateCeilingWeights(weights);
-    let ceilingFpts = 0;
-    for (const [stat, value] of Object.entries(advancedStats)) {
-        if (ceilingWeights[stat as keyof StatWeights]) {
-            ceilingFpts += value * (ceilingWeights[stat as keyof StatWeights] as number);
-        }
-    }
-
-    return { meanFpts, ceilingFpts: Math.max(meanFpts, ceilingFpts) };
+    return { meanFpts };
 }
-
-/**
- * Creates a "ceiling" version of a StatWeights model by amplifying positive weights
- * and diminishing negative ones, to project a player's high-end range of outcomes.
- * @param baseWeights The base StatWeights from a TunedModel.
- * @returns A new StatWeights object optimized for ceiling projections.
- */
-export function generateCeilingWeights(baseWeights: StatWeights): StatWeights {
-    const ceilingWeights = { ...baseWeights };
-    for (const key in ceilingWeights) {
-        const weightKey = key as keyof StatWeights;
-        const value = ceilingWeights[weightKey] as number;
-        if (value > 0) {
-            // Amplify positive contributors to ceiling
-            ceilingWeights[weightKey] = value * 1.25;
-        } else {
-            // Diminish negative contributors for ceiling (less likely to happen in a ceiling game)
-            ceilingWeights[weightKey] = value * 0.75;
-        }
-    }
-    return ceilingWeights;
-}
\ No newline at end of file
@@ -0,0 +1,124 @@
+import { Player, ProjectionSource, ExternalProjection } from '../types';
+import { ProjectionCsvRowSchema } from './schemas';
+import { logger } from './loggingService';
+
+// Suffixes sites disagree on ("Michael Pittman Jr." vs "Michael Pittman").
+const NAME_SUFFIXES = new Set(['jr', 'sr', 'ii', 'iii', 'iv', 'v']);
+
+// Row names that mean a team defense rather than a player.
+const DEFENSE_NAME_PATTERN = /\b(dst|d\/st|def|defense)\b/i;
+
+export const normalizePlayerName = (name: string): string =>
+    name.toLowerCase()
+        .replace(/[.'’]/g, '')
+        .replace(/-/g, ' ')
+        .split(/\s+/)
+        .filter(part => part && !NAME_SUFFIXES.has(part))
+        .join(' ');
+
+/**
+ * Finds the slate player a projection row describes. Names are compared after normalizing punctuation and
+ * suffixes; the team breaks ties between players with the same name. Defense rows match the team's D by
+ * team, since sites name defenses differently ("Chiefs D/ST", "Kansas City Chiefs").
+ */
+function matchPlayer(players: Player[], name: string, team: string | undefined): Player | undefined {
+    const sameTeam = (p: Player) => !team || p.team.toLowerCase() === team.toLowerCase();
+    const normalized = normalizePlayerName(name);
+    const candidates = players.filter(p => normalizePlayerName(p.name) === normalized && sameTeam(p));
+    if (candidates.length > 0) return candidates.length === 1 ? candidates[0] : undefined; // Same name, no team to tell them apart
+
+    const defenses = players.filter(p => p.position === 'D' && sameTeam(p));
+    if (team && DEFENSE_NAME_PATTERN.test(name)) return defenses[0];
+    return defenses.find(p => normalizePlayerName(p.name).includes(normalized));
+}
+
+/**
+ * Parses a third-party projection CSV and matches its rows to the slate. Headers are case-insensitive:
+ * name and mean are required; team, ceiling and ownership are optional.
+ * @param text The CSV contents.
+ * @param name The source's display name, also used as its ID so re-uploading a file replaces it.
+ * @param players The slate the rows are matched against.
+ */
+export function parseProjectionCsv(text: string, name: string, players: Player[]): ProjectionSource {
+    const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
+    if (lines.length < 2) throw new Error("Projection CSV must have a header and at least one player.");
+
+    const header = lines[0].split(',').map(h => h.trim().replace(/"/g, '').toLowerCase());
+    if (!['name', 'mean'].every(h => header.includes(h))) {
+        throw new Error("Projection CSV header is missing required columns. Expected 'name' and 'mean', with optional 'team', 'ceiling' and 'ownership'.");
+    }
+
+    const projections: Record<string, ExternalProjection> = {};
+    const unmatchedRows: string[] = [];
+    lines.slice(1).forEach((line, index) => {
+        // Split on commas outside quotes, keeping empty fields so optional columns stay aligned.
+        const data = line.split(/,(?=(?:[^"]*"[^"]*")*[^"]*$)/).map(field => field.trim().replace(/"/g, ''));
+        const rowObject: { [key: string]: string } = {};
+        header.forEach((h, i) => { rowObject[h] = data[i]; });
+
+        const validation = ProjectionCsvRowSchema.safeParse(rowObject);
+        if (!validation.success) {
+            logger.warn(`Skipping invalid projection row ${index + 2}`, { error: validation.error.flatten(), row: line });
+            return;
+        }
+        const row = validation.data;
+        const player = matchPlayer(players, row.name, row.team);
+        if (!player) {
+            unmatchedRows.push(row.team ? `${row.name} (${row.team})` : row.name);
+            return;
+        }
+        projections[player.id] = { mean: row.mean, ceiling: row.ceiling, ownership: row.ownership };
+    });
+
+    return { id: name, name, weight: 1, projections, unmatchedRows };
+}
+
+/**
+ * Blends each player's model projection with every source that covers them, as a weighted average.
+ * A source without a ceiling uses its mean scaled by the model's ceiling-to-mean ratio, and source
+ * ownership is blended into FLEX ownership with MVP ownership moved in proportion. Fitted quantiles and the
+ * floor are rescaled with the mean so the player's spread is kept.
+ * @param players Players carrying the model's projections.
+ * @param sources Uploaded sources with their blend weights.
+ * @param modelWeight Blend weight of the model's own projection; 0 uses the sources alone.
+ */
+export function blendProjections(players: Player[], sources: ProjectionSource[], modelWeight: number): Player[] {
+    return players.map(player => {
+        const covering = sources
+            .filter(source => source.weight > 0 && source.projections[player.id])
+            .map(source => ({ name: source.name, weight: source.weight, ...source.projections[player.id] }));
+        const totalWeight = modelWeight + covering.reduce((sum, s) => sum + s.weight, 0);
+        if (covering.length === 0 || totalWeight <= 0) return player;
+
+        const ceilingRatio = player.fpts > 0 ? player.scenarioFpts.ceiling / player.fpts : 1;
+        const weighted = (model: number, value: (s: typeof covering[0]) => number) =>
+            (modelWeight * model + covering.reduce((sum, s) => sum + s.weight * value(s), 0)) / totalWeight;
+        const fpts = weighted(player.fpts, s => s.mean);
+        const ceiling = weighted(player.scenarioFpts.ceiling, s => s.ceiling ?? s.mean * ceilingRatio);
+
+        const withOwnership = covering.filter(s => s.ownership != null);
+        const ownershipWeight = modelWeight + withOwnership.reduce((sum, s) => sum + s.weight, 0);
+        const flexOwnership = withOwnership.length > 0 && ownershipWeight > 0
+            ? (modelWeight * player.flexOwnership + withOwnership.reduce((sum, s) => sum + s.weight * s.ownership!, 0)) / ownershipWeight
+            : player.flexOwnership;
+        const mvpOwnership = player.flexOwnership > 0 ? player.mvpOwnership * flexOwnership / player.flexOwnership : player.mvpOwnership;
+
+        const scale = player.fpts > 0 ? fpts / player.fpts : 0;
+        const quantiles = player.quantiles && scale > 0
+            ? Object.fromEntries(Object.entries(player.quantiles).map(([level, value]) => [level, value * scale])) as Player['quantiles']
+            : undefined;
+
+        return {
+            ...player,
+            fpts,
+            flexOwnership,
+            mvpOwnership,
+            quantiles,
+            scenarioFpts: { ...player.scenarioFpts, ceiling, floor: scale > 0 ? player.scenarioFpts.floor * scale : fpts * 0.5 },
+            projectionBlend: {
+                model: { mean: player.fpts, ceiling: player.scenarioFpts.ceiling, weight: modelWeight },
+                sources: covering,
+            },
+        };
+    });
+}
@@ -0,0 +1,171 @@
+import { Player, HistoricalGame, QuantileLevel, PlayerQuantiles, QuantileModel } from '../types';
+import { Z_90 } from './normalDistribution';
+
+// Quantiles every player carries, with the standard normal z-score used when only floor/ceiling are known.
+export const QUANTILE_LEVELS: { level: QuantileLevel, probability: number, z: number }[] = [
+    { level: 'p10', probability: 0.1, z: -1.2816 },
+    { level: 'p25', probability: 0.25, z: -0.6745 },
+    { level: 'p50', probability: 0.5, z: 0 },
+    { level: 'p75', probability: 0.75, z: 0.6745 },
+    { level: 'p90', probability: 0.9, z: 1.2816 },
+    { level: 'p99', probability: 0.99, z: 2.3263 },
+];
+
+// Showdown salary tiers; a bucket is position + tier.
+const SALARY_TIERS: { tier: string, maxSalary: number }[] = [
+    { tier: 'VALUE', maxSalary: 8000 },
+    { tier: 'MID', maxSalary: 12000 },
+    { tier: 'STUD', maxSalary: Infinity },
+];
+const ALL = 'ALL';
+
+// Buckets thinner than this fall back to the position, then to every player.
+const MIN_BUCKET_SAMPLES = 20;
+
+// Used until the vault has enough history: a right-skewed spread typical of single-game fantasy scoring.
+export const DEFAULT_QUANTILE_MULTIPLIERS: PlayerQuantiles = {
+    p10: 0.35,
+    p25: 0.62,
+    p50: 0.92,
+    p75: 1.3,
+    p90: 1.7,
+    p99: 2.5,
+};
+
+export const getSalaryTier = (salary: number | undefined): string =>
+    salary == null ? ALL : SALARY_TIERS.find(t => salary < t.maxSalary)!.tier;
+
+const bucketKey = (position: string, tier: string) => `${position}|${tier}`;
+
+// Linear-interpolation sample quantile of an ascending array.
+const sampleQuantile = (sorted: number[], probability: number): number => {
+    const index = (sorted.length - 1) * probability;
+    const lower = Math.floor(index);
+    const upper = Math.ceil(index);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+};
+
+// Below this many priced players a position's salary fit is skipped for its plain average.
+const MIN_SALARY_FIT_SAMPLES = 5;
+// Keeps the residual ratio finite for players the salary line projects at or below zero.
+const MIN_PROJECTION = 0.5;
+
+type VaultPlayer = HistoricalGame['players'][0];
+
+/**
+ * A pre-game projection for every vault player, so each outcome can be compared with what was expected of
+ * that player rather than of their whole tier. A recorded projection is used as-is; otherwise the salary
+ * stands in for it through a per-position least-squares line of actual points on salary, since the site
+ * sets salaries from the same pre-game expectations. Players with neither get their position's average.
+ */
+function buildPreGameProjector(players: VaultPlayer[]): (player: VaultPlayer) => number {
+    const byPosition = new Map<string, VaultPlayer[]>();
+    players.forEach(p => {
+        if (!byPosition.has(p.position)) byPosition.set(p.position, []);
+        byPosition.get(p.position)!.push(p);
+    });
+
+    const fits = new Map<string, { mean: number, intercept: number, slope: number }>();
+    byPosition.forEach((group, position) => {
+        const mean = group.reduce((sum, p) => sum + p.actualFdp, 0) / group.length;
+        const priced = group.filter(p => p.salary != null && p.salary > 0);
+        const salaryMean = priced.reduce((sum, p) => sum + p.salary!, 0) / (priced.length || 1);
+        const actualMean = priced.reduce((sum, p) => sum + p.actualFdp, 0) / (priced.length || 1);
+        const sxx = priced.reduce((sum, p) => sum + (p.salary! - salaryMean) ** 2, 0);
+        const sxy = priced.reduce((sum, p) => sum + (p.salary! - salaryMean) * (p.actualFdp - actualMean), 0);
+        const slope = priced.length >= MIN_SALARY_FIT_SAMPLES && sxx > 0 ? sxy / sxx : 0;
+        fits.set(position, { mean, intercept: priced.length > 0 ? actualMean - slope * salaryMean : mean, slope });
+    });
+
+    return player => {
+        if (player.projectedFdp != null && player.projectedFdp > 0) return player.projectedFdp;
+        const fit = fits.get(player.position)!;
+        const projection = player.salary != null && player.salary > 0 ? fit.intercept + fit.slope * player.salary : fit.mean;
+        return Math.max(MIN_PROJECTION, projection);
+    };
+}
+
+/**
+ * Fits quantile multipliers from the vault's residuals. Each historical outcome is expressed as that
+ * player's actual fantasy points over their own pre-game projection (see buildPreGameProjector), and each
+ * position + salary tier bucket's multipliers are the quantiles of those ratios. A live player's P90 is
+ * then their mean projection times how far above projection a P90 game runs for comparable players, with
+ * none of the spread between cheap and expensive players in the same tier.
+ * @param games Historical games with actual fantasy points; players without a salary only inform the
+ * position-wide and global buckets.
+ */
+export function fitQuantileModel(games: HistoricalGame[]): QuantileModel {
+    const players = games.flatMap(game => game.players).filter(p => Number.isFinite(p.actualFdp));
+    const project = buildPreGameProjector(players);
+    const residuals = new Map<string, number[]>();
+    const add = (key: string, value: number) => {
+        if (!residuals.has(key)) residuals.set(key, []);
+        residuals.get(key)!.push(value);
+    };
+    players.forEach(p => {
+        const ratio = Math.max(0, p.actualFdp) / project(p);
+        const tier = getSalaryTier(p.salary);
+        if (tier !== ALL) add(bucketKey(p.position, tier), ratio);
+        add(bucketKey(p.position, ALL), ratio);
+        add(bucketKey(ALL, ALL), ratio);
+    });
+
+    const buckets: QuantileModel['buckets'] = {};
+    residuals.forEach((values, key) => {
+        if (values.length < MIN_BUCKET_SAMPLES) return;
+        const ratios = [...values].sort((a, b) => a - b);
+        const multipliers = {} as PlayerQuantiles;
+        QUANTILE_LEVELS.forEach(({ level, probability }) => { multipliers[level] = sampleQuantile(ratios, probability); });
+        buckets[key] = { multipliers, samples: values.length };
+    });
+
+    return { buckets, fittedAt: new Date().toISOString() };
+}
+
+/**
+ * The most specific fitted multipliers for a player: position + salary tier, then position, then all players.
+ */
+export function getQuantileMultipliers(model: QuantileModel | null, position: string, salary: number): PlayerQuantiles {
+    const keys = [bucketKey(position, getSalaryTier(salary)), bucketKey(position, ALL), bucketKey(ALL, ALL)];
+    const bucket = model && keys.map(key => model.buckets[key]).find(b => !!b);
+    return bucket ? bucket.multipliers : DEFAULT_QUANTILE_MULTIPLIERS;
+}
+
+/**
+ * Attaches a full quantile set to a player from their mean projection. A floor or ceiling supplied with the
+ * player (see Player.suppliedRange) is kept as their P10 or P90, with the neighbouring quantiles pulled into
+ * order around it; whichever is missing is filled from the fitted spread. Floor and ceiling always end up
+ * equal to P10 and P90, so everything downstream that reads scenarioFpts sees the same distribution.
+ */
+export function applyQuantiles(player: Player, model: QuantileModel | null): Player {
+    const multipliers = getQuantileMultipliers(model, player.position, player.salary);
+    const quantiles = {} as PlayerQuantiles;
+    QUANTILE_LEVELS.forEach(({ level }) => { quantiles[level] = player.fpts * multipliers[level]; });
+    const { floor, ceiling } = player.suppliedRange ?? {};
+    if (floor != null && Number.isFinite(floor)) {
+        quantiles.p10 = floor;
+        quantiles.p25 = Math.max(quantiles.p25, floor);
+    }
+    if (ceiling != null && Number.isFinite(ceiling)) {
+        quantiles.p90 = ceiling;
+        quantiles.p75 = Math.min(quantiles.p75, ceiling);
+        quantiles.p99 = Math.max(quantiles.p99, ceiling);
+    }
+    return {
+        ...player,
+        quantiles,
+        scenarioFpts: { ...player.scenarioFpts, floor: quantiles.p10, ceiling: quantiles.p90 },
+    };
+}
+
+/**
+ * A player's projection at a quantile. Players without fitted quantiles fall back to the split-normal
+ * between their floor (P10) and ceiling (P90) that the simulators use.
+ */
+export function getPlayerQuantile(player: Player, level: QuantileLevel): number {
+    const fitted = player.quantiles?.[level];
+    if (fitted != null) return fitted;
+    const { z } = QUANTILE_LEVELS.find(q => q.level === level)!;
+    const spread = z >= 0 ? player.scenarioFpts.ceiling - player.fpts : player.fpts - player.scenarioFpts.floor;
+    return Math.max(0, player.fpts + z * (Math.max(0, spread) / Z_90));
+}
@@ -0,0 +1,25 @@
+/**
+ * Creates a seeded pseudo-random generator (mulberry32) returning floats in [0, 1).
+ * The same seed always yields the same sequence, which keeps randomized runs reproducible.
+ * @param seed Any 32-bit integer.
+ */
+export const createSeededRandom = (seed: number): (() => number) => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+// Standard normal draw via the Box-Muller transform.
+export const randomNormal = (random: () => number): number => {
+    const u1 = Math.max(random(), Number.EPSILON);
+    const u2 = random();
+    return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+};
+
+// A fresh seed for a new run; record it so the run can be replayed.
+export const generateSeed = (): number => Math.floor(Math.random() * 2 ** 31);
@@ -0,0 +1,229 @@
+import { CoefficientStability, RegularizationMethod, RegularizationReport } from '../types';
+import { createWalkForwardFolds } from './walkForwardService';
+
+const INNER_CV_FOLDS = 5;
+// Share of the training weeks the first inner fold trains on; the later weeks are the held-out blocks.
+const INNER_INITIAL_TRAINING_SHARE = 50;
+const LAMBDA_GRID_SIZE = 20;
+// Ridge penalties span six orders of magnitude; on standardized features 1 is roughly "as strong as the data".
+const RIDGE_LAMBDA_RANGE: [number, number] = [1e-3, 1e3];
+// Lasso penalties run from the smallest that zeroes every feature down to a thousandth of it.
+const LASSO_LAMBDA_RATIO = 1e-3;
+const LASSO_MAX_SWEEPS = 1000;
+const LASSO_TOLERANCE = 1e-7;
+
+interface Scaling {
+    means: number[];
+    sds: number[]; // 0 for a constant feature, which is left out of the fit
+    yMean: number;
+}
+
+// Cross-products of the standardized features and the centered target, divided by the row count. Fits work
+// from these alone, so a penalty path costs O(features²) per step however many players there are.
+interface Gram {
+    xtx: number[][];
+    xty: number[];
+}
+
+interface RegularizedFit {
+    coefficients: number[]; // Per original feature unit
+    intercept: number;
+    report: RegularizationReport;
+}
+
+function computeScaling(X: number[][], y: number[], rows: number[]): Scaling {
+    const p = X[0].length;
+    const means = new Array(p).fill(0);
+    let yMean = 0;
+    rows.forEach(r => { X[r].forEach((v, j) => { means[j] += v; }); yMean += y[r]; });
+    means.forEach((_, j) => { means[j] /= rows.length; });
+    yMean /= rows.length;
+    const sds = new Array(p).fill(0);
+    rows.forEach(r => { X[r].forEach((v, j) => { sds[j] += (v - means[j]) ** 2; }); });
+    sds.forEach((_, j) => { sds[j] = Math.sqrt(sds[j] / rows.length); });
+    return { means, sds, yMean };
+}
+
+function computeGram(X: number[][], y: number[], rows: number[], scaling: Scaling): Gram {
+    const p = X[0].length;
+    const xtx = Array.from({ length: p }, () => new Array(p).fill(0));
+    const xty = new Array(p).fill(0);
+    const z = new Array(p).fill(0);
+    rows.forEach(r => {
+        for (let j = 0; j < p; j++) z[j] = scaling.sds[j] > 0 ? (X[r][j] - scaling.means[j]) / scaling.sds[j] : 0;
+        const target = y[r] - scaling.yMean;
+        for (let j = 0; j < p; j++) {
+            if (z[j] === 0) continue;
+            xty[j] += z[j] * target;
+            for (let k = j; k < p; k++) xtx[j][k] += z[j] * z[k];
+        }
+    });
+    for (let j = 0; j < p; j++) {
+        xty[j] /= rows.length;
+        for (let k = j; k < p; k++) {
+            xtx[j][k] /= rows.length;
+            xtx[k][j] = xtx[j][k];
+        }
+    }
+    return { xtx, xty };
+}
+
+// Gaussian elimination with partial pivoting on (XᵀX/n + λI)β = Xᵀy/n. Constant features get a zero.
+function solveRidge(gram: Gram, lambda: number, active: boolean[]): number[] {
+    const idx = active.map((a, j) => a ? j : -1).filter(j => j >= 0);
+    const m = idx.length;
+    const A = idx.map((j, row) => [...idx.map((k, col) => gram.xtx[j][k] + (row === col ? lambda : 0)), gram.xty[j]]);
+    for (let col = 0; col < m; col++) {
+        let pivot = col;
+        for (let row = col + 1; row < m; row++) if (Math.abs(A[row][col]) > Math.abs(A[pivot][col])) pivot = row;
+        [A[col], A[pivot]] = [A[pivot], A[col]];
+        if (Math.abs(A[col][col]) < 1e-12) continue;
+        for (let row = col + 1; row < m; row++) {
+            const factor = A[row][col] / A[col][col];
+            for (let k = col; k <= m; k++) A[row][k] -= factor * A[col][k];
+        }
+    }
+    const beta = new Array(m).fill(0);
+    for (let row = m - 1; row >= 0; row--) {
+        if (Math.abs(A[row][row]) < 1e-12) continue;
+        let sum = A[row][m];
+        for (let k = row + 1; k < m; k++) sum -= A[row][k] * beta[k];
+        beta[row] = sum / A[row][row];
+    }
+    const full = new Array(active.length).fill(0);
+    idx.forEach((j, i) => { full[j] = beta[i]; });
+    return full;
+}
+
+const softThreshold = (value: number, lambda: number) => Math.sign(value) * Math.max(0, Math.abs(value) - lambda);
+
+// Cyclic coordinate descent on ½‖y − Xβ‖²/n + λ‖β‖₁, warm-started from the previous penalty's solution.
+function solveLasso(gram: Gram, lambda: number, active: boolean[], start?: number[]): number[] {
+    const p = active.length;
+    const beta = start ? [...start] : new Array(p).fill(0);
+    for (let sweep = 0; sweep < LASSO_MAX_SWEEPS; sweep++) {
+        let maxChange = 0;
+        for (let j = 0; j < p; j++) {
+            if (!active[j] || gram.xtx[j][j] <= 0) continue;
+            let partial = gram.xty[j];
+            for (let k = 0; k < p; k++) if (k !== j) partial -= gram.xtx[j][k] * beta[k];
+            const next = softThreshold(partial, lambda) / gram.xtx[j][j];
+            maxChange = Math.max(maxChange, Math.abs(next - beta[j]));
+            beta[j] = next;
+        }
+        if (maxChange < LASSO_TOLERANCE) break;
+    }
+    return beta;
+}
+
+const logSpaced = (from: number, to: number, count: number) =>
+    Array.from({ length: count }, (_, i) => from * Math.pow(to / from, i / (count - 1)));
+
+function lambdaGrid(method: RegularizationMethod, gram: Gram): number[] {
+    if (method === 'ridge') return logSpaced(RIDGE_LAMBDA_RANGE[1], RIDGE_LAMBDA_RANGE[0], LAMBDA_GRID_SIZE);
+    const lambdaMax = Math.max(...gram.xty.map(Math.abs), 1e-6);
+    return logSpaced(lambdaMax, lambdaMax * LASSO_LAMBDA_RATIO, LAMBDA_GRID_SIZE);
+}
+
+// Fits every penalty in a grid, strongest first so each lasso fit can start from the last.
+function fitPath(method: RegularizationMethod, gram: Gram, lambdas: number[], active: boolean[]): number[][] {
+    const path: number[][] = [];
+    lambdas.forEach((lambda, i) => {
+        path.push(method === 'ridge' ? solveRidge(gram, lambda, active) : solveLasso(gram, lambda, active, path[i - 1]));
+    });
+    return path;
+}
+
+const predict = (row: number[], beta: number[], scaling: Scaling) =>
+    scaling.yMean + beta.reduce((sum, b, j) => sum + (b !== 0 && scaling.sds[j] > 0 ? b * (row[j] - scaling.means[j]) / scaling.sds[j] : 0), 0);
+
+/**
+ * Fits a ridge or lasso regression on standardized features with an unpenalized intercept. The penalty is
+ * chosen by inner cross-validation on the same purged walk-forward folds the outer validation uses: rows are
+ * grouped by game, each later block of weeks is predicted by a fit on the weeks before it less the embargo,
+ * and features are re-standardized on each training part. The penalty with the lowest held-out MAE is refit
+ * on every row. Coefficient stability comes from the inner fits at the chosen penalty: how often each
+ * feature is selected, how often its sign agrees with the final fit, and how much it moves between folds.
+ * @param X Feature rows.
+ * @param y Actual fantasy points per row.
+ * @param featureNames Name of each column, for the report.
+ * @param method 'ridge' shrinks every coefficient; 'lasso' also zeroes the weak ones.
+ * @param rowGameIds Vault game ID of each row, which dates it.
+ * @param embargoWeeks Weeks purged between each inner training window and its held-out block.
+ */
+export function fitRegularizedRegression(
+    X: number[][],
+    y: number[],
+    featureNames: readonly string[],
+    method: RegularizationMethod,
+    rowGameIds: readonly string[],
+    embargoWeeks = 0
+): RegularizedFit {
+    const n = X.length;
+    const allRows = Array.from({ length: n }, (_, i) => i);
+    const fullScaling = computeScaling(X, y, allRows);
+    const fullGram = computeGram(X, y, allRows, fullScaling);
+    const lambdas = lambdaGrid(method, fullGram);
+
+    const rowsByGame = new Map<string, number[]>();
+    allRows.forEach(r => {
+        if (!rowsByGame.has(rowGameIds[r])) rowsByGame.set(rowGameIds[r], []);
+        rowsByGame.get(rowGameIds[r])!.push(r);
+    });
+    const games = Array.from(rowsByGame, ([id, rows]) => ({ id, rows }));
+    const folds = createWalkForwardFolds(games, INNER_INITIAL_TRAINING_SHARE, INNER_CV_FOLDS, embargoWeeks);
+    if (folds.length === 0) throw new Error("Inner cross-validation needs training rows from more weeks than the embargo covers.");
+
+    const foldErrors = new Array(lambdas.length).fill(0);
+    const foldPaths: { path: number[][], scaling: Scaling }[] = [];
+    let heldOutRows = 0;
+    for (const fold of folds) {
+        const trainRows = fold.trainingGames.flatMap(g => g.rows);
+        const testRows = fold.validationGames.flatMap(g => g.rows);
+        const scaling = computeScaling(X, y, trainRows);
+        const active = scaling.sds.map(sd => sd > 0);
+        const path = fitPath(method, computeGram(X, y, trainRows, scaling), lambdas, active);
+        path.forEach((beta, i) => {
+            foldErrors[i] += testRows.reduce((sum, r) => sum + Math.abs(y[r] - predict(X[r], beta, scaling)), 0);
+        });
+        foldPaths.push({ path, scaling });
+        heldOutRows += testRows.length;
+    }
+
+    const cvMaes = foldErrors.map(e => e / heldOutRows);
+    const best = cvMaes.indexOf(Math.min(...cvMaes));
+    const lambda = lambdas[best];
+    const fullActive = fullScaling.sds.map(sd => sd > 0);
+    const standardized = fitPath(method, fullGram, lambdas.slice(0, best + 1), fullActive)[best];
+
+    const coefficients = standardized.map((b, j) => fullScaling.sds[j] > 0 ? b / fullScaling.sds[j] : 0);
+    const intercept = fullScaling.yMean - coefficients.reduce((sum, c, j) => sum + c * fullScaling.means[j], 0);
+
+    const stability: CoefficientStability[] = featureNames.map((feature, j) => {
+        const foldValues = foldPaths.map(({ path }) => path[best][j]);
+        const mean = foldValues.reduce((sum, v) => sum + v, 0) / foldValues.length;
+        const sd = Math.sqrt(foldValues.reduce((sum, v) => sum + (v - mean) ** 2, 0) / foldValues.length);
+        return {
+            feature,
+            coefficient: coefficients[j],
+            standardizedCoefficient: standardized[j],
+            foldSd: sd,
+            selectionFrequency: foldValues.filter(v => v !== 0).length / foldValues.length,
+            signConsistency: standardized[j] === 0 ? 0 : foldValues.filter(v => Math.sign(v) === Math.sign(standardized[j])).length / foldValues.length,
+        };
+    });
+
+    return {
+        coefficients,
+        intercept,
+        report: {
+            method,
+            lambda,
+            cvMae: cvMaes[best],
+            innerFolds: folds.length,
+            lambdaPath: lambdas.map((l, i) => ({ lambda: l, cvMae: cvMaes[i] })),
+            nonZeroFeatures: featureNames.filter((_, j) => coefficients[j] !== 0),
+            stability,
+        },
+    };
+}
@@ -1,4 +1,4 @@
-import { RunManifest, OptimizerSettings, Player } from '../types';
+import { RunManifest, OptimizerSettings, Player, AppliedOverride } from '../types';
 
 /**
  * Creates a SHA-256 hash of a string.
@@ -20,12 +20,14 @@ async function sha256(str: string): Promise<string> {
  * @param settings The optimizer settings for the run.
  * @param activeModelId The ID of the model used for projections.
  * @param players The full list of players used in the run.
+ * @param overrides Manual overrides applied to the projections, with the values they replaced.
  * @returns A promise that resolves to a RunManifest object.
  */
 export async function generateRunManifest(
     settings: OptimizerSettings,
     activeModelId: string | null,
-    players: Player[]
+    players: Player[],
+    overrides: AppliedOverride[] = []
 ): Promise<RunManifest> {
     const runId = `run_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
     
@@ -42,6 +44,8 @@ export async function generateRunManifest(
         settings,
         activeModelId,
         playerDataChecksum,
+        randomSeed: settings.randomness && settings.randomness.level > 0 ? settings.randomness.seed : null,
+        overrides,
     };
 
     return manifest;
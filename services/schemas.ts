@@ -15,9 +15,27 @@ export const FdCsvPlayerSchema = z.object({
     // --- NEW: Optional advanced columns from user CSV ---
     Volatility: z.string().transform(val => parseFloat(val)).optional(),
     Tags: z.string().optional(),
+    Floor: z.string().transform(val => parseFloat(val)).optional(),
+    Ceiling: z.string().transform(val => parseFloat(val)).optional(),
 }).passthrough();
 export type FdCsvPlayer = z.infer<typeof FdCsvPlayerSchema>;
 
+// Schema for raw data parsed from the DraftKings Showdown CSV. Each player appears twice:
+// once with Roster Position 'CPT' (1.5x salary) and once with 'FLEX'.
+export const DkCsvPlayerSchema = z.object({
+    Position: z.string(),
+    Name: z.string().min(1),
+    ID: z.string().min(1),
+    'Roster Position': z.enum(['CPT', 'FLEX']),
+    Salary: z.string().transform(val => parseInt(val, 10)),
+    'Game Info': z.string(),
+    TeamAbbrev: z.string(),
+    AvgPointsPerGame: z.string().transform(val => parseFloat(val) || 0),
+    Floor: z.string().transform(val => parseFloat(val)).optional(),
+    Ceiling: z.string().transform(val => parseFloat(val)).optional(),
+}).passthrough();
+export type DkCsvPlayer = z.infer<typeof DkCsvPlayerSchema>;
+
 // Schema for the contest history CSV
 export const ContestHistoryRowSchema = z.object({
     Rank: z.string().transform(val => parseInt(val, 10)),
@@ -27,6 +45,20 @@ export const ContestHistoryRowSchema = z.object({
 }).passthrough();
 export type ContestHistoryRow = z.infer<typeof ContestHistoryRowSchema>;
 
+// Schema for a third-party projection CSV row, after headers are lower-cased
+const optionalNumber = z.string().optional().transform(val => {
+    const parsed = parseFloat((val ?? '').replace('%', ''));
+    return Number.isFinite(parsed) ? parsed : undefined;
+});
+export const ProjectionCsvRowSchema = z.object({
+    name: z.string().min(1),
+    team: z.string().optional(),
+    mean: z.string().transform(val => parseFloat(val)).refine(val => Number.isFinite(val), 'mean must be a number'),
+    ceiling: optionalNumber,
+    ownership: optionalNumber,
+}).passthrough();
+export type ProjectionCsvRow = z.infer<typeof ProjectionCsvRowSchema>;
+
 
 // Schemas for AI Service Responses
 
@@ -39,6 +71,19 @@ const StatProjectionsSchema = z.object({
     receptions: z.number().optional(),
     receivingYards: z.number().optional(),
     receivingTds: z.number().optional(),
+    sacks: z.number().optional(),
+    defensiveInterceptions: z.number().optional(),
+    defensiveTds: z.number().optional(),
+    fumbleRecoveries: z.number().optional(),
+    safeties: z.number().optional(),
+    returnTds: z.number().optional(),
+    blockedKicks: z.number().optional(),
+    pointsAllowed: z.number().optional(),
+    fieldGoals: z.number().optional(),
+    fieldGoals0to39: z.number().optional(),
+    fieldGoals40to49: z.number().optional(),
+    fieldGoals50Plus: z.number().optional(),
+    extraPoints: z.number().optional(),
 }).passthrough();
 
 export const AdvancedPlayerMetricsResponseSchema = z.object({
@@ -48,6 +93,7 @@ export const AdvancedPlayerMetricsResponseSchema = z.object({
     }),
     playerMetrics: z.array(z.object({
         id: z.string(),
+        archetype: z.string().optional(),
         advancedStats: z.object({
             airYards: z.number().optional(),
             targetShare: z.number().optional(),
@@ -0,0 +1,154 @@
+import { ContestRuleset, HistoricalGame, ScoringStat, ScoringStatLine, ScoringSystem, ScoringSystemId } from '../types';
+import { normalCdf } from './normalDistribution';
+
+// Both sites score a defense's points allowed on the same tiers.
+const STANDARD_POINTS_ALLOWED_TIERS: ScoringSystem['pointsAllowedTiers'] = [
+    { maxPoints: 0, fpts: 10 },
+    { maxPoints: 6, fpts: 7 },
+    { maxPoints: 13, fpts: 4 },
+    { maxPoints: 20, fpts: 1 },
+    { maxPoints: 27, fpts: 0 },
+    { maxPoints: 34, fpts: -1 },
+    { maxPoints: Infinity, fpts: -4 },
+];
+
+const KICKER_DEFENSE_POINTS = {
+    fg0to39: 3, fg40to49: 4, fg50Plus: 5, extraPoints: 1,
+    sacks: 1, defInterceptions: 2, fumbleRecoveries: 2, defTds: 6, safeties: 2, blockedKicks: 2,
+};
+
+export const FANDUEL_SCORING: ScoringSystem = {
+    id: 'FANDUEL',
+    name: 'FanDuel',
+    points: {
+        passYds: 0.04, passTds: 4, interceptions: -1,
+        rushYds: 0.1, rushTds: 6,
+        receptions: 0.5, recYds: 0.1, recTds: 6,
+        fumblesLost: -2, twoPtConversions: 2, fumbleReturnTds: 6, returnTds: 6,
+        ...KICKER_DEFENSE_POINTS,
+    },
+    pointsAllowedTiers: STANDARD_POINTS_ALLOWED_TIERS,
+    yardageBonuses: [],
+};
+
+export const DRAFTKINGS_SCORING: ScoringSystem = {
+    id: 'DRAFTKINGS',
+    name: 'DraftKings',
+    points: {
+        passYds: 0.04, passTds: 4, interceptions: -1,
+        rushYds: 0.1, rushTds: 6,
+        receptions: 1, recYds: 0.1, recTds: 6,
+        fumblesLost: -1, twoPtConversions: 2, fumbleReturnTds: 6, returnTds: 6,
+        ...KICKER_DEFENSE_POINTS,
+    },
+    pointsAllowedTiers: STANDARD_POINTS_ALLOWED_TIERS,
+    yardageBonuses: [
+        { stat: 'passYds', threshold: 300, points: 3 },
+        { stat: 'rushYds', threshold: 100, points: 3 },
+        { stat: 'recYds', threshold: 100, points: 3 },
+    ],
+};
+
+export const SCORING_SYSTEMS: ScoringSystem[] = [FANDUEL_SCORING, DRAFTKINGS_SCORING];
+
+export const DEFAULT_SCORING_SYSTEM = FANDUEL_SCORING;
+
+export const getScoringSystem = (id: ScoringSystemId): ScoringSystem =>
+    SCORING_SYSTEMS.find(s => s.id === id) || DEFAULT_SCORING_SYSTEM;
+
+// The site scoring that goes with a contest ruleset.
+export const getRulesetScoringSystem = (ruleset: ContestRuleset): ScoringSystem =>
+    ruleset.id === 'DRAFTKINGS_SHOWDOWN' ? DRAFTKINGS_SCORING : FANDUEL_SCORING;
+
+/**
+ * A league's own scoring: a site's rules with some per-stat values changed.
+ * @param base The site scoring to start from.
+ * @param points Per-unit points that differ from the base.
+ * @param yardageBonuses Replaces the base's bonuses when given.
+ */
+export function createCustomScoringSystem(
+    base: ScoringSystem,
+    points: Partial<Record<ScoringStat, number>>,
+    yardageBonuses: ScoringSystem['yardageBonuses'] = base.yardageBonuses
+): ScoringSystem {
+    return {
+        ...base,
+        id: 'CUSTOM',
+        name: `Custom (${base.name} base)`,
+        points: { ...base.points, ...points },
+        yardageBonuses,
+    };
+}
+
+// Sites report fantasy points to the hundredth.
+const roundToHundredths = (fpts: number) => Math.round(fpts * 100) / 100;
+
+// Spread of a single-game yardage total relative to its projection, for pricing bonus thresholds.
+export const YARDAGE_CV = 0.45;
+
+const scorePerUnitStats = (stats: ScoringStatLine, system: ScoringSystem): number =>
+    (Object.keys(system.points) as ScoringStat[]).reduce((score, stat) => score + (stats[stat] ?? 0) * system.points[stat], 0);
+
+/**
+ * Defense points for exactly this many points allowed.
+ */
+export function getPointsAllowedFpts(pointsAllowed: number, system: ScoringSystem = DEFAULT_SCORING_SYSTEM): number {
+    return system.pointsAllowedTiers.find(t => pointsAllowed <= t.maxPoints)!.fpts;
+}
+
+/**
+ * Expected points-allowed score when the points allowed are uncertain. Scoring the tier of the mean would
+ * throw away the chance of a shutout or a blowout, so the tiers are averaged over a normal spread of
+ * whole-point outcomes (truncated at zero).
+ * @param meanPointsAllowed The projected points allowed.
+ * @param sd Standard deviation of the points allowed; 0 scores the mean exactly.
+ */
+export function getExpectedPointsAllowedFpts(meanPointsAllowed: number, sd: number, system: ScoringSystem = DEFAULT_SCORING_SYSTEM): number {
+    if (sd <= 0) return getPointsAllowedFpts(Math.round(meanPointsAllowed), system);
+    let total = 0;
+    let weightTotal = 0;
+    const maxPoints = Math.ceil(Math.max(0, meanPointsAllowed) + 5 * sd);
+    for (let points = 0; points <= maxPoints; points++) {
+        const weight = Math.exp(-0.5 * ((points - meanPointsAllowed) / sd) ** 2);
+        total += weight * getPointsAllowedFpts(points, system);
+        weightTotal += weight;
+    }
+    return weightTotal > 0 ? total / weightTotal : getPointsAllowedFpts(Math.round(meanPointsAllowed), system);
+}
+
+/**
+ * Fantasy points for an actual box-score line: per-unit stats, the points-allowed tier for a defense
+ * and any yardage bonuses reached.
+ */
+export function scoreStatLine(stats: ScoringStatLine, system: ScoringSystem = DEFAULT_SCORING_SYSTEM): number {
+    let score = scorePerUnitStats(stats, system);
+    if (stats.pointsAllowed != null) score += getPointsAllowedFpts(stats.pointsAllowed, system);
+    system.yardageBonuses.forEach(bonus => {
+        if ((stats[bonus.stat] ?? 0) >= bonus.threshold) score += bonus.points;
+    });
+    return roundToHundredths(score);
+}
+
+/**
+ * Expected fantasy points for a projected stat line. Per-unit stats score linearly; the thresholded parts
+ * are priced by how likely they are around the projection rather than all-or-nothing at the mean.
+ * @param pointsAllowedSd Standard deviation of a defense's points allowed around its projection.
+ */
+export function scoreProjectedStatLine(stats: ScoringStatLine, pointsAllowedSd: number, system: ScoringSystem = DEFAULT_SCORING_SYSTEM): number {
+    let score = scorePerUnitStats(stats, system);
+    if (stats.pointsAllowed != null) score += getExpectedPointsAllowedFpts(stats.pointsAllowed, pointsAllowedSd, system);
+    system.yardageBonuses.forEach(bonus => {
+        const mean = stats[bonus.stat] ?? 0;
+        if (mean <= 0) return;
+        score += bonus.points * (1 - normalCdf((bonus.threshold - mean) / (mean * YARDAGE_CV)));
+    });
+    return score;
+}
+
+/**
+ * A historical player's actual fantasy points under a scoring system. The vault's stored actualFdp is
+ * FanDuel scoring; any other system is recomputed from the box score.
+ */
+export function getActualFpts(player: HistoricalGame['players'][0], system: ScoringSystem = DEFAULT_SCORING_SYSTEM): number {
+    return system.id === 'FANDUEL' ? player.actualFdp : scoreStatLine(player.stats, system);
+}
@@ -1,6 +1,14 @@
 import GLPK from 'glpk.js';
-import { Player, StackingRules } from '../types';
+import { Player, StackingRules, UniquenessRules, ConditionalRule, RosterSlot, RosterRules, ContestRuleset, CorrelationObjective } from '../types';
 import { getTargetFpts, OptimizationTarget } from './optimizer';
+import { playerMatchesSelector } from './conditionalRules';
+import { DEFAULT_ROSTER_RULES } from './lineupValidator';
+import { DEFAULT_CONTEST_RULESET, getMvpSalary } from './contestRulesets';
+import { getPairBonus } from './correlationService';
+import { getExposureSlotConstraints, perturbProjections } from './optimizer';
+import { createSeededRandom } from './random';
+import type { LineupSolver, SolvedLineup } from './lineupSolver';
+import { getSolvedLineupSignature, RECEIVER_POSITIONS } from './lineupSolver';
 
 const glpk = GLPK();
 
@@ -9,6 +17,274 @@ interface SolutionPlayer {
     isMvp: boolean;
 }
 
+/**
+ * Per-slot locks and exclusions, used to steer MVP and FLEX exposure separately.
+ * A player in a FLEX slot is expressed as p_i - m_i.
+ */
+export interface SlotConstraints {
+    mvpLockedIds: Set<string>;
+    mvpExcludedIds: Set<string>;
+    flexLockedIds: Set<string>;
+    flexExcludedIds: Set<string>;
+}
+
+// The optional parts of a single solve; each falls back to its default when left out.
+export interface SolveLineupOptions {
+    slotConstraints?: SlotConstraints; // Exposure locks and exclusions; none when unset
+    uniquenessRules?: UniquenessRules;
+    rosterRules?: RosterRules;
+    contestRuleset?: ContestRuleset;
+    correlationObjective?: CorrelationObjective;
+}
+
+// Off by default so the objective stays plain projected points unless the user opts in.
+export const DEFAULT_CORRELATION_OBJECTIVE: CorrelationObjective = {
+    enabled: false,
+    weight: 0.5,
+};
+
+// Matches the original behaviour: only an identical MVP + FLEX lineup is excluded.
+export const DEFAULT_UNIQUENESS_RULES: UniquenessRules = {
+    minUniquePlayers: 1,
+    mvpSwapCountsAsUnique: true,
+};
+
+/**
+ * Translates StackingRules into MILP rows over the p_i (in-lineup) variables.
+ * - stackQbWithReceiver: p_qb <= sum(p_j) for same-team WR/TE j
+ * - forceOpponentBringBack: p_qb <= sum(p_j) for players j on the QB's opponent
+ * - maxFromPosition: sum(p_j) for position <= max
+ */
+function buildStackingConstraints(playerPool: Player[], stackingRules: StackingRules): any[] {
+    const constraints: any[] = [];
+
+    playerPool.forEach((qb, qbIdx) => {
+        if (qb.position !== 'QB') return;
+
+        if (stackingRules.stackQbWithReceiver) {
+            const receiverVars = playerPool
+                .map((p, i) => ({ p, i }))
+                .filter(({ p, i }) => i !== qbIdx && p.team === qb.team && RECEIVER_POSITIONS.includes(p.position))
+                .map(({ i }) => ({ name: `p_${i}`, coef: -1 }));
+            constraints.push({
+                name: `stack_qb_${qbIdx}`,
+                vars: [{ name: `p_${qbIdx}`, coef: 1 }, ...receiverVars],
+                bnds: { type: glpk.GLP_UP, ub: 0, lb: 0 },
+            });
+        }
+
+        if (stackingRules.forceOpponentBringBack) {
+            const bringBackVars = playerPool
+                .map((p, i) => ({ p, i }))
+                .filter(({ p }) => p.team === qb.opponent)
+                .map(({ i }) => ({ name: `p_${i}`, coef: -1 }));
+            constraints.push({
+                name: `bring_back_qb_${qbIdx}`,
+                vars: [{ name: `p_${qbIdx}`, coef: 1 }, ...bringBackVars],
+                bnds: { type: glpk.GLP_UP, ub: 0, lb: 0 },
+            });
+        }
+    });
+
+    for (const [position, max] of Object.entries(stackingRules.maxFromPosition || {})) {
+        const positionVars = playerPool
+            .map((p, i) => ({ p, i }))
+            .filter(({ p }) => p.position === position)
+            .map(({ i }) => ({ name: `p_${i}`, coef: 1 }));
+        if (positionVars.length === 0) continue;
+        constraints.push({
+            name: `max_pos_${position}`,
+            vars: positionVars,
+            bnds: { type: glpk.GLP_UP, ub: max, lb: 0 },
+        });
+    }
+
+    return constraints;
+}
+
+/**
+ * Translates single-game roster legality into MILP rows over the p_i variables.
+ * - per team: sum(p_j) <= maxPlayersPerTeam (and <= rosterSize - 1 when both teams are required)
+ * - disabled K/D: sum(p_j) for the position = 0
+ */
+function buildRosterRuleConstraints(playerPool: Player[], rosterRules: RosterRules, ruleset: ContestRuleset): any[] {
+    const constraints: any[] = [];
+    const teamCap = rosterRules.requireBothTeams
+        ? Math.min(ruleset.maxPlayersPerTeam, ruleset.rosterSize - 1)
+        : ruleset.maxPlayersPerTeam;
+
+    const teams = new Set(playerPool.map(p => p.team));
+    teams.forEach(team => {
+        constraints.push({
+            name: `max_team_${team}`,
+            vars: playerPool
+                .map((p, i) => ({ p, i }))
+                .filter(({ p }) => p.team === team)
+                .map(({ i }) => ({ name: `p_${i}`, coef: 1 })),
+            bnds: { type: glpk.GLP_UP, ub: teamCap, lb: 0 },
+        });
+    });
+
+    const disabledPositions = [
+        ...(rosterRules.allowKicker ? [] : ['K']),
+        ...(rosterRules.allowDefense ? [] : ['D']),
+    ];
+    disabledPositions.forEach(position => {
+        const positionVars = playerPool
+            .map((p, i) => ({ p, i }))
+            .filter(({ p }) => p.position === position)
+            .map(({ i }) => ({ name: `p_${i}`, coef: 1 }));
+        if (positionVars.length === 0) return;
+        constraints.push({
+            name: `disable_pos_${position}`,
+            vars: positionVars,
+            bnds: { type: glpk.GLP_FX, ub: 0, lb: 0 },
+        });
+    });
+
+    return constraints;
+}
+
+// Linear expression for "player i occupies this slot".
+const slotTerms = (i: number, slot: RosterSlot = 'ANY'): { name: string, coef: number }[] => {
+    switch (slot) {
+        case 'MVP': return [{ name: `m_${i}`, coef: 1 }];
+        case 'FLEX': return [{ name: `p_${i}`, coef: 1 }, { name: `m_${i}`, coef: -1 }];
+        default: return [{ name: `p_${i}`, coef: 1 }];
+    }
+};
+
+// Sums duplicate variable names so each appears once per constraint row.
+const mergeTerms = (terms: { name: string, coef: number }[]) => {
+    const merged = new Map<string, number>();
+    terms.forEach(t => merged.set(t.name, (merged.get(t.name) || 0) + t.coef));
+    return Array.from(merged.entries()).filter(([, coef]) => coef !== 0).map(([name, coef]) => ({ name, coef }));
+};
+
+/**
+ * Compiles if-then rules into MILP rows. For each trigger player t (x_t) and the
+ * players S_t matching the 'then' selector (y_j):
+ * - min: sum(y_j) - min * x_t >= 0
+ * - max: sum(y_j) + (|S_t| - max) * x_t <= |S_t|   (big-M, only binding when x_t = 1)
+ */
+function buildConditionalConstraints(playerPool: Player[], rules: ConditionalRule[]): any[] {
+    const constraints: any[] = [];
+
+    rules.forEach(rule => {
+        const min = rule.then.min ?? (rule.then.max === undefined ? 1 : undefined);
+        const max = rule.then.max;
+
+        playerPool.forEach((trigger, t) => {
+            if (!playerMatchesSelector(trigger, rule.if)) return;
+
+            const triggerTerms = slotTerms(t, rule.if.slot);
+            const targetTerms = playerPool
+                .map((p, j) => ({ p, j }))
+                .filter(({ p, j }) => j !== t && playerMatchesSelector(p, rule.then.selector, trigger))
+                .flatMap(({ j }) => slotTerms(j, rule.then.selector.slot));
+            const targetCount = new Set(targetTerms.map(term => term.name.split('_')[1])).size;
+
+            if (min !== undefined && min > 0) {
+                constraints.push({
+                    name: `rule_${rule.id}_min_${t}`,
+                    vars: mergeTerms([...targetTerms, ...triggerTerms.map(term => ({ name: term.name, coef: -min * term.coef }))]),
+                    bnds: { type: glpk.GLP_LO, ub: 0, lb: 0 },
+                });
+            }
+            if (max !== undefined && max < targetCount) {
+                const bigM = targetCount - max;
+                constraints.push({
+                    name: `rule_${rule.id}_max_${t}`,
+                    vars: mergeTerms([...targetTerms, ...triggerTerms.map(term => ({ name: term.name, coef: bigM * term.coef }))]),
+                    bnds: { type: glpk.GLP_UP, ub: targetCount, lb: 0 },
+                });
+            }
+        });
+    });
+
+    return constraints;
+}
+
+/**
+ * Linearizes pairwise correlation bonuses with pair variables. For each correlated pair (i, j)
+ * with bonus b = weight * corr * sqrt(s_i * s_j):
+ * - y_i_j = p_i AND p_j earns b
+ * - u_i_j = m_i AND p_j earns b * (mvpMultiplier - 1), since the MVP's points are scaled up
+ * Positive bonuses only need upper bounds (y <= p_i, y <= p_j) because the solver wants y = 1;
+ * negative ones only need the lower bound (y >= p_i + p_j - 1) because the solver wants y = 0.
+ */
+function buildCorrelationTerms(
+    playerPool: Player[],
+    optimizationTarget: OptimizationTarget,
+    correlationObjective: CorrelationObjective,
+    ruleset: ContestRuleset
+): { objectiveVars: { name: string, coef: number }[], constraints: any[], binaries: string[] } {
+    const objectiveVars: { name: string, coef: number }[] = [];
+    const constraints: any[] = [];
+    const binaries: string[] = [];
+
+    const addAndTerm = (name: string, a: string, b: string, bonus: number) => {
+        objectiveVars.push({ name, coef: bonus });
+        binaries.push(name);
+        if (bonus > 0) {
+            constraints.push({ name: `${name}_le_${a}`, vars: [{ name, coef: 1 }, { name: a, coef: -1 }], bnds: { type: glpk.GLP_UP, ub: 0, lb: 0 } });
+            constraints.push({ name: `${name}_le_${b}`, vars: [{ name, coef: 1 }, { name: b, coef: -1 }], bnds: { type: glpk.GLP_UP, ub: 0, lb: 0 } });
+        } else {
+            constraints.push({ name: `${name}_ge`, vars: [{ name: a, coef: 1 }, { name: b, coef: 1 }, { name, coef: -1 }], bnds: { type: glpk.GLP_UP, ub: 1, lb: 0 } });
+        }
+    };
+
+    const scores = playerPool.map(p => getTargetFpts(p, optimizationTarget));
+    for (let i = 0; i < playerPool.length; i++) {
+        for (let j = i + 1; j < playerPool.length; j++) {
+            const bonus = getPairBonus(playerPool[i], playerPool[j], scores[i], scores[j], correlationObjective.weight);
+            if (bonus === 0) continue;
+
+            addAndTerm(`y_${i}_${j}`, `p_${i}`, `p_${j}`, bonus);
+            const mvpBonus = bonus * (ruleset.mvpMultiplier - 1);
+            if (mvpBonus !== 0) {
+                addAndTerm(`u_${i}_${j}`, `m_${i}`, `p_${j}`, mvpBonus);
+                addAndTerm(`u_${j}_${i}`, `m_${j}`, `p_${i}`, mvpBonus);
+            }
+        }
+    }
+
+    return { objectiveVars, constraints, binaries };
+}
+
+function buildSlotConstraints(playerIndexMap: Map<string, number>, slotConstraints: SlotConstraints): any[] {
+    const constraints: any[] = [];
+    const forEachIndex = (ids: Set<string>, fn: (idx: number, id: string) => void) => {
+        for (const id of ids) {
+            const idx = playerIndexMap.get(id);
+            if (idx !== undefined) fn(idx, id);
+        }
+    };
+
+    forEachIndex(slotConstraints.mvpLockedIds, (idx, id) => constraints.push({
+        name: `lock_mvp_${id}`,
+        vars: [{ name: `m_${idx}`, coef: 1 }],
+        bnds: { type: glpk.GLP_FX, ub: 1, lb: 1 },
+    }));
+    forEachIndex(slotConstraints.mvpExcludedIds, (idx, id) => constraints.push({
+        name: `exclude_mvp_${id}`,
+        vars: [{ name: `m_${idx}`, coef: 1 }],
+        bnds: { type: glpk.GLP_FX, ub: 0, lb: 0 },
+    }));
+    forEachIndex(slotConstraints.flexLockedIds, (idx, id) => constraints.push({
+        name: `lock_flex_${id}`,
+        vars: [{ name: `p_${idx}`, coef: 1 }, { name: `m_${idx}`, coef: -1 }],
+        bnds: { type: glpk.GLP_FX, ub: 1, lb: 1 },
+    }));
+    forEachIndex(slotConstraints.flexExcludedIds, (idx, id) => constraints.push({
+        name: `exclude_flex_${id}`,
+        vars: [{ name: `p_${idx}`, coef: 1 }, { name: `m_${idx}`, coef: -1 }],
+        bnds: { type: glpk.GLP_UP, ub: 0, lb: 0 },
+    }));
+
+    return constraints;
+}
+
 /**
  * Solves for the single highest-scoring lineup given a set of constraints
  * using a Mixed-Integer Linear Program (MILP) formulation.
@@ -21,8 +297,17 @@ export async function solveLineup(
     excludedSignatures: Set<string>,
     salaryCap: number,
     stackingRules: StackingRules,
-    optimizationTarget: OptimizationTarget
+    optimizationTarget: OptimizationTarget,
+    options: SolveLineupOptions = {}
 ): Promise<SolutionPlayer[] | null> {
+    const {
+        slotConstraints,
+        uniquenessRules = DEFAULT_UNIQUENESS_RULES,
+        rosterRules = DEFAULT_ROSTER_RULES,
+        contestRuleset = DEFAULT_CONTEST_RULESET,
+        correlationObjective = DEFAULT_CORRELATION_OBJECTIVE,
+    } = options;
+    const rosterSize = contestRuleset.rosterSize;
     const playerPool = players.filter(p => !excludedIds.has(p.id));
     const numPlayers = playerPool.length;
 
@@ -49,18 +334,26 @@ export async function solveLineup(
         const player = indexPlayerMap.get(i)!;
         const score = getTargetFpts(player, optimizationTarget);
         problem.objective.vars.push({ name: `p_${i}`, coef: score });
-        problem.objective.vars.push({ name: `m_${i}`, coef: score * 0.5 }); // Additional 0.5x for MVP
+        problem.objective.vars.push({ name: `m_${i}`, coef: score * (contestRuleset.mvpMultiplier - 1) }); // MVP bonus on top of p_i
         problem.binaries.push(`p_${i}`);
         problem.binaries.push(`m_${i}`);
     }
 
+    // Correlation-aware mode adds pair variables (y_i_j, u_i_j) on top of the per-player terms
+    if (correlationObjective.enabled && correlationObjective.weight !== 0) {
+        const correlationTerms = buildCorrelationTerms(playerPool, optimizationTarget, correlationObjective, contestRuleset);
+        problem.objective.vars.push(...correlationTerms.objectiveVars);
+        problem.subjectTo.push(...correlationTerms.constraints);
+        problem.binaries.push(...correlationTerms.binaries);
+    }
+
     // --- Define Constraints ---
 
-    // 1. Total roster size must be 5
+    // 1. Total roster size (p_i covers the MVP as well, so only p_i is counted)
     problem.subjectTo.push({
         name: 'roster_size',
-        vars: problem.objective.vars.map(v => ({ name: v.name, coef: 1 })),
-        bnds: { type: glpk.GLP_FX, ub: 5, lb: 5 },
+        vars: playerPool.map((_, i) => ({ name: `p_${i}`, coef: 1 })),
+        bnds: { type: glpk.GLP_FX, ub: rosterSize, lb: rosterSize },
     });
 
     // 2. Exactly one MVP
@@ -80,10 +373,13 @@ export async function solveLineup(
         });
     }
 
-    // 4. Salary cap constraint
+    // 4. Salary cap constraint. When the MVP slot costs more (DraftKings Captain), m_i carries the surcharge.
     problem.subjectTo.push({
         name: 'salary_cap',
-        vars: playerPool.map((p, i) => ({ name: `p_${i}`, coef: p.salary })),
+        vars: mergeTerms(playerPool.flatMap((p, i) => [
+            { name: `p_${i}`, coef: p.salary },
+            { name: `m_${i}`, coef: getMvpSalary(p, contestRuleset) - p.salary },
+        ])),
         bnds: { type: glpk.GLP_UP, ub: salaryCap, lb: 0 },
     });
 
@@ -99,7 +395,23 @@ export async function solveLineup(
         }
     }
 
-    // 6. Exclude previously found lineups
+    // 5b. Roster legality: both teams, max per team, K/D toggles
+    problem.subjectTo.push(...buildRosterRuleConstraints(playerPool, rosterRules, contestRuleset));
+
+    // 6. Stacking & correlation rules
+    problem.subjectTo.push(...buildStackingConstraints(playerPool, stackingRules));
+    problem.subjectTo.push(...buildConditionalConstraints(playerPool, stackingRules.conditionalRules || []));
+
+    // 6b. Per-slot exposure locks and exclusions
+    if (slotConstraints) {
+        problem.subjectTo.push(...buildSlotConstraints(playerIndexMap, slotConstraints));
+    }
+
+    // 7. Enforce minimum uniqueness vs previously found lineups.
+    // Overlap counts shared players; when an MVP swap counts as unique, the prior MVP only
+    // overlaps if they are MVP again (m_i instead of p_i).
+    const minUniquePlayers = Math.max(1, Math.min(rosterSize, uniquenessRules.minUniquePlayers));
+    const maxOverlap = rosterSize - minUniquePlayers;
     for (const signature of excludedSignatures) {
         const playerIds = signature.split(',');
         const mvpId = playerIds[0];
@@ -109,14 +421,15 @@ export async function solveLineup(
         const vars = allIds.map(id => {
             const idx = playerIndexMap.get(id);
             if (idx === undefined) return null;
-            return { name: id === mvpId ? `m_${idx}` : `p_${idx}`, coef: 1 };
+            const useMvpVar = id === mvpId && uniquenessRules.mvpSwapCountsAsUnique;
+            return { name: useMvpVar ? `m_${idx}` : `p_${idx}`, coef: 1 };
         }).filter((v): v is { name: string, coef: number } => v !== null);
 
-        if (vars.length === 5) {
+        if (vars.length === rosterSize) {
             problem.subjectTo.push({
                 name: `exclude_lineup_${signature.substring(0, 10)}`,
                 vars: vars,
-                bnds: { type: glpk.GLP_UP, ub: 4, lb: 0 }
+                bnds: { type: glpk.GLP_UP, ub: maxOverlap, lb: 0 }
             });
         }
     }
@@ -145,7 +458,7 @@ export async function solveLineup(
                     } else {
                         solution.find(p => p.id === player.id)!.isMvp = true;
                     }
-                } else { // type === 'p'
+                } else if (type === 'p') { // Pair variables (y_, u_) are not players
                      if (!solution.some(p => p.id === player.id)) {
                         solution.push({ id: player.id, isMvp: false });
                     }
@@ -154,5 +467,58 @@ export async function solveLineup(
         }
     }
 
-    return solution.length === 5 ? solution : null;
-}
\ No newline at end of file
+    return solution.length === rosterSize ? solution : null;
+}
+
+/**
+ * The original backend: one MILP solve per lineup, each result fed back as a uniqueness row
+ * and into the exposure counts for the next solve.
+ */
+export const glpkLineupSolver: LineupSolver = {
+    id: 'GLPK',
+    name: 'GLPK (MILP)',
+    async generateLineups(request) {
+        const { players, numberOfLineups, exposureTargets, randomness } = request;
+        const lineups: SolvedLineup[] = [];
+        const excludedLineupSignatures = new Set<string>();
+        const mvpCounts = new Map<string, number>();
+        const flexCounts = new Map<string, number>();
+        const random = randomness && randomness.level > 0 ? createSeededRandom(randomness.seed) : null;
+
+        for (let i = 0; i < numberOfLineups; i++) {
+            // Each iteration solves against fresh draws; lineup stats are computed later from the base projections.
+            const solvePlayers = random ? perturbProjections(players, random, randomness!.level) : players;
+            const solution = await solveLineup(
+                solvePlayers,
+                request.lockedPlayers,
+                request.excludedIds,
+                excludedLineupSignatures,
+                request.salaryCap,
+                request.stackingRules,
+                request.optimizationTarget,
+                {
+                    slotConstraints: getExposureSlotConstraints(exposureTargets, mvpCounts, flexCounts, i, numberOfLineups),
+                    uniquenessRules: request.uniquenessRules,
+                    rosterRules: request.rosterRules,
+                    contestRuleset: request.contestRuleset,
+                    correlationObjective: request.correlationObjective,
+                }
+            );
+
+            if (!solution || solution.length === 0) {
+                break; // No more unique, valid lineups can be found
+            }
+
+            const lineup: SolvedLineup = {
+                mvpId: solution.find(p => p.isMvp)!.id,
+                flexIds: solution.filter(p => !p.isMvp).map(p => p.id),
+            };
+            lineups.push(lineup);
+            excludedLineupSignatures.add(getSolvedLineupSignature(lineup));
+            mvpCounts.set(lineup.mvpId, (mvpCounts.get(lineup.mvpId) || 0) + 1);
+            lineup.flexIds.forEach(id => flexCounts.set(id, (flexCounts.get(id) || 0) + 1));
+        }
+
+        return lineups;
+    },
+};
@@ -36,5 +36,26 @@ export const strategyPresets: StrategyPreset[] = [
             forceOpponentBringBack: false,
             maxFromPosition: { 'K': 2, 'D': 2 }
         }
+    },
+    {
+        name: 'MVP Double Stack',
+        description: 'For pass-funnel games. A QB at MVP must be paired with two of their own pass-catchers, and a kicker is never paired with their own defense.',
+        rules: {
+            stackQbWithReceiver: true,
+            forceOpponentBringBack: false,
+            maxFromPosition: { 'K': 1, 'D': 1 },
+            conditionalRules: [
+                {
+                    id: 'mvp_qb_double_stack',
+                    if: { slot: 'MVP', positions: ['QB'] },
+                    then: { selector: { positions: ['WR', 'TE'], team: 'SAME' }, min: 2 },
+                },
+                {
+                    id: 'no_k_with_own_d',
+                    if: { positions: ['K'] },
+                    then: { selector: { positions: ['D'], team: 'SAME' }, max: 0 },
+                },
+            ],
+        }
     }
 ];
@@ -0,0 +1,117 @@
+import { Player, PlayerQuantiles, ScoringSystem, StatProjections, VegasAdjustment } from '../types';
+import { calculateFptsFromProjections } from './projectionService';
+import { DEFAULT_SCORING_SYSTEM } from './scoringSystems';
+
+// Offensive touchdowns per implied point: each is worth ~7 with the extra point, and field goals make up the
+// rest, so a 24-point team scores ~2.6 touchdowns.
+const TOUCHDOWNS_PER_TEAM_POINT = 0.11;
+
+// Scrimmage yards for an implied total: ~340 for a league-average 22-point team.
+const TEAM_YARDS_BASE = 150;
+const TEAM_YARDS_PER_POINT = 8.5;
+
+// League-average passing share of yards and touchdowns. Favourites lean on the run to close games out and
+// underdogs throw to catch up, so each point of spread moves the share by half a percent.
+const BASE_PASS_SHARE = 0.58;
+const PASS_SHARE_PER_SPREAD_POINT = 0.005;
+
+// A slate rarely lists every player on a team, so a scale is capped rather than allowed to make up for
+// players who are missing.
+const MIN_SCALE = 0.5;
+const MAX_SCALE = 2;
+
+const OFFENSIVE_POSITIONS = new Set(['QB', 'RB', 'WR', 'TE']);
+
+const sum = (players: Player[], stat: keyof StatProjections) =>
+    players.reduce((total, p) => total + (p.statProjections!.mean[stat] ?? 0), 0);
+
+const clampScale = (target: number, projected: number) =>
+    projected > 0 ? Math.min(MAX_SCALE, Math.max(MIN_SCALE, target / projected)) : 1;
+
+/**
+ * Share of a team's yards and touchdowns expected through the air, from its spread (negative when favoured).
+ */
+export const getTeamPassShare = (spread: number): number =>
+    Math.min(0.7, Math.max(0.45, BASE_PASS_SHARE + spread * PASS_SHARE_PER_SPREAD_POINT));
+
+const scaleStats = (stats: StatProjections, scales: Omit<VegasAdjustment, 'impliedTeamTotal' | 'statImpliedTeamTotal' | 'passShare' | 'originalFpts' | 'fptsScale'>): StatProjections => {
+    const scaled = { ...stats };
+    const apply = (stat: keyof StatProjections, scale: number) => {
+        if (scaled[stat] != null) scaled[stat] = scaled[stat]! * scale;
+    };
+    apply('passingYards', scales.passYardsScale);
+    apply('receivingYards', scales.passYardsScale);
+    apply('receptions', scales.passYardsScale);
+    apply('passingTds', scales.passTdScale);
+    apply('receivingTds', scales.passTdScale);
+    apply('rushingYards', scales.rushYardsScale);
+    apply('rushingTds', scales.rushTdScale);
+    return scaled;
+};
+
+/**
+ * Rescales each team's offensive stat projections so they agree with the betting market. A team's summed
+ * touchdowns are scaled to what its implied total supports and its yards to the total's expected yardage,
+ * both split between passing and rushing by the spread. A quarterback's passing and the team's receiving
+ * move by the same factor, so the two sides of each completion stay consistent. Each player's mean, floor,
+ * ceiling and quantiles then move by the change in their stat line's fantasy points.
+ * Kickers and defenses are already projected from Vegas lines and pass through, as do players without
+ * stat projections or game lines.
+ * @param players Players carrying the model's projections.
+ * @param scoringSystem Scoring used to price the change in each stat line.
+ */
+export function reconcileWithVegas(players: Player[], scoringSystem: ScoringSystem = DEFAULT_SCORING_SYSTEM): Player[] {
+    const teams = new Map<string, Player[]>();
+    players.forEach(p => {
+        if (!OFFENSIVE_POSITIONS.has(p.position) || !p.vegas || !p.statProjections?.mean) return;
+        if (!teams.has(p.team)) teams.set(p.team, []);
+        teams.get(p.team)!.push(p);
+    });
+
+    const adjustments = new Map<string, Omit<VegasAdjustment, 'originalFpts' | 'fptsScale'>>();
+    teams.forEach((teamPlayers, team) => {
+        const { impliedTeamTotal, spread } = teamPlayers[0].vegas!;
+        // Completions are counted once: from the quarterback when the slate has one, from the catchers otherwise.
+        const hasPasser = teamPlayers.some(p => (p.statProjections!.mean.passingYards ?? 0) > 0);
+        const passYards = hasPasser ? sum(teamPlayers, 'passingYards') : sum(teamPlayers, 'receivingYards');
+        const passTds = hasPasser ? sum(teamPlayers, 'passingTds') : sum(teamPlayers, 'receivingTds');
+        const rushYards = sum(teamPlayers, 'rushingYards');
+        const rushTds = sum(teamPlayers, 'rushingTds');
+        if (passTds + rushTds <= 0 && passYards + rushYards <= 0) return;
+
+        const passShare = getTeamPassShare(spread);
+        const targetTds = impliedTeamTotal * TOUCHDOWNS_PER_TEAM_POINT;
+        const targetYards = TEAM_YARDS_BASE + impliedTeamTotal * TEAM_YARDS_PER_POINT;
+        adjustments.set(team, {
+            impliedTeamTotal,
+            statImpliedTeamTotal: (passTds + rushTds) / TOUCHDOWNS_PER_TEAM_POINT,
+            passShare,
+            passYardsScale: clampScale(targetYards * passShare, passYards),
+            rushYardsScale: clampScale(targetYards * (1 - passShare), rushYards),
+            passTdScale: clampScale(targetTds * passShare, passTds),
+            rushTdScale: clampScale(targetTds * (1 - passShare), rushTds),
+        });
+    });
+
+    return players.map(player => {
+        const team = adjustments.get(player.team);
+        if (!team || !teams.get(player.team)!.includes(player)) return player;
+
+        const mean = scaleStats(player.statProjections!.mean, team);
+        const originalStatFpts = calculateFptsFromProjections(player.statProjections!.mean, scoringSystem);
+        const fptsScale = originalStatFpts > 0 ? calculateFptsFromProjections(mean, scoringSystem) / originalStatFpts : 1;
+        const scale = (value: number) => value * fptsScale;
+
+        return {
+            ...player,
+            fpts: scale(player.fpts),
+            quantiles: player.quantiles && Object.fromEntries(Object.entries(player.quantiles).map(([level, value]) => [level, scale(value)])) as PlayerQuantiles,
+            scenarioFpts: { ...player.scenarioFpts, floor: scale(player.scenarioFpts.floor), ceiling: scale(player.scenarioFpts.ceiling) },
+            statProjections: {
+                mean,
+                ceiling: player.statProjections!.ceiling && scaleStats(player.statProjections!.ceiling, team),
+            },
+            vegasAdjustment: { ...team, originalFpts: player.fpts, fptsScale },
+        };
+    });
+}
@@ -0,0 +1,86 @@
+// Builds forward-only, time-ordered train/validate folds over the vault, so a model is only ever scored on
+// games played after everything it was trained on.
+
+const REGULAR_SEASON_WEEKS = 18;
+
+// Playoff rounds follow the regular season on the timeline, in the order they are played.
+const POSTSEASON_ROUNDS = ['WC', 'DIV', 'CON', 'SB'];
+
+const WEEKS_PER_SEASON = REGULAR_SEASON_WEEKS + POSTSEASON_ROUNDS.length;
+
+// Vault game IDs start with the season and then the week or playoff round: "2019_W7_KC_DEN", "2023_SB_KC_SF".
+const GAME_ID_PATTERN = new RegExp(`^(\\d{4})_(?:W(\\d{1,2})|(${POSTSEASON_ROUNDS.join('|')}))_`);
+
+export interface WalkForwardFold<T> {
+    trainingGames: T[];
+    validationGames: T[];
+    embargoedGames: T[]; // Played in the gap before the validation block; used for neither
+    trainingWeeks: [number, number]; // First and last week index in the training window
+    validationWeeks: [number, number];
+}
+
+/**
+ * A game's position on a single timeline of NFL weeks, from its vault ID. Playoff rounds count as the weeks
+ * after week 18 of their season.
+ * @returns The week index, or null when the ID carries no season and week or round.
+ */
+export function getGameWeekIndex(gameId: string): number | null {
+    const match = gameId.match(GAME_ID_PATTERN);
+    if (!match) return null;
+    const week = match[2] ? Number(match[2]) : REGULAR_SEASON_WEEKS + POSTSEASON_ROUNDS.indexOf(match[3]) + 1;
+    return Number(match[1]) * WEEKS_PER_SEASON + week - 1;
+}
+
+export const formatWeekIndex = (weekIndex: number): string => {
+    const week = (weekIndex % WEEKS_PER_SEASON) + 1;
+    const label = week > REGULAR_SEASON_WEEKS ? POSTSEASON_ROUNDS[week - REGULAR_SEASON_WEEKS - 1] : `W${week}`;
+    return `${Math.floor(weekIndex / WEEKS_PER_SEASON)} ${label}`;
+};
+
+/**
+ * Splits games into expanding-window walk-forward folds. The earliest weeks form the first training window;
+ * the weeks after it are cut into consecutive validation blocks, and each fold trains on every week before
+ * its block. Folds split on week boundaries so no week is on both sides, and the `embargoWeeks` weeks right
+ * before each block are purged from its training set so late-season form cannot carry straight into the
+ * games being scored.
+ * @param games Games with vault IDs; games whose ID has no season and week or round are left out.
+ * @param initialTrainingShare Percentage (0-100) of the weeks that make up the first training window.
+ * @param folds Number of validation blocks; fewer are made when there are fewer validation weeks.
+ * @param embargoWeeks Weeks left out between each training window and its validation block.
+ */
+export function createWalkForwardFolds<T extends { id: string }>(
+    games: T[],
+    initialTrainingShare: number,
+    folds: number,
+    embargoWeeks: number
+): WalkForwardFold<T>[] {
+    const dated = games
+        .map(game => ({ game, week: getGameWeekIndex(game.id) }))
+        .filter((g): g is { game: T, week: number } => g.week != null)
+        .sort((a, b) => a.week - b.week);
+    const weeks = [...new Set(dated.map(g => g.week))];
+
+    const initialWeeks = Math.max(1, Math.floor(weeks.length * initialTrainingShare / 100));
+    const validationWeeks = weeks.slice(initialWeeks);
+    const foldCount = Math.min(Math.max(1, folds), validationWeeks.length);
+
+    const result: WalkForwardFold<T>[] = [];
+    for (let i = 0; i < foldCount; i++) {
+        const block = validationWeeks.slice(
+            Math.floor(i * validationWeeks.length / foldCount),
+            Math.floor((i + 1) * validationWeeks.length / foldCount)
+        );
+        const [start, end] = [block[0], block[block.length - 1]];
+        const trainingEnd = start - Math.max(0, embargoWeeks);
+        const training = dated.filter(g => g.week < trainingEnd);
+        if (training.length === 0) continue;
+        result.push({
+            trainingGames: training.map(g => g.game),
+            validationGames: dated.filter(g => g.week >= start && g.week <= end).map(g => g.game),
+            embargoedGames: dated.filter(g => g.week >= trainingEnd && g.week < start).map(g => g.game),
+            trainingWeeks: [training[0].week, training[training.length - 1].week],
+            validationWeeks: [start, end],
+        });
+    }
+    return result;
+}
@@ -1,17 +1,27 @@
-import { OptimizerSettings, BacktestReport, Player, Lineup, StackingRules } from '../types';
-import { OptimizationTarget } from './optimizer';
+import { OptimizerSettings, BacktestReport, Player, Lineup, StackingRules, LineupBuildResult, PortfolioSettings, ContestStructure } from '../types';
+import { LineupBuildOptions, OptimizationTarget } from './optimizer';
+
+// Callbacks cannot cross to the worker, so the worker attaches its own infeasibility handler.
+type WorkerBuildOptions = Omit<LineupBuildOptions, 'onInfeasible'> & {
+    contestStructure?: ContestStructure; // Prices the finished build when set
+    simulationSeed?: number;
+};
+
+interface GenerateLineupsPayload {
+    players: Player[];
+    lockedPlayers: Player[];
+    excludedIds: string[];
+    numberOfLineups: number;
+    salaryCap: number;
+    stackingRules: StackingRules;
+    optimizationTarget: OptimizationTarget;
+    options: WorkerBuildOptions;
+}
 
 // A type-safe representation of the tasks our worker can perform.
 type WorkerTask = 
-  | { type: 'GENERATE_LINEUPS', payload: {
-        players: Player[],
-        lockedPlayers: Player[],
-        excludedIds: string[],
-        numberOfLineups: number,
-        salaryCap: number,
-        stackingRules: StackingRules,
-        optimizationTarget: OptimizationTarget,
-    }}
+  | { type: 'GENERATE_LINEUPS', payload: GenerateLineupsPayload }
+  | { type: 'GENERATE_PORTFOLIO', payload: GenerateLineupsPayload & { portfolio: PortfolioSettings, contestStructure: ContestStructure } }
   | { type: 'RUN_BACKTEST', payload: {
         settings: OptimizerSettings,
         currentPlayers: Player[],
@@ -73,6 +83,10 @@ function postTask<T>(type: WorkerTask['type'], payload: WorkerTask['payload'], o
     });
 }
 
+/**
+ * Builds lineups in the worker and prices them against `contestStructure` when one is given.
+ * Infeasibility diagnostics always run, and come back alongside the lineups.
+ */
 export function generateLineupsInWorker(
     players: Player[],
     lockedPlayers: Player[],
@@ -80,16 +94,48 @@ export function generateLineupsInWorker(
     numberOfLineups: number,
     salaryCap: number,
     stackingRules: StackingRules,
-    optimizationTarget: OptimizationTarget
-): Promise<Lineup[]> {
-    return postTask<Lineup[]>('GENERATE_LINEUPS', {
+    optimizationTarget: OptimizationTarget,
+    options: WorkerBuildOptions = {}
+): Promise<LineupBuildResult> {
+    return postTask<LineupBuildResult>('GENERATE_LINEUPS', {
         players,
         lockedPlayers,
         excludedIds: Array.from(excludedIds), // Convert Set to Array for transfer
         numberOfLineups,
         salaryCap,
         stackingRules,
-        optimizationTarget
+        optimizationTarget,
+        options,
+    });
+}
+
+/**
+ * Runs portfolio mode in the worker: a large candidate pool, simulated outcomes, then the best set of N.
+ * Diagnostics are not run here; a short pool simply yields fewer lineups.
+ */
+export function generatePortfolioInWorker(
+    players: Player[],
+    lockedPlayers: Player[],
+    excludedIds: Set<string>,
+    numberOfLineups: number,
+    salaryCap: number,
+    stackingRules: StackingRules,
+    optimizationTarget: OptimizationTarget,
+    portfolio: PortfolioSettings,
+    contestStructure: ContestStructure,
+    options: Omit<LineupBuildOptions, 'onInfeasible'> = {}
+): Promise<Lineup[]> {
+    return postTask<Lineup[]>('GENERATE_PORTFOLIO', {
+        players,
+        lockedPlayers,
+        excludedIds: Array.from(excludedIds),
+        numberOfLineups,
+        salaryCap,
+        stackingRules,
+        optimizationTarget,
+        portfolio,
+        contestStructure,
+        options,
     });
 }
 
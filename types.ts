@@ -8,10 +8,21 @@ export interface StatProjections {
   receptions?: number;
   receivingYards?: number;
   receivingTds?: number;
+  fumblesLost?: number;
+  twoPointConversions?: number;
+  fumbleReturnTds?: number; // Offensive fumble recoveries returned for a touchdown
   sacks?: number; // For DST
   defensiveInterceptions?: number; // For DST
   defensiveTds?: number; // For DST
-  fieldGoals?: number; // For K
+  fumbleRecoveries?: number; // For DST
+  safeties?: number; // For DST
+  returnTds?: number; // Kick and punt return touchdowns, for a DST or a returner
+  blockedKicks?: number; // For DST
+  pointsAllowed?: number; // For DST
+  fieldGoals?: number; // For K: made field goals of any distance, used when no distance split is given
+  fieldGoals0to39?: number; // For K
+  fieldGoals40to49?: number; // For K
+  fieldGoals50Plus?: number; // For K
   extraPoints?: number; // For K
 }
 
@@ -100,6 +111,13 @@ export interface Player {
       ceiling: number; // 90th percentile outcome, dynamically calculated
       floor: number;   // 10th percentile outcome
   };
+  quantiles?: PlayerQuantiles; // Fitted from vault residuals by position and salary tier
+  suppliedRange?: { floor?: number; ceiling?: number }; // Floor/ceiling given with the player upload; kept over fitted quantiles
+  projectionBlend?: ProjectionBlend; // Set when third-party projections were blended in
+  vegasAdjustment?: VegasAdjustment; // Set when the team's stat projections were reconciled to its implied total
+  overriddenFields?: OverrideField[]; // Fields replaced by an active manual override
+  archetype?: string; // e.g. "Deep Threat"; routes the player to an archetype model when the active set has one
+  modelSegment?: string; // Model-set segment the player was routed to; unset for the global model and for K and D, which project from stat lines
 
   // Advanced Metrics for a more nuanced model
   correlations: Record<string, number>; // Key: other player's ID, Value: correlation coefficient
@@ -133,8 +151,44 @@ export interface Lineup {
   roiScore: number; // Projected ROI based on FDP variance and ownership.
 
   // --- NEW: Contest-True Metrics ---
-  expectedValue: number;    // Contest EV, accounting for dupes
-  duplicationRisk: number;  // Estimated number of times this lineup will be duplicated
+  upsideScore: number;      // Ceiling (simulated P90 when available) discounted for duplication, in fantasy points
+  expectedPayout?: number;  // Dollar EV from simulated finishes against a contest field, when the build was priced
+  roi?: number;             // Expected return on the entry fee, in percent, alongside expectedPayout
+  duplicationRisk: number;  // Estimated number of times this lineup will be duplicated: the simulated estimate when available, else the proxy
+  duplicationProxy: number; // Legacy estimate: ownership product x 100,000 entries, treating players as independent
+  simulatedDuplication?: DuplicationEstimate; // Exact matches in a simulated contest field
+  scoreDistribution?: ScoreDistribution; // Simulated fantasy points, when a game simulation was supplied
+}
+
+// Projection quantiles. Any level can be used as an optimization target.
+export type QuantileLevel = 'p10' | 'p25' | 'p50' | 'p75' | 'p90' | 'p99';
+export type PlayerQuantiles = Record<QuantileLevel, number>;
+
+// Quantiles of actual-over-projected ratios per "POSITION|TIER" bucket ("ALL" for pooled buckets), fitted on vault outcomes.
+export interface QuantileModel {
+  buckets: Record<string, { multipliers: PlayerQuantiles, samples: number }>;
+  fittedAt: string;
+}
+
+// Expected copies of a lineup among the other entries of a contest, with a 90% range.
+export interface DuplicationEstimate {
+  expected: number;
+  low: number;
+  high: number;
+  matches: number; // Exact matches in the simulated field sample
+  sampleSize: number;
+}
+
+// Summary of a simulated fantasy point distribution.
+export interface ScoreDistribution {
+  mean: number;
+  stdDev: number;
+  p10: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p90: number;
+  p99: number;
 }
 
 export enum PlayerStatus {
@@ -143,12 +197,222 @@ export enum PlayerStatus {
   EXCLUDED = 'EXCLUDED',
 }
 
+// --- Conditional (if-then) roster rules ---
+export type RosterSlot = 'ANY' | 'MVP' | 'FLEX';
+
+export interface PlayerSelector {
+  slot?: RosterSlot; // Defaults to 'ANY'
+  positions?: string[]; // Any of these positions; empty/undefined matches all
+  playerIds?: string[]; // Any of these players; empty/undefined matches all
+  team?: 'SAME' | 'OPPONENT'; // Relative to the triggering player (only meaningful in 'then')
+}
+
+export interface ConditionalRule {
+  id: string;
+  if: PlayerSelector;
+  then: {
+    selector: PlayerSelector;
+    min?: number; // At least this many matching players (excluding the trigger)
+    max?: number; // At most this many matching players (excluding the trigger)
+  };
+}
+
 export interface StackingRules {
   stackQbWithReceiver: boolean;
   forceOpponentBringBack: boolean;
   maxFromPosition: {
     [position: string]: number;
   };
+  conditionalRules?: ConditionalRule[];
+}
+
+// Exposure bounds are percentages (0-100) of the generated lineup set.
+export interface ExposureRange {
+  min: number;
+  max: number;
+}
+
+export interface PlayerExposureTarget {
+  mvp?: ExposureRange;
+  flex?: ExposureRange;
+}
+
+export interface UniquenessRules {
+  minUniquePlayers: number; // Players that must differ from every previously generated lineup (1 to roster size)
+  mvpSwapCountsAsUnique: boolean; // If true, the previous MVP only overlaps when they are MVP again, so the same roster with a new MVP/Captain is one difference
+}
+
+// Adds pairwise correlation bonuses to the solver objective so stacks can emerge from the data.
+export interface CorrelationObjective {
+  enabled: boolean;
+  weight: number; // Bonus per pair = weight * correlation * sqrt(projA * projB); 0-1 is a sensible range
+}
+
+// Perturbs projections before every solve so a large build explores more than the single optimum.
+export interface RandomnessSettings {
+  level: number; // 0 = deterministic, 1 = draws span the player's full floor-ceiling range
+  seed: number;
+}
+
+// Lineup generation engines behind the LineupSolver interface.
+export type SolverBackendId = 'GLPK' | 'EXHAUSTIVE';
+
+// Portfolio mode builds a large candidate pool, simulates game outcomes, then picks the best set of N lineups.
+export type PortfolioObjective = 'EXPECTED_PAYOUT' | 'TOP_1_PERCENT';
+
+export interface PortfolioSettings {
+  enabled: boolean;
+  objective: PortfolioObjective;
+  candidatePoolSize: number; // Lineups generated before selection; several times the requested count works best
+  simulations: number; // Simulated game outcomes each candidate is scored against
+  seed: number;
+}
+
+// The contest being entered. payouts[k] is the prize for finishing place k + 1; places past the array pay nothing.
+export interface ContestStructure {
+  name: string;
+  entryFee: number;
+  fieldSize: number;
+  payouts: number[];
+  payoutSource?: 'TABLE' | 'ESTIMATED'; // An entered payout table, or the curve estimated from the payout style
+  maxEntries: number;
+}
+
+export type PayoutStyle = 'GPP' | 'DOUBLE_UP';
+
+// --- Contest rulesets (site-specific roster, salary and scoring rules) ---
+export type ContestRulesetId = 'FANDUEL_SHOWDOWN' | 'DRAFTKINGS_SHOWDOWN';
+
+export interface ContestRuleset {
+  id: ContestRulesetId;
+  name: string;
+  site: string; // Display name of the DFS site, e.g. 'FanDuel'
+  salaryCap: number;
+  rosterSize: number; // Total slots, including the MVP/Captain
+  maxPlayersPerTeam: number;
+  mvpLabel: string; // 'MVP' on FanDuel, 'CPT' on DraftKings
+  mvpMultiplier: number; // Points multiplier for the MVP/Captain slot
+  mvpSalaryMultiplier: number; // 1 if the MVP costs their base salary, 1.5 for a DraftKings Captain
+}
+
+// One player's row from a third-party projection CSV.
+export interface ExternalProjection {
+  mean: number;
+  ceiling?: number;
+  ownership?: number; // FLEX ownership, as a percentage
+}
+
+// An uploaded projection CSV, matched to the slate's player IDs.
+export interface ProjectionSource {
+  id: string;
+  name: string;
+  weight: number; // Blend weight relative to the model and the other sources
+  projections: Record<string, ExternalProjection>; // Key: player ID
+  unmatchedRows: string[]; // "Name (TEAM)" for rows that matched no player on the slate
+}
+
+// How a player's blended projection was built: the model's own numbers and each source that covered them.
+export interface ProjectionBlend {
+  model: { mean: number; ceiling: number; weight: number };
+  sources: ({ name: string; weight: number } & ExternalProjection)[];
+}
+
+// How a team's stat projections were rescaled to agree with the betting market, as applied to one player.
+export interface VegasAdjustment {
+  impliedTeamTotal: number; // The market's points for the team
+  statImpliedTeamTotal: number; // Points the team's summed touchdown projections imply
+  passShare: number; // Expected share of yards and touchdowns through the air, from the spread
+  passYardsScale: number;
+  rushYardsScale: number;
+  passTdScale: number;
+  rushTdScale: number;
+  originalFpts: number; // The player's mean before reconciliation
+  fptsScale: number; // Reconciled over original stat-line fantasy points, applied to the mean and spread
+}
+
+// Fields a user can override by hand on top of the projection pipeline.
+export type OverrideField = 'fpts' | 'ceiling' | 'mvpOwnership' | 'flexOwnership' | 'injuryStatus';
+
+export interface ProjectionOverride {
+  id: string;
+  playerId: string;
+  playerName: string;
+  field: OverrideField;
+  value: number | string; // A string only for injuryStatus
+  createdAt: string; // ISO timestamp
+  revertedAt?: string; // Set when undone or replaced by a newer override; kept for the audit trail
+}
+
+// An override as applied to a run, next to the pipeline value it replaced.
+export interface AppliedOverride extends ProjectionOverride {
+  pipelineValue: number | string;
+}
+
+export type ScoringSystemId = 'FANDUEL' | 'DRAFTKINGS' | 'CUSTOM';
+
+// A box-score line in the units every scoring system awards points for.
+export interface ScoringStatLine {
+  passYds?: number; passTds?: number; interceptions?: number;
+  rushYds?: number; rushTds?: number;
+  receptions?: number; recYds?: number; recTds?: number;
+  fumblesLost?: number;
+  twoPtConversions?: number;
+  fumbleReturnTds?: number;
+  returnTds?: number; // Kick and punt return touchdowns
+  // Kickers
+  fg0to39?: number; fg40to49?: number; fg50Plus?: number; extraPoints?: number;
+  // Defenses
+  sacks?: number; defInterceptions?: number; fumbleRecoveries?: number; defTds?: number;
+  safeties?: number; blockedKicks?: number;
+  pointsAllowed?: number; // Scored by tier rather than per point
+}
+
+export type ScoringStat = Exclude<keyof ScoringStatLine, 'pointsAllowed'>;
+
+// A one-off bonus for reaching a yardage threshold in a game, e.g. DraftKings' +3 at 300 passing yards.
+export interface YardageBonus {
+  stat: 'passYds' | 'rushYds' | 'recYds';
+  threshold: number;
+  points: number;
+}
+
+export interface ScoringSystem {
+  id: ScoringSystemId;
+  name: string;
+  points: Record<ScoringStat, number>; // Points per unit of each stat
+  pointsAllowedTiers: { maxPoints: number, fpts: number }[]; // Defense points by the most points allowed in each tier
+  yardageBonuses: YardageBonus[];
+}
+
+// Single-game legality toggles, enforced by the solver and by validateLineup.
+export interface RosterRules {
+  requireBothTeams: boolean;
+  allowKicker: boolean;
+  allowDefense: boolean;
+}
+
+export interface LineupViolation {
+  rule: 'ROSTER_SIZE' | 'UNKNOWN_PLAYER' | 'DUPLICATE_PLAYER' | 'SALARY_CAP' | 'BOTH_TEAMS' | 'MAX_PER_TEAM' | 'KICKER_DISABLED' | 'DEFENSE_DISABLED';
+  message: string;
+}
+
+// Constraint groups the infeasibility diagnostic relaxes one at a time.
+export type ConstraintGroup = 'PLAYER_POOL' | 'LOCKS' | 'SALARY_CAP' | 'STACKING_RULES' | 'EXPOSURE' | 'EXCLUSIONS' | 'ROSTER_RULES' | 'UNIQUENESS';
+
+export interface InfeasibilityReason {
+  constraint: ConstraintGroup;
+  message: string;
+}
+
+// Why the build stopped short: the smallest set of constraint groups that cannot all hold at once.
+export interface InfeasibilityReport {
+  lineupIndex: number; // 0-based index of the first lineup that could not be built
+  reasons: InfeasibilityReason[];
+}
+
+export interface LineupBuildResult {
+  lineups: Lineup[];
+  infeasibility: InfeasibilityReport | null; // Set when fewer lineups than requested were built
 }
 
 export interface StrategyPreset {
@@ -293,12 +557,7 @@ export interface HistoricalGame {
         position: string;
         archetype?: string;
         matchupAdvantageScore?: number; // NEW: For Matchup Supremacy Engine
-        stats: {
-            passYds?: number; passTds?: number; interceptions?: number;
-            rushYds?: number; rushTds?: number;
-            receptions?: number; recYds?: number; recTds?: number;
-            fumblesLost?: number;
-        };
+        stats: ScoringStatLine;
         // NEW: Advanced metrics based on expert DFS theory
         advancedStats?: {
             airYards?: number;
@@ -320,6 +579,7 @@ export interface HistoricalGame {
             redZoneConversionRate?: number;
         };
         actualFdp: number;
+        projectedFdp?: number; // Pre-game mean projection, when the source recorded one
         salary?: number;
     }[];
 }
@@ -336,11 +596,39 @@ export interface ModelDiscoveryReport {
 }
 
 // --- NEW: For Calibration & Validation Gates ---
+// Scored against each prediction's predictive distribution (its floor-to-ceiling split normal).
+// Reports saved before these were computed carry only mae, crps, pitKsPValue and p50Coverage.
 export interface CalibrationReport {
   mae: number;
-  crps: number; // Continuous Ranked Probability Score (placeholder)
-  pitKsPValue: number; // Probability Integral Transform Kolmogorov-Smirnov test p-value (placeholder)
-  p50Coverage: number; // % of actuals that fell within the P50 quantile (placeholder)
+  crps: number; // Continuous Ranked Probability Score, in fantasy points; lower is better
+  pitKsPValue: number; // Kolmogorov-Smirnov p-value of the PIT values against uniform; near 0 is miscalibrated
+  pitHistogram?: number[]; // Share of PIT values in each tenth of [0, 1]
+  ece?: number; // Expected calibration error: mean gap between nominal quantile levels and observed frequencies
+  p10Coverage?: number; // % of actuals at or below the predicted P10 (10 when calibrated)
+  p50Coverage: number; // % of actuals at or below the predicted P50 (50 when calibrated)
+  p90Coverage?: number; // % of actuals at or below the predicted P90 (90 when calibrated)
+}
+
+export type RegularizationMethod = 'ridge' | 'lasso';
+
+// How one feature's coefficient held up across the inner cross-validation fits at the chosen penalty.
+export interface CoefficientStability {
+  feature: string;
+  coefficient: number; // Final fit, per unit of the raw feature
+  standardizedCoefficient: number; // Final fit, per standard deviation of the feature
+  foldSd: number; // Spread of the standardized coefficient across the inner fits
+  selectionFrequency: number; // Share of inner fits where it was non-zero
+  signConsistency: number; // Share of inner fits agreeing with the final fit's sign; 0 when not selected
+}
+
+export interface RegularizationReport {
+  method: RegularizationMethod;
+  lambda: number; // Chosen penalty, on standardized features
+  cvMae: number; // Inner cross-validated MAE at the chosen penalty
+  innerFolds: number;
+  lambdaPath: { lambda: number; cvMae: number }[];
+  nonZeroFeatures: string[];
+  stability: CoefficientStability[];
 }
 
 export interface TunedModel {
@@ -348,12 +636,15 @@ export interface TunedModel {
   name: string;
   createdAt: string;
   weights: StatWeights;
+  intercept?: number; // Added to every prediction; set by models fit with an intercept
   performance: {
     mae: number; // Mean Absolute Error on the training set
     gamesSimulated?: number;
     validationMae?: number; // Mean Absolute Error on the BLIND validation set
     calibration?: CalibrationReport; // NEW: Detailed validation metrics
+    regularization?: RegularizationReport; // Set for ridge and lasso models
   };
+  segments?: SegmentModel[]; // Set for a model set; weights and intercept above are its global fallback
   sourceDescription: string;
   gameScript?: 'Neutral' | 'Shootout' | 'Defensive Struggle' | 'Blowout';
   // --- NEW: For Archetype & DNA Model ---
@@ -366,15 +657,47 @@ export interface TunedModel {
 }
 
 
-export interface ValidationReport {
+// K and DEF project from stat lines, so model sets carry no segments for them.
+export type PositionGroup = 'QB' | 'RB' | 'WR' | 'TE' | 'K' | 'DEF';
+
+// One member of a model set, fit only on players of one position group, or one archetype within it.
+export interface SegmentModel {
+  key: string; // "WR", or "WR|deep threat" for an archetype segment
+  positionGroup: PositionGroup;
+  archetype?: string; // Lower-cased; unset for the position-wide segment
+  weights: StatWeights;
+  intercept: number;
+  trainingRows: number;
+  calibration?: CalibrationReport; // On the validation players this segment projected
+}
+
+// The parts of a model that project a player; a plain model is a set with no segments.
+export type ModelSet = Pick<TunedModel, 'weights' | 'intercept' | 'segments'>;
+
+// One walk-forward fold: models trained on every week before the validation block, scored on the block.
+export interface ValidationFold {
+    index: number;
+    trainingWeeks: [string, string]; // First and last week trained on, e.g. "2004 W1"
+    validationWeeks: [string, string];
     trainingSetSize: number;
     validationSetSize: number;
-    models: TunedModel[];
+    embargoedGames: number; // Games in the embargo gap, used for neither training nor validation
+    models: { name: string; calibration: CalibrationReport }[];
+}
+
+export interface ValidationReport {
+    trainingSetSize: number; // Games in the final fold's training window, which the returned models were fit on
+    validationSetSize: number; // Games scored across all folds
+    embargoWeeks: number;
+    folds: ValidationFold[];
+    models: TunedModel[]; // Fit on the final fold; their calibration is that fold's
 }
 
 export interface SimulationParams {
-  trainValidateSplit: number; // Percentage (0-100) for training set size
+  trainValidateSplit: number; // Percentage (0-100) of the timeline used as the first fold's training window
   topKEnsemble: number; // Number of top models to include in the ensemble
+  folds: number; // Walk-forward validation folds over the rest of the timeline
+  embargoWeeks: number; // Weeks purged between each training window and its validation block
 }
 
 // --- NEW: Types for Post-Slate Analysis ---
@@ -416,7 +739,17 @@ export interface OptimizerSettings {
   numberOfLineups: number;
   salaryCap: number;
   stackingRules: StackingRules;
-  optimizationTarget: 'mean' | 'ceiling';
+  optimizationTarget: 'mean' | 'ceiling' | QuantileLevel;
+  exposureTargets?: Record<string, PlayerExposureTarget>; // Key: player ID
+  uniquenessRules?: UniquenessRules;
+  rosterRules?: RosterRules;
+  contestRuleset?: ContestRuleset;
+  correlationObjective?: CorrelationObjective;
+  randomness?: RandomnessSettings;
+  solverBackend?: SolverBackendId;
+  portfolio?: PortfolioSettings;
+  contestStructure?: ContestStructure;
+  scoringSystem?: ScoringSystem; // Defaults to the contest ruleset's site scoring
 }
 
 export interface BacktestGameResult {
@@ -448,4 +781,6 @@ export interface RunManifest {
     settings: OptimizerSettings;
     activeModelId: string | null;
     playerDataChecksum: string; // SHA-256 hash of the input player data
+    randomSeed: number | null; // Seed for projection perturbation; null when the run was deterministic
+    overrides: AppliedOverride[]; // Human input applied on top of the model's projections
 }
\ No newline at end of file